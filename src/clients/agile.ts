@@ -0,0 +1,213 @@
+import { BaseClient } from './base.js';
+import { JiraConfig } from '../config/jira.js';
+import { Logger } from '../utils/logger.js';
+import { JiraBoard, JiraIssue, JiraSprint } from '../types/jira.js';
+
+export type SprintState = 'active' | 'future' | 'closed';
+
+interface AgilePage<T> {
+  values: T[];
+  startAt: number;
+  maxResults: number;
+  total?: number;
+  isLast?: boolean;
+}
+
+// The Agile API accepts at most 50 issues per move request
+const MOVE_BATCH_SIZE = 50;
+
+/**
+ * Client for the Jira Software Agile REST API (rest/agile/1.0)
+ */
+export class AgileClient extends BaseClient {
+  constructor(config: JiraConfig) {
+    super(config);
+  }
+
+  /**
+   * Fetch every page of an Agile API list endpoint
+   */
+  private async getAllPages<T>(path: string, params: URLSearchParams = new URLSearchParams()): Promise<T[]> {
+    const values: T[] = [];
+    let startAt = 0;
+
+    for (;;) {
+      params.set('startAt', startAt.toString());
+      params.set('maxResults', '50');
+
+      const page = await this.request<AgilePage<T>>(`${path}?${params.toString()}`);
+      values.push(...page.values);
+      startAt += page.values.length;
+
+      if (page.isLast || page.values.length === 0 || (page.total !== undefined && startAt >= page.total)) {
+        return values;
+      }
+    }
+  }
+
+  /**
+   * List boards, optionally restricted to a project
+   */
+  async getBoards(projectKey?: string): Promise<JiraBoard[]> {
+    const params = new URLSearchParams();
+    if (projectKey) {
+      params.append('projectKeyOrId', projectKey);
+    }
+    return this.getAllPages<JiraBoard>('rest/agile/1.0/board', params);
+  }
+
+  /**
+   * Get a board by ID
+   */
+  async getBoard(boardId: number): Promise<JiraBoard> {
+    return this.request<JiraBoard>(`rest/agile/1.0/board/${boardId}`);
+  }
+
+  /**
+   * Resolve a board from a name or numeric ID.
+   * Without one, falls back to the project's only board.
+   */
+  async resolveBoard(boardNameOrId: string | undefined, projectKey: string): Promise<JiraBoard> {
+    if (boardNameOrId && /^\d+$/.test(boardNameOrId)) {
+      return this.getBoard(parseInt(boardNameOrId, 10));
+    }
+
+    const boards = await this.getBoards(projectKey || undefined);
+
+    if (boardNameOrId) {
+      const board = boards.find(b => b.name.toLowerCase() === boardNameOrId.toLowerCase());
+      if (!board) {
+        const names = boards.map(b => `"${b.name}" (${b.id})`).join(', ') || 'none';
+        throw new Error(`Board "${boardNameOrId}" not found for project ${projectKey}. Available boards: ${names}`);
+      }
+      return board;
+    }
+
+    if (boards.length === 1) {
+      Logger.debug(`Using only board for ${projectKey}: ${boards[0].name} (${boards[0].id})`);
+      return boards[0];
+    }
+
+    if (boards.length === 0) {
+      throw new Error(`No boards found for project ${projectKey}`);
+    }
+
+    const names = boards.map(b => `"${b.name}" (${b.id})`).join(', ');
+    throw new Error(`Project ${projectKey} has several boards. Pick one with --board or "jira init": ${names}`);
+  }
+
+  /**
+   * List sprints on a board, optionally filtered by state
+   */
+  async getSprints(boardId: number, states?: SprintState[]): Promise<JiraSprint[]> {
+    const params = new URLSearchParams();
+    if (states && states.length > 0) {
+      params.append('state', states.join(','));
+    }
+    return this.getAllPages<JiraSprint>(`rest/agile/1.0/board/${boardId}/sprint`, params);
+  }
+
+  /**
+   * Get the active sprint on a board, if any
+   */
+  async getActiveSprint(boardId: number): Promise<JiraSprint | null> {
+    const sprints = await this.getSprints(boardId, ['active']);
+    return sprints[0] || null;
+  }
+
+  /**
+   * Get a sprint by ID
+   */
+  async getSprint(sprintId: number): Promise<JiraSprint> {
+    return this.request<JiraSprint>(`rest/agile/1.0/sprint/${sprintId}`);
+  }
+
+  /**
+   * Resolve a sprint on a board by name or numeric ID
+   */
+  async findSprint(boardId: number, sprintNameOrId: string): Promise<JiraSprint> {
+    if (/^\d+$/.test(sprintNameOrId)) {
+      return this.getSprint(parseInt(sprintNameOrId, 10));
+    }
+
+    const sprints = await this.getSprints(boardId);
+    const sprint = sprints.find(s => s.name.toLowerCase() === sprintNameOrId.toLowerCase());
+    if (!sprint) {
+      const open = sprints.filter(s => s.state !== 'closed').map(s => `"${s.name}"`).join(', ') || 'none';
+      throw new Error(`Sprint "${sprintNameOrId}" not found on board ${boardId}. Open sprints: ${open}`);
+    }
+    return sprint;
+  }
+
+  /**
+   * Get every issue in a sprint
+   */
+  async getSprintIssues(sprintId: number): Promise<JiraIssue[]> {
+    const issues: JiraIssue[] = [];
+    let startAt = 0;
+
+    for (;;) {
+      const params = new URLSearchParams();
+      params.append('startAt', startAt.toString());
+      params.append('maxResults', '50');
+
+      const page = await this.request<{ issues: JiraIssue[]; total: number }>(
+        `rest/agile/1.0/sprint/${sprintId}/issue?${params.toString()}`
+      );
+      issues.push(...page.issues);
+      startAt += page.issues.length;
+
+      if (page.issues.length === 0 || startAt >= page.total) {
+        return issues;
+      }
+    }
+  }
+
+  /**
+   * Move issues into a sprint
+   */
+  async moveIssuesToSprint(sprintId: number, issueKeys: string[]): Promise<void> {
+    for (let i = 0; i < issueKeys.length; i += MOVE_BATCH_SIZE) {
+      await this.request<void>(`rest/agile/1.0/sprint/${sprintId}/issue`, {
+        method: 'POST',
+        json: { issues: issueKeys.slice(i, i + MOVE_BATCH_SIZE) },
+      });
+    }
+  }
+
+  /**
+   * Move issues out of any sprint and into the backlog
+   */
+  async moveIssuesToBacklog(issueKeys: string[]): Promise<void> {
+    for (let i = 0; i < issueKeys.length; i += MOVE_BATCH_SIZE) {
+      await this.request<void>('rest/agile/1.0/backlog/issue', {
+        method: 'POST',
+        json: { issues: issueKeys.slice(i, i + MOVE_BATCH_SIZE) },
+      });
+    }
+  }
+
+  /**
+   * Start a future sprint
+   */
+  async startSprint(sprintId: number, startDate: Date, endDate: Date): Promise<JiraSprint> {
+    return this.request<JiraSprint>(`rest/agile/1.0/sprint/${sprintId}`, {
+      method: 'POST',
+      json: {
+        state: 'active',
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Close an active sprint
+   */
+  async closeSprint(sprintId: number): Promise<JiraSprint> {
+    return this.request<JiraSprint>(`rest/agile/1.0/sprint/${sprintId}`, {
+      method: 'POST',
+      json: { state: 'closed' },
+    });
+  }
+}
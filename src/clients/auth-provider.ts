@@ -0,0 +1,122 @@
+import { AuthType, JiraConfig, OAuthConfig } from '../config/jira.js';
+import { OAuthCredentials, TokenStore } from '../config/token-store.js';
+import { OAuthFlow, OAUTH_API_BASE } from './oauth.js';
+import { SiteUrl } from '../utils/site-url.js';
+
+export interface AuthProvider {
+  readonly type: AuthType;
+  /** Base URL for REST API calls */
+  baseUrl(): string;
+  /** Value for the Authorization header */
+  authorization(): Promise<string>;
+  /** Renew credentials after a 401; only providers that can refresh implement this */
+  refresh?(): Promise<void>;
+}
+
+/**
+ * Jira Cloud: email + API token
+ */
+export class BasicAuthProvider implements AuthProvider {
+  readonly type = 'basic' as const;
+
+  constructor(private host: string, private email: string, private apiToken: string) {}
+
+  baseUrl(): string {
+    return SiteUrl.base(this.host);
+  }
+
+  async authorization(): Promise<string> {
+    return `Basic ${Buffer.from(`${this.email}:${this.apiToken}`).toString('base64')}`;
+  }
+}
+
+/**
+ * Jira Data Center / Server: personal access token sent as a bearer token
+ */
+export class BearerTokenProvider implements AuthProvider {
+  readonly type = 'pat' as const;
+
+  constructor(private host: string, private token: string) {}
+
+  baseUrl(): string {
+    return SiteUrl.base(this.host);
+  }
+
+  async authorization(): Promise<string> {
+    return `Bearer ${this.token}`;
+  }
+}
+
+// Refresh slightly early so a token doesn't expire mid-request
+const EXPIRY_MARGIN_MS = 60_000;
+
+/**
+ * Jira Cloud via OAuth 2.0 (3LO). Requests go through api.atlassian.com using
+ * the site's cloud ID; tokens live in the keychain and are refreshed as needed.
+ */
+export class OAuthProvider implements AuthProvider {
+  readonly type = 'oauth' as const;
+  private credentials: OAuthCredentials | null = null;
+  private pendingRefresh: Promise<void> | null = null;
+
+  constructor(private oauth: OAuthConfig, private profile?: string) {}
+
+  baseUrl(): string {
+    return `${OAUTH_API_BASE}/ex/jira/${this.oauth.cloudId}`;
+  }
+
+  async authorization(): Promise<string> {
+    const credentials = await this.load();
+    if (credentials.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) {
+      await this.refresh();
+    }
+    return `Bearer ${this.credentials!.accessToken}`;
+  }
+
+  async refresh(): Promise<void> {
+    // Concurrent requests share one refresh; refresh tokens are single-use
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.doRefresh().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async doRefresh(): Promise<void> {
+    const credentials = await this.load();
+    try {
+      const tokens = await OAuthFlow.refresh(this.oauth.clientId, credentials.clientSecret, credentials.refreshToken);
+      this.credentials = { ...credentials, ...tokens };
+    } catch (error) {
+      throw new Error(`OAuth token refresh failed (${(error as Error).message}). Run "jira auth set" to sign in again.`);
+    }
+    await TokenStore.save(this.oauth.clientId, this.credentials, this.profile);
+  }
+
+  private async load(): Promise<OAuthCredentials> {
+    if (!this.credentials) {
+      this.credentials = await TokenStore.load(this.oauth.clientId, this.profile);
+      if (!this.credentials) {
+        throw new Error('No OAuth tokens found in the keychain. Run "jira auth set" to sign in.');
+      }
+    }
+    return this.credentials;
+  }
+}
+
+export function createAuthProvider(config: JiraConfig): AuthProvider {
+  switch (config.authType || 'basic') {
+    case 'pat':
+      return new BearerTokenProvider(config.host, config.apiToken || '');
+    case 'oauth':
+      if (!config.oauth?.clientId || !config.oauth.cloudId) {
+        throw new Error('OAuth is selected but no client ID or cloud ID is configured. Run "jira auth set" to sign in.');
+      }
+      return new OAuthProvider(config.oauth, config.profile);
+    case 'basic':
+      return new BasicAuthProvider(config.host, config.email, config.apiToken || '');
+    default:
+      throw new Error(`Unknown auth type "${config.authType}". Use basic, pat, or oauth.`);
+  }
+}
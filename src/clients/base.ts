@@ -1,37 +1,47 @@
 import got, { Got } from 'got';
-import { JiraConfig } from '../config/jira.js';
+import { ApiVersion, JiraConfig } from '../config/jira.js';
 import { Logger } from '../utils/logger.js';
+import { SiteUrl } from '../utils/site-url.js';
+import { FieldAliases } from '../utils/field-aliases.js';
+import { AuthProvider, createAuthProvider } from './auth-provider.js';
+import { RequestScheduler } from './request-scheduler.js';
+
+// POST endpoints that only read, so they are safe to retry
+const IDEMPOTENT_POSTS = [/^rest\/api\/[23]\/search(\/jql)?$/, /^rest\/api\/[23]\/issue\/bulkfetch$/, /^rest\/api\/[23]\/jql\/(parse|match)$/];
 
 export class BaseClient {
   protected client: Got;
   protected config: JiraConfig;
+  protected auth: AuthProvider;
+  protected scheduler: RequestScheduler;
+  private apiVersion?: Promise<ApiVersion>;
+  // The "fieldAliases" of this client's config
+  readonly fieldAliases: FieldAliases;
 
   constructor(config: JiraConfig) {
     this.config = config;
-    
-    const baseUrl = `https://${config.host}`;
+    this.fieldAliases = new FieldAliases(config.fieldAliases);
+    this.auth = createAuthProvider(config);
+    this.scheduler = RequestScheduler.forSite(this.auth.baseUrl(), config.rateLimit);
     
     this.client = got.extend({
-      prefixUrl: baseUrl,
+      prefixUrl: this.auth.baseUrl(),
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json',
       },
-      username: config.email,
-      password: config.apiToken,
       responseType: 'json',
       timeout: {
         request: 30_000,
       },
+      // Retries and rate limiting are handled by the scheduler
       retry: {
-        limit: 3,
-        methods: ['GET', 'PUT', 'DELETE'],
-        statusCodes: [408, 413, 429, 500, 502, 503, 504],
-        errorCodes: ['ETIMEDOUT', 'ECONNRESET', 'EADDRINUSE', 'ECONNREFUSED', 'EPIPE', 'ENOTFOUND', 'ENETUNREACH', 'EAI_AGAIN'],
+        limit: 0,
       },
       hooks: {
         beforeRequest: [
-          (options) => {
+          async (options) => {
+            options.headers.authorization = await this.auth.authorization();
             Logger.debug(`${options.method} ${options.url}`, {
               headers: options.headers,
               body: options.json,
@@ -39,20 +49,22 @@ export class BaseClient {
           },
         ],
         afterResponse: [
-          (response) => {
+          async (response, retryWithMergedOptions) => {
             Logger.debug(`Response ${response.statusCode}`, {
               headers: response.headers,
               body: response.body,
             });
-            
-            // Handle rate limiting
-            if (response.statusCode === 429) {
-              const retryAfter = response.headers['retry-after'];
-              if (retryAfter) {
-                Logger.warning(`Rate limited. Retry after ${retryAfter} seconds`);
-              }
+
+            // Expired or revoked access token: refresh once and replay the request
+            const context = response.request.options.context;
+            if (response.statusCode === 401 && this.auth.refresh && !context.authRefreshed) {
+              Logger.debug('Access token rejected, refreshing');
+              await this.auth.refresh();
+              return retryWithMergedOptions({ context: { authRefreshed: true } });
             }
             
+            this.scheduler.observe(response.headers);
+            
             return response;
           },
         ],
@@ -66,12 +78,78 @@ export class BaseClient {
     });
   }
 
+  /**
+   * Requests allowed in flight at once for this site
+   */
+  get concurrency(): number {
+    return this.scheduler.concurrency;
+  }
+
+  /**
+   * REST API version to talk: configured, inferred from the host or auth method,
+   * or asked of the server. Cloud uses v3; Server and Data Center only serve v2.
+   */
+  protected getApiVersion(): Promise<ApiVersion> {
+    if (!this.apiVersion) {
+      this.apiVersion = this.detectApiVersion();
+    }
+    return this.apiVersion;
+  }
+
+  private async detectApiVersion(): Promise<ApiVersion> {
+    if (this.config.apiVersion) {
+      return this.config.apiVersion;
+    }
+    if (this.auth.type === 'oauth' || /\.atlassian\.net$/i.test(new URL(SiteUrl.base(this.config.host)).hostname)) {
+      return '3';
+    }
+    // Personal access tokens only exist on Data Center / Server
+    if (this.auth.type === 'pat') {
+      return '2';
+    }
+
+    try {
+      const path = 'rest/api/2/serverInfo';
+      const info = await this.send(path, undefined, () => this.client<{ deploymentType?: string }>(path, { responseType: 'json', resolveBodyOnly: true }));
+      Logger.debug(`Detected Jira deployment type: ${info.deploymentType}`);
+      return info.deploymentType === 'Cloud' ? '3' : '2';
+    } catch (error) {
+      Logger.debug(`Could not detect Jira deployment type, assuming Cloud: ${(error as Error).message}`);
+      return '3';
+    }
+  }
+
+  /**
+   * Call sites use rest/api/3 paths; on Server/Data Center they are sent to rest/api/2
+   */
+  protected async apiPath(path: string): Promise<string> {
+    if (path.startsWith('rest/api/3/') && (await this.getApiVersion()) === '2') {
+      return `rest/api/2/${path.slice('rest/api/3/'.length)}`;
+    }
+    return path;
+  }
+
   protected async request<T = any>(path: string, options?: any): Promise<T> {
-    const response = await this.client(path, {
-      ...options,
-      responseType: 'json',
-      resolveBodyOnly: true,
+    const url = await this.apiPath(path);
+    return this.send(url, options, async () => {
+      const response = await this.client(url, {
+        ...options,
+        responseType: 'json',
+        resolveBodyOnly: true,
+      });
+      return response as T;
     });
-    return response as T;
+  }
+
+  /**
+   * Run a request through the site's scheduler. GET, PUT and DELETE are retried
+   * on transient failures, as are POSTs that only read (searches).
+   */
+  protected send<T>(path: string, options: { method?: string } | undefined, task: () => Promise<T>): Promise<T> {
+    const method = (options?.method || 'GET').toUpperCase();
+    const pathname = path.split('?')[0];
+    const idempotent = ['GET', 'HEAD', 'PUT', 'DELETE'].includes(method)
+      || (method === 'POST' && IDEMPOTENT_POSTS.some(pattern => pattern.test(pathname)));
+    return this.scheduler.schedule(task, idempotent);
   }
 }
\ No newline at end of file
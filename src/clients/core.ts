@@ -1,17 +1,31 @@
+import { readFileSync, existsSync, statSync } from 'fs';
+import { basename } from 'path';
 import { BaseClient } from './base.js';
 import { JiraConfig } from '../config/jira.js';
 import { Logger } from '../utils/logger.js';
 import {
   JiraIssue,
+  JiraIssueType,
   JiraSearchResult,
   JiraTransition,
   JiraCreateIssue,
   JiraCreateMeta,
   JiraComment,
   JiraUser,
+  JiraChangelogHistory,
+  JiraWorklog,
+  JiraAttachment,
+  JiraFilter,
+  JiraField,
 } from '../types/jira.js';
-import { ADFBuilder } from '../utils/adf.js';
-import { STORY_POINT_FIELDS, EPIC_LINK_FIELDS } from '../constants.js';
+import { ADFBuilder, ADFDocument } from '../utils/adf.js';
+import { SiteUrl } from '../utils/site-url.js';
+import { WikiMarkup } from '../utils/wiki-markup.js';
+import { FieldMeta, FieldValues } from '../utils/field-values.js';
+import { FieldAliases } from '../utils/field-aliases.js';
+import { MetaCache } from '../utils/meta-cache.js';
+import { TransitionPlan, WorkflowPath } from '../utils/workflow-path.js';
+import { DEFAULTS } from '../constants.js';
 
 
 export interface JiraProject {
@@ -29,6 +43,11 @@ export interface SearchOptions {
   nextPageToken?: string;
 }
 
+export interface SearchAllOptions extends SearchOptions {
+  /** Stop after yielding this many issues */
+  max?: number;
+}
+
 export interface CreateIssueOptions {
   summary: string;
   description?: string;
@@ -41,6 +60,29 @@ export interface CreateIssueOptions {
   parent?: string;
   epic?: string;
   customFields?: Record<string, any>;
+  // Field values as typed (`Team=Platform`), by display name or ID; resolved against the create screen
+  fields?: Record<string, string>;
+}
+
+export interface BulkCreateResult {
+  // Set when the issue was created (the bulk endpoint returns id, key and self only)
+  issue?: Pick<JiraIssue, 'id' | 'key' | 'self'>;
+  error?: string;
+}
+
+// Create errors that createIssue can work around by dropping or swapping the field
+function recoverableCreateFields(aliases: FieldAliases): string[] {
+  return ['priority', ...aliases.storyPointFields(), 'components', ...aliases.epicLinkFields()];
+}
+
+// A rejected request as got reports it, with the body Jira sent back
+type RequestFailure<Body = { errorMessages?: string[]; errors?: Record<string, string> }> = Error & {
+  response?: { statusCode: number; body?: Body };
+};
+
+// "PROJ" for PROJ-123
+function projectOf(issueKey: string): string {
+  return issueKey.split('-')[0].toUpperCase();
 }
 
 export interface UpdateIssueOptions {
@@ -49,12 +91,26 @@ export interface UpdateIssueOptions {
   priority?: string;
   storyPoints?: number;
   labels?: { add?: string[]; remove?: string[] };
-  assignee?: string;
+  // null unassigns the issue
+  assignee?: string | null;
   epic?: string;
   customFields?: Record<string, any>;
+  // Field values as typed, by display name or ID; resolved against the edit screen
+  fields?: Record<string, string>;
+}
+
+export interface WorklogOptions {
+  timeSpentSeconds?: number;
+  started?: string;
+  comment?: string;
 }
 
 export class CoreClient extends BaseClient {
+  // Create screens by project and issue type, fetched once per client
+  private createFields = new Map<string, Promise<FieldMeta[]>>();
+  // On-disk metadata caches by project ('' for site-wide entries)
+  private metaCaches = new Map<string, MetaCache>();
+
   constructor(config: JiraConfig) {
     super(config);
   }
@@ -63,6 +119,13 @@ export class CoreClient extends BaseClient {
     return this.request<JiraUser>('rest/api/3/myself');
   }
 
+  /**
+   * The user the client is signed in as
+   */
+  async getCurrentUser(): Promise<JiraUser> {
+    return this.request<JiraUser>('rest/api/3/myself');
+  }
+
   async getProjects(): Promise<JiraProject[]> {
     return this.request<JiraProject[]>('rest/api/3/project');
   }
@@ -76,6 +139,7 @@ export class CoreClient extends BaseClient {
    */
   async searchIssues(options: SearchOptions = {}): Promise<JiraSearchResult> {
     const params = new URLSearchParams();
+    const apiVersion = await this.getApiVersion();
 
     // Build JQL query
     let jql = options.jql || '';
@@ -102,11 +166,78 @@ export class CoreClient extends BaseClient {
       params.append('expand', options.expand.join(','));
     }
 
+    if (apiVersion === '2') {
+      return this.searchIssuesV2(params, options.nextPageToken);
+    }
+
     if (options.nextPageToken) {
       params.append('nextPageToken', options.nextPageToken);
     }
 
-    return this.request<JiraSearchResult>(`rest/api/3/search/jql?${params.toString()}`);
+    const result = await this.request<JiraSearchResult>(`rest/api/3/search/jql?${params.toString()}`);
+    return { ...result, issues: result.issues.map(issue => this.normalizeIssue(issue)) };
+  }
+
+  /**
+   * Server/Data Center search pages by startAt. The offset is passed around as
+   * the page token so callers page the same way on every API version.
+   */
+  private async searchIssuesV2(params: URLSearchParams, pageToken?: string): Promise<JiraSearchResult> {
+    const startAt = pageToken ? parseInt(pageToken, 10) : 0;
+    if (isNaN(startAt) || startAt < 0) {
+      throw new Error(`Invalid page token "${pageToken}"`);
+    }
+    params.append('startAt', startAt.toString());
+
+    const page = await this.request<{ startAt: number; maxResults: number; total: number; issues: JiraIssue[] }>(
+      `rest/api/2/search?${params.toString()}`
+    );
+
+    const next = page.startAt + page.issues.length;
+    return {
+      total: page.total,
+      maxResults: page.maxResults,
+      issues: page.issues.map(issue => this.normalizeIssue(issue)),
+      nextPageToken: page.issues.length > 0 && next < page.total ? next.toString() : undefined,
+    };
+  }
+
+  /**
+   * Iterate over every issue matching a search, following nextPageToken
+   * until the result set ends or the max cap is reached.
+   * maxResults sets the page size rather than the overall limit.
+   */
+  async *searchAll(options: SearchAllOptions = {}): AsyncGenerator<JiraIssue> {
+    const { max, ...searchOptions } = options;
+    const pageSize = searchOptions.maxResults ?? DEFAULTS.SEARCH_PAGE_SIZE;
+    let nextPageToken = searchOptions.nextPageToken;
+    let yielded = 0;
+
+    do {
+      const remaining = max !== undefined ? max - yielded : pageSize;
+      if (remaining <= 0) {
+        return;
+      }
+
+      const page = await this.searchIssues({
+        ...searchOptions,
+        maxResults: Math.min(pageSize, remaining),
+        nextPageToken,
+      });
+
+      for (const issue of page.issues) {
+        if (max !== undefined && yielded >= max) {
+          return;
+        }
+        yield issue;
+        yielded++;
+      }
+
+      if (page.issues.length === 0) {
+        return;
+      }
+      nextPageToken = page.nextPageToken;
+    } while (nextPageToken);
   }
 
   /**
@@ -121,13 +252,173 @@ export class CoreClient extends BaseClient {
       url += `?${params.toString()}`;
     }
     
-    return this.request<JiraIssue>(url);
+    return this.normalizeIssue(await this.request<JiraIssue>(url));
+  }
+
+  /**
+   * Get the full change history for an issue, following pagination
+   */
+  async getChangelog(issueKey: string): Promise<JiraChangelogHistory[]> {
+    if ((await this.getApiVersion()) === '2') {
+      // Server/Data Center has no changelog endpoint; the expanded issue carries every history
+      const issue = await this.request<{ changelog?: { histories: JiraChangelogHistory[] } }>(
+        `rest/api/3/issue/${issueKey}?expand=changelog&fields=summary`
+      );
+      return issue.changelog?.histories || [];
+    }
+
+    const histories: JiraChangelogHistory[] = [];
+    let startAt = 0;
+
+    for (;;) {
+      const params = new URLSearchParams();
+      params.append('startAt', startAt.toString());
+      params.append('maxResults', '100');
+
+      const page = await this.request<{
+        values: JiraChangelogHistory[];
+        total: number;
+        isLast?: boolean;
+      }>(`rest/api/3/issue/${issueKey}/changelog?${params.toString()}`);
+
+      histories.push(...page.values);
+      startAt += page.values.length;
+
+      if (page.isLast || page.values.length === 0 || startAt >= page.total) {
+        return histories;
+      }
+    }
   }
 
   /**
    * Create a new issue
    */
   async createIssue(options: CreateIssueOptions): Promise<JiraIssue> {
+    const createData = await this.buildCreateData(options);
+
+    try {
+      return await this.request<JiraIssue>('rest/api/3/issue', {
+        method: 'POST',
+        json: createData,
+      });
+    } catch (error) {
+      return this.retryCreate(error as RequestFailure, options, createData);
+    }
+  }
+
+  /**
+   * Create many issues through the bulk endpoint, up to 50 per request.
+   * Results line up with the input: each has the created issue or the reason
+   * that row failed. Rows rejected only for fields that vary between projects
+   * (story points, priority, components, Epic Link) are retried one at a time
+   * through createIssue, which knows how to work around them.
+   *
+   * onResult is called as soon as each row is settled, so callers can record
+   * progress before the whole batch finishes.
+   */
+  async createIssues(
+    issues: CreateIssueOptions[],
+    onResult?: (index: number, result: BulkCreateResult) => void
+  ): Promise<BulkCreateResult[]> {
+    const results: BulkCreateResult[] = new Array(issues.length);
+    // Resolve each assignee once, not once per row
+    const users = new Map<string, Promise<JiraUser | null>>();
+    const settle = (index: number, result: BulkCreateResult) => {
+      results[index] = result;
+      onResult?.(index, result);
+    };
+
+    const chunks: number[][] = [];
+    for (let start = 0; start < issues.length; start += DEFAULTS.BULK_CREATE_SIZE) {
+      chunks.push(issues.slice(start, start + DEFAULTS.BULK_CREATE_SIZE).map((_, i) => start + i));
+    }
+
+    await Promise.all(chunks.map(async (indexes) => {
+      // Rows whose fields can't be built (e.g. a missing Epic) fail on their own
+      const rows: Array<{ index: number; data: JiraCreateIssue }> = [];
+      for (const index of indexes) {
+        try {
+          rows.push({ index, data: await this.buildCreateData(issues[index], users) });
+        } catch (error) {
+          settle(index, { error: (error as Error).message });
+        }
+      }
+
+      const outcome = rows.length > 0 ? await this.bulkCreate(rows.map(r => r.data)) : [];
+      await Promise.all(rows.map(async ({ index }, i) => {
+        const { issue, errors } = outcome[i];
+        if (issue) {
+          settle(index, { issue });
+        } else if (errors && Object.keys(errors.fields).some(f => recoverableCreateFields(this.fieldAliases).includes(f))) {
+          try {
+            const created = await this.createIssue(issues[index]);
+            settle(index, { issue: { id: created.id, key: created.key, self: created.self } });
+          } catch (error) {
+            settle(index, { error: (error as Error).message });
+          }
+        } else {
+          settle(index, { error: errors?.message || 'Issue was not created' });
+        }
+      }));
+    }));
+
+    return results;
+  }
+
+  /**
+   * One call to the bulk endpoint. Jira lists created issues in input order and
+   * reports each failure by its position, so the two are merged back into rows.
+   */
+  private async bulkCreate(
+    issueUpdates: JiraCreateIssue[]
+  ): Promise<Array<{ issue?: BulkCreateResult['issue']; errors?: { message: string; fields: Record<string, string> } }>> {
+    let body: {
+      issues?: Array<{ id: string; key: string; self: string }>;
+      errors?: Array<{ failedElementNumber: number; elementErrors?: { errorMessages?: string[]; errors?: Record<string, string> } }>;
+    };
+
+    try {
+      body = await this.request('rest/api/3/issue/bulk', {
+        method: 'POST',
+        json: { issueUpdates },
+      });
+    } catch (error) {
+      // When every row fails Jira answers 400 with the same per-row errors
+      const { response, message: reason } = error as RequestFailure<typeof body & { errorMessages?: string[] }>;
+      if (Array.isArray(response?.body?.errors)) {
+        body = response.body;
+      } else {
+        const message = response?.body?.errorMessages?.join('; ') || reason;
+        return issueUpdates.map(() => ({ errors: { message, fields: {} } }));
+      }
+    }
+
+    const failures = new Map((body.errors || []).map(e => [e.failedElementNumber, e.elementErrors || {}]));
+    const created = [...(body.issues || [])];
+
+    return issueUpdates.map((_, i) => {
+      const failure = failures.get(i);
+      if (!failure) {
+        const issue = created.shift();
+        return issue ? { issue } : { errors: { message: 'Jira did not return the created issue', fields: {} } };
+      }
+      const fields = failure.errors || {};
+      const message = [
+        ...(failure.errorMessages || []),
+        ...Object.entries(fields).map(([field, error]) => `${field}: ${error}`),
+      ].join('; ');
+      return { errors: { message: message || 'Issue was not created', fields } };
+    });
+  }
+
+  /**
+   * Fields for a create request, with the assignee resolved to an account.
+   * Pass a map to share user lookups across several issues.
+   */
+  private async buildCreateData(
+    options: CreateIssueOptions,
+    users = new Map<string, Promise<JiraUser | null>>()
+  ): Promise<JiraCreateIssue> {
     const createData: JiraCreateIssue = {
       fields: {
         project: {
@@ -140,9 +431,9 @@ export class CoreClient extends BaseClient {
       },
     };
 
-    // Add description in ADF format
+    // Add description in ADF format (wiki markup on Server/Data Center)
     if (options.description) {
-      createData.fields.description = ADFBuilder.textToADF(options.description);
+      createData.fields.description = await this.toRichText(options.description);
     }
 
     // Add optional fields
@@ -150,9 +441,9 @@ export class CoreClient extends BaseClient {
       createData.fields.priority = { name: options.priority };
     }
 
-    // Add story points if provided (uses first known field; retried on error)
+    // Add story points if provided (uses the aliased or first known field; retried on error)
     if (options.storyPoints !== undefined) {
-      createData.fields[STORY_POINT_FIELDS[0]] = options.storyPoints;
+      createData.fields[this.fieldAliases.storyPointFields()[0]] = options.storyPoints;
     }
 
     if (options.labels && options.labels.length > 0) {
@@ -186,9 +477,12 @@ export class CoreClient extends BaseClient {
 
     if (options.assignee) {
       // Need to resolve user to accountId
-      const user = await this.findUser(options.assignee);
+      if (!users.has(options.assignee)) {
+        users.set(options.assignee, this.findUser(options.assignee));
+      }
+      const user = await users.get(options.assignee);
       if (user) {
-        createData.fields.assignee = { accountId: user.accountId };
+        createData.fields.assignee = this.userReference(user);
       }
     }
 
@@ -197,124 +491,133 @@ export class CoreClient extends BaseClient {
       Object.assign(createData.fields, options.customFields);
     }
 
-    try {
-      return await this.request<JiraIssue>('rest/api/3/issue', {
-        method: 'POST',
-        json: createData,
-      });
-    } catch (error: any) {
-      // Handle field not available errors
-      if (error.response?.statusCode === 400 && error.response?.body) {
-        const body = error.response.body;
-        
-        // Provide detailed error information
-        Logger.debug('400 Error details:', JSON.stringify(body, null, 2));
-        
-        let retryNeeded = false;
-        const fieldErrors: string[] = [];
+    if (options.fields && Object.keys(options.fields).length > 0) {
+      const project = this.config.project;
+      const fields = await this.getCreateFields(project, options.issueType);
+      Object.assign(createData.fields, await this.resolveFields(options.fields, fields, `${options.issueType} in ${project}`));
+    }
+
+    return createData;
+  }
+
+  /**
+   * Work around a rejected create: drop or swap fields the project doesn't
+   * have and try once more, or explain which fields were wrong
+   */
+  private async retryCreate(error: RequestFailure, options: CreateIssueOptions, createData: JiraCreateIssue): Promise<JiraIssue> {
+    // Handle field not available errors
+    if (error.response?.statusCode === 400 && error.response?.body) {
+      const body = error.response.body;
+      const errors = body.errors;
+      
+      // Provide detailed error information
+      Logger.debug('400 Error details:', JSON.stringify(body, null, 2));
+      
+      let retryNeeded = false;
+      const fieldErrors: string[] = [];
+      
+      // Check for specific field errors and provide solutions
+      if (errors) {
+        // Priority field error
+        if (errors.priority && options.priority) {
+          Logger.warning('Priority field not available in project, removing it');
+          delete createData.fields.priority;
+          retryNeeded = true;
+        }
         
-        // Check for specific field errors and provide solutions
-        if (body.errors) {
-          // Priority field error
-          if (body.errors.priority && options.priority) {
-            Logger.warning('Priority field not available in project, removing it');
-            delete createData.fields.priority;
-            retryNeeded = true;
-          }
-          
-          // Story points field error - try next known field
-          if (options.storyPoints !== undefined) {
-            const failedSPField = STORY_POINT_FIELDS.find(f => body.errors[f]);
-            if (failedSPField) {
-              delete createData.fields[failedSPField];
-              const nextIdx = STORY_POINT_FIELDS.indexOf(failedSPField) + 1;
-              if (nextIdx < STORY_POINT_FIELDS.length) {
-                const nextField = STORY_POINT_FIELDS[nextIdx];
-                Logger.warning(`Story points field ${failedSPField} not available, trying ${nextField}`);
-                createData.fields[nextField] = options.storyPoints;
-              } else {
-                Logger.warning(`Story points field ${failedSPField} not available, removing story points`);
-              }
-              retryNeeded = true;
+        // Story points field error - try next known field
+        if (options.storyPoints !== undefined) {
+          const storyPointFields = this.fieldAliases.storyPointFields();
+          const failedSPField = storyPointFields.find(f => errors[f]);
+          if (failedSPField) {
+            delete createData.fields[failedSPField];
+            const nextIdx = storyPointFields.indexOf(failedSPField) + 1;
+            if (nextIdx < storyPointFields.length) {
+              const nextField = storyPointFields[nextIdx];
+              Logger.warning(`Story points field ${failedSPField} not available, trying ${nextField}`);
+              createData.fields[nextField] = options.storyPoints;
+            } else {
+              Logger.warning(`Story points field ${failedSPField} not available, removing story points`);
             }
-          }
-          
-          // Issue type error
-          if (body.errors.issuetype) {
-            fieldErrors.push(`Issue Type: ${body.errors.issuetype}`);
-          }
-          
-          // Components error
-          if (body.errors.components && options.components) {
-            Logger.warning('Components field not available in project, removing it');
-            delete createData.fields.components;
             retryNeeded = true;
           }
-          
-          // Parent error (for sub-tasks)
-          if (body.errors.parent) {
-            fieldErrors.push(`Parent: ${body.errors.parent}`);
-          }
-          
-          // Epic Link field errors - try different Epic Link fields
-          let epicLinkErrorFound = false;
-          for (const field of EPIC_LINK_FIELDS) {
-            if (body.errors[field] && options.epic !== undefined) {
-              if (!epicLinkErrorFound) {
-                Logger.warning(`Epic Link field ${field} not available, trying alternative fields`);
-                delete createData.fields[field];
-                
-                // Try next common Epic Link field
-                const nextField = EPIC_LINK_FIELDS[EPIC_LINK_FIELDS.indexOf(field) + 1];
-                if (nextField) {
-                  createData.fields[nextField] = options.epic;
-                  retryNeeded = true;
-                  epicLinkErrorFound = true;
-                } else {
-                  Logger.warning('No Epic Link field found, removing Epic Link');
-                  // Remove all potential Epic Link fields
-                  EPIC_LINK_FIELDS.forEach(f => delete createData.fields[f]);
-                }
-              }
-            }
-          }
-          
-          // Collect other field errors
-          const ignoredFields = ['priority', ...STORY_POINT_FIELDS, 'components', ...EPIC_LINK_FIELDS];
-          Object.keys(body.errors).forEach(field => {
-            if (!ignoredFields.includes(field)) {
-              fieldErrors.push(`${field}: ${body.errors[field]}`);
-            }
-          });
         }
         
-        // If we can retry, try again
-        if (retryNeeded) {
-          Logger.debug('Retrying create with modified fields');
-          return await this.request<JiraIssue>('rest/api/3/issue', {
-            method: 'POST',
-            json: createData,
-          });
+        // Issue type error
+        if (errors.issuetype) {
+          fieldErrors.push(`Issue Type: ${errors.issuetype}`);
         }
         
-        // If there are field errors, throw a detailed error
-        if (fieldErrors.length > 0) {
-          const errorMessage = `Issue creation failed with field errors:\n${fieldErrors.join('\n')}`;
-          if (body.errorMessages && body.errorMessages.length > 0) {
-            throw new Error(`${errorMessage}\n\nGeneral errors:\n${body.errorMessages.join('\n')}`);
+        // Components error
+        if (errors.components && options.components) {
+          Logger.warning('Components field not available in project, removing it');
+          delete createData.fields.components;
+          retryNeeded = true;
+        }
+        
+        // Parent error (for sub-tasks)
+        if (errors.parent) {
+          fieldErrors.push(`Parent: ${errors.parent}`);
+        }
+        
+        // Epic Link field errors - try different Epic Link fields
+        let epicLinkErrorFound = false;
+        const epicLinkFields = this.fieldAliases.epicLinkFields();
+        for (const field of epicLinkFields) {
+          if (errors[field] && options.epic !== undefined) {
+            if (!epicLinkErrorFound) {
+              Logger.warning(`Epic Link field ${field} not available, trying alternative fields`);
+              delete createData.fields[field];
+              
+              // Try next common Epic Link field
+              const nextField = epicLinkFields[epicLinkFields.indexOf(field) + 1];
+              if (nextField) {
+                createData.fields[nextField] = options.epic;
+                retryNeeded = true;
+                epicLinkErrorFound = true;
+              } else {
+                Logger.warning('No Epic Link field found, removing Epic Link');
+                // Remove all potential Epic Link fields
+                epicLinkFields.forEach(f => delete createData.fields[f]);
+              }
+            }
           }
-          throw new Error(errorMessage);
         }
         
-        // If there are general error messages, include them
+        // Collect other field errors
+        Object.keys(errors).forEach(field => {
+          if (!recoverableCreateFields(this.fieldAliases).includes(field)) {
+            fieldErrors.push(`${field}: ${errors[field]}`);
+          }
+        });
+      }
+      
+      // If we can retry, try again
+      if (retryNeeded) {
+        Logger.debug('Retrying create with modified fields');
+        return await this.request<JiraIssue>('rest/api/3/issue', {
+          method: 'POST',
+          json: createData,
+        });
+      }
+      
+      // If there are field errors, throw a detailed error
+      if (fieldErrors.length > 0) {
+        const errorMessage = `Issue creation failed with field errors:\n${fieldErrors.join('\n')}`;
         if (body.errorMessages && body.errorMessages.length > 0) {
-          throw new Error(`Issue creation failed:\n${body.errorMessages.join('\n')}`);
+          throw new Error(`${errorMessage}\n\nGeneral errors:\n${body.errorMessages.join('\n')}`);
         }
+        throw new Error(errorMessage);
       }
       
-      // Re-throw for other errors
-      throw error;
+      // If there are general error messages, include them
+      if (body.errorMessages && body.errorMessages.length > 0) {
+        throw new Error(`Issue creation failed:\n${body.errorMessages.join('\n')}`);
+      }
     }
+    
+    // Re-throw for other errors
+    throw error;
   }
 
   /**
@@ -329,8 +632,9 @@ export class CoreClient extends BaseClient {
       updateData.fields.summary = options.summary;
     }
 
-    if (options.description) {
-      updateData.fields.description = ADFBuilder.textToADF(options.description);
+    if (options.description !== undefined) {
+      // An empty description clears the field
+      updateData.fields.description = options.description ? await this.toRichText(options.description) : null;
     }
 
     if (options.priority) {
@@ -385,10 +689,12 @@ export class CoreClient extends BaseClient {
       }
     }
 
-    if (options.assignee) {
+    if (options.assignee === null) {
+      updateData.fields.assignee = null;
+    } else if (options.assignee) {
       const user = await this.findUser(options.assignee);
       if (user) {
-        updateData.fields.assignee = { accountId: user.accountId };
+        updateData.fields.assignee = this.userReference(user);
       }
     }
 
@@ -396,6 +702,10 @@ export class CoreClient extends BaseClient {
       Object.assign(updateData.fields, options.customFields);
     }
 
+    if (options.fields && Object.keys(options.fields).length > 0) {
+      Object.assign(updateData.fields, await this.resolveEditFields(issueKey, options.fields));
+    }
+
     await this.request<void>(`rest/api/3/issue/${issueKey}`, {
       method: 'PUT',
       json: updateData,
@@ -407,27 +717,46 @@ export class CoreClient extends BaseClient {
    */
   async getTransitions(issueKey: string): Promise<JiraTransition[]> {
     const response = await this.request<{ transitions: JiraTransition[] }>(
-      `rest/api/3/issue/${issueKey}/transitions`
+      `rest/api/3/issue/${issueKey}/transitions?expand=transitions.fields`
     );
     return response.transitions;
   }
 
+  /**
+   * Fields on a transition's screen (from getTransitions), with schemas and allowed values
+   */
+  transitionFields(transition: JiraTransition): FieldMeta[] {
+    return Object.entries(transition.fields || {}).map(([fieldId, field]) => ({ ...field, fieldId }));
+  }
+
+  /**
+   * Resolve `--field` style values against a transition's screen
+   */
+  resolveTransitionFields(transition: JiraTransition, values: Record<string, string>): Promise<Record<string, unknown>> {
+    return this.resolveFields(values, this.transitionFields(transition), `the "${transition.name}" transition`);
+  }
+
   /**
    * Transition an issue to a new status
+   * @param fields Values for the transition screen, already in REST form (see resolveTransitionFields)
    */
-  async transitionIssue(issueKey: string, transitionId: string, comment?: string): Promise<void> {
+  async transitionIssue(issueKey: string, transitionId: string, comment?: string, fields?: Record<string, unknown>): Promise<void> {
     const data: any = {
       transition: {
         id: transitionId,
       },
     };
 
+    if (fields && Object.keys(fields).length > 0) {
+      data.fields = fields;
+    }
+
     if (comment) {
       data.update = {
         comment: [
           {
             add: {
-              body: ADFBuilder.textToADF(comment),
+              body: await this.toRichText(comment),
             },
           },
         ],
@@ -445,13 +774,14 @@ export class CoreClient extends BaseClient {
    */
   async addComment(issueKey: string, comment: string): Promise<JiraComment> {
     const data = {
-      body: ADFBuilder.textToADF(comment),
+      body: await this.toRichText(comment),
     };
 
-    return this.request<JiraComment>(`rest/api/3/issue/${issueKey}/comment`, {
+    const created = await this.request<JiraComment>(`rest/api/3/issue/${issueKey}/comment`, {
       method: 'POST',
       json: data,
     });
+    return this.normalizeComment(created);
   }
 
   /**
@@ -461,7 +791,191 @@ export class CoreClient extends BaseClient {
     const response = await this.request<{ comments: JiraComment[] }>(
       `rest/api/3/issue/${issueKey}/comment`
     );
-    return response.comments;
+    return response.comments.map(comment => this.normalizeComment(comment));
+  }
+
+  /**
+   * Log work on an issue
+   */
+  async addWorklog(issueKey: string, options: WorklogOptions): Promise<JiraWorklog> {
+    return this.request<JiraWorklog>(`rest/api/3/issue/${issueKey}/worklog`, {
+      method: 'POST',
+      json: await this.buildWorklogData(options),
+    });
+  }
+
+  /**
+   * Get every worklog on an issue, oldest first
+   */
+  async getWorklogs(issueKey: string): Promise<JiraWorklog[]> {
+    const worklogs: JiraWorklog[] = [];
+    let startAt = 0;
+
+    for (;;) {
+      const params = new URLSearchParams();
+      params.append('startAt', startAt.toString());
+      params.append('maxResults', '1000');
+
+      const page = await this.request<{ worklogs: JiraWorklog[]; total: number }>(
+        `rest/api/3/issue/${issueKey}/worklog?${params.toString()}`
+      );
+
+      worklogs.push(...page.worklogs.map(worklog => this.normalizeComment(worklog, 'comment')));
+      startAt += page.worklogs.length;
+
+      if (page.worklogs.length === 0 || startAt >= page.total) {
+        return worklogs;
+      }
+    }
+  }
+
+  /**
+   * Update an existing worklog; only the given fields change
+   */
+  async updateWorklog(issueKey: string, worklogId: string, options: WorklogOptions): Promise<JiraWorklog> {
+    return this.request<JiraWorklog>(`rest/api/3/issue/${issueKey}/worklog/${worklogId}`, {
+      method: 'PUT',
+      json: await this.buildWorklogData(options),
+    });
+  }
+
+  /**
+   * Delete a worklog
+   */
+  async deleteWorklog(issueKey: string, worklogId: string): Promise<void> {
+    await this.request<void>(`rest/api/3/issue/${issueKey}/worklog/${worklogId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * List attachments on an issue
+   */
+  async getAttachments(issueKey: string): Promise<JiraAttachment[]> {
+    const issue = await this.request<JiraIssue>(`rest/api/3/issue/${issueKey}?fields=attachment`);
+    return issue.fields.attachment || [];
+  }
+
+  /**
+   * Upload files to an issue as a single multipart request
+   */
+  async addAttachments(issueKey: string, filePaths: string[]): Promise<JiraAttachment[]> {
+    const form = new FormData();
+
+    for (const filePath of filePaths) {
+      if (!existsSync(filePath) || !statSync(filePath).isFile()) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      form.append('file', new Blob([readFileSync(filePath)]), basename(filePath));
+    }
+
+    // Jira rejects multipart uploads without the XSRF opt-out header.
+    // Clearing Content-Type lets got set the multipart boundary.
+    return this.request<JiraAttachment[]>(`rest/api/3/issue/${issueKey}/attachments`, {
+      method: 'POST',
+      body: form,
+      headers: {
+        'X-Atlassian-Token': 'no-check',
+        'Content-Type': undefined,
+      },
+    });
+  }
+
+  /**
+   * Download an attachment's content
+   */
+  async downloadAttachment(attachmentId: string): Promise<Buffer> {
+    let path = `rest/api/3/attachment/content/${attachmentId}`;
+    if ((await this.getApiVersion()) === '2') {
+      // Server/Data Center has no content endpoint; the attachment links to its file instead
+      const attachment = await this.request<JiraAttachment>(`rest/api/3/attachment/${attachmentId}`);
+      path = this.sitePath(attachment.content);
+    }
+    return this.send(path, undefined, () => this.client(path, {
+      responseType: 'buffer',
+      resolveBodyOnly: true,
+    }));
+  }
+
+  /**
+   * A URL on this site as a path relative to the client's base URL
+   */
+  private sitePath(url: string): string {
+    const base = new URL(`${SiteUrl.base(this.config.host)}/`);
+    const target = new URL(url);
+    if (!target.pathname.startsWith(base.pathname)) {
+      throw new Error(`${url} is not on ${base.href}`);
+    }
+    return `${target.pathname.slice(base.pathname.length)}${target.search}`;
+  }
+
+  /**
+   * Get the current user's favourite (starred) filters
+   */
+  async getFavouriteFilters(): Promise<JiraFilter[]> {
+    return this.request<JiraFilter[]>('rest/api/3/filter/favourite');
+  }
+
+  /**
+   * Get a saved Jira filter by ID
+   */
+  async getFilter(filterId: string): Promise<JiraFilter> {
+    return this.request<JiraFilter>(`rest/api/3/filter/${filterId}`);
+  }
+
+  private async buildWorklogData(options: WorklogOptions): Promise<Record<string, unknown>> {
+    const data: Record<string, unknown> = {};
+    if (options.timeSpentSeconds !== undefined) {
+      data.timeSpentSeconds = options.timeSpentSeconds;
+    }
+    if (options.started) {
+      data.started = options.started;
+    }
+    if (options.comment) {
+      data.comment = await this.toRichText(options.comment);
+    }
+    return data;
+  }
+
+  /**
+   * Rich text for a request body: ADF for Cloud, wiki markup for Server/Data Center
+   */
+  private async toRichText(markdown: string): Promise<ADFDocument | string> {
+    const adf = ADFBuilder.textToADF(markdown);
+    return (await this.getApiVersion()) === '2' ? WikiMarkup.fromADF(adf) : adf;
+  }
+
+  /**
+   * API v2 returns rich text as wiki markup strings; convert them to ADF so
+   * formatters and commands only ever deal with one format
+   */
+  private normalizeIssue(issue: JiraIssue): JiraIssue {
+    const fields = issue.fields;
+    if (!fields) {
+      return issue;
+    }
+    if (typeof fields.description === 'string') {
+      fields.description = WikiMarkup.toADF(fields.description);
+    }
+    if (fields.comment?.comments) {
+      fields.comment.comments = fields.comment.comments.map(comment => this.normalizeComment(comment));
+    }
+    return issue;
+  }
+
+  private normalizeComment<T extends object>(item: T, field: string = 'body'): T {
+    const value = (item as Record<string, unknown>)[field];
+    if (typeof value === 'string') {
+      return { ...item, [field]: WikiMarkup.toADF(value) };
+    }
+    return item;
+  }
+
+  /**
+   * Cloud identifies users by accountId; Server/Data Center by username
+   */
+  private userReference(user: JiraUser): { accountId: string } | { name: string } {
+    return user.accountId ? { accountId: user.accountId } : { name: user.name! };
   }
 
   /**
@@ -479,6 +993,12 @@ export class CoreClient extends BaseClient {
       }
       
       params.append('maxResults', '1');
+
+      // Server/Data Center searches users with "username" (which also matches email and display name)
+      if ((await this.getApiVersion()) === '2') {
+        params.set('username', query);
+        params.delete('query');
+      }
       
       const users = await this.request<JiraUser[]>(`rest/api/3/user/search?${params.toString()}`);
       return users.length > 0 ? users[0] : null;
@@ -487,6 +1007,25 @@ export class CoreClient extends BaseClient {
     }
   }
 
+  /**
+   * Every system and custom field on the site
+   */
+  async getFields(): Promise<JiraField[]> {
+    return this.meta().fetch('fields', () => this.request<JiraField[]>('rest/api/3/field'));
+  }
+
+  /**
+   * Metadata cached on disk for the site, or for one project
+   */
+  private meta(projectKey = ''): MetaCache {
+    if (!this.metaCaches.has(projectKey)) {
+      // Create screens and issue types depend on the user's permissions, so each account has its own
+      const user = this.config.email || this.config.profile || '_anonymous';
+      this.metaCaches.set(projectKey, new MetaCache(this.config.host, user, projectKey || undefined));
+    }
+    return this.metaCaches.get(projectKey)!;
+  }
+
   /**
    * Get create metadata for a project
    */
@@ -495,13 +1034,89 @@ export class CoreClient extends BaseClient {
     params.append('projectKeys', projectKey);
     params.append('expand', 'projects.issuetypes.fields');
     
-    return this.request<JiraCreateMeta>(`rest/api/3/issue/createmeta?${params.toString()}`);
+    return this.meta(projectKey).fetch('createmeta', () => this.request<JiraCreateMeta>(`rest/api/3/issue/createmeta?${params.toString()}`));
+  }
+
+  /**
+   * Fields on the create screen of an issue type, with schemas and allowed values
+   */
+  async getCreateFields(projectKey: string, issueTypeName: string): Promise<FieldMeta[]> {
+    const cacheKey = `${projectKey}/${issueTypeName.toLowerCase()}`;
+    if (!this.createFields.has(cacheKey)) {
+      const fields = this.meta(projectKey).fetch(`createFields/${issueTypeName.toLowerCase()}`, () => this.fetchCreateFields(projectKey, issueTypeName));
+      // Don't keep failures around
+      fields.catch(() => this.createFields.delete(cacheKey));
+      this.createFields.set(cacheKey, fields);
+    }
+    return this.createFields.get(cacheKey)!;
+  }
+
+  private async fetchCreateFields(projectKey: string, issueTypeName: string): Promise<FieldMeta[]> {
+    const notFound = () => new Error(`Issue type "${issueTypeName}" not found in project ${projectKey}`);
+
+    try {
+      // Per issue type endpoints (Cloud, Data Center 8.4+); responses use "issueTypes"/"fields" or "values"
+      const types = await this.request<{ issueTypes?: JiraIssueType[]; values?: JiraIssueType[] }>(
+        `rest/api/3/issue/createmeta/${projectKey}/issuetypes?maxResults=200`
+      );
+      const issueType = (types.issueTypes || types.values || [])
+        .find(type => type.name?.toLowerCase() === issueTypeName.toLowerCase());
+      if (!issueType) {
+        throw notFound();
+      }
+      const meta = await this.request<{ fields?: FieldMeta[]; values?: FieldMeta[] }>(
+        `rest/api/3/issue/createmeta/${projectKey}/issuetypes/${issueType.id}?maxResults=200`
+      );
+      return meta.fields || meta.values || [];
+    } catch (error) {
+      if ((error as RequestFailure).response?.statusCode !== 404) {
+        throw error;
+      }
+    }
+
+    // Older instances only have the expanded createmeta
+    const meta = await this.getCreateMeta(projectKey);
+    const issueType = meta.projects?.[0]?.issuetypes
+      ?.find(type => type.name.toLowerCase() === issueTypeName.toLowerCase());
+    if (!issueType) {
+      throw notFound();
+    }
+    return Object.entries(issueType.fields || {}).map(([fieldId, field]) => ({ ...field, fieldId }));
+  }
+
+  /**
+   * Fields that can be changed on an issue, with schemas and allowed values
+   */
+  async getEditFields(issueKey: string): Promise<FieldMeta[]> {
+    const meta = await this.request<{ fields?: Record<string, Omit<FieldMeta, 'fieldId'>> }>(`rest/api/3/issue/${issueKey}/editmeta`);
+    return Object.entries(meta?.fields || {}).map(([fieldId, field]) => ({ ...field, fieldId }));
+  }
+
+  /**
+   * Resolve `--field` style values against an issue's edit screen, as updateIssue sends them
+   */
+  async resolveEditFields(issueKey: string, values: Record<string, string>): Promise<Record<string, unknown>> {
+    return this.resolveFields(values, await this.getEditFields(issueKey), issueKey);
+  }
+
+  private resolveFields(values: Record<string, string>, fields: FieldMeta[], screen: string): Promise<Record<string, unknown>> {
+    return FieldValues.resolve(this.fieldAliases.expand(values), fields, {
+      findUser: async (query) => {
+        const user = await this.findUser(query);
+        return user ? this.userReference(user) : null;
+      },
+      toRichText: (text) => this.toRichText(text),
+    }, screen);
   }
 
   /**
    * Get available issue types for a project
    */
-  async getProjectIssueTypes(projectKey: string): Promise<any[]> {
+  async getProjectIssueTypes(projectKey: string): Promise<JiraIssueType[]> {
+    return this.meta(projectKey).fetch('issueTypes', () => this.fetchProjectIssueTypes(projectKey));
+  }
+
+  private async fetchProjectIssueTypes(projectKey: string): Promise<JiraIssueType[]> {
     try {
       // First try the create metadata endpoint
       const params = new URLSearchParams();
@@ -542,6 +1157,34 @@ export class CoreClient extends BaseClient {
     });
   }
 
+  /**
+   * Direct children of an issue: sub-tasks and child issues through `parent`,
+   * plus, for epics, issues attached through the Epic Link field on instances
+   * that still have one
+   */
+  async getChildren(issueKey: string, fields: string[], isEpic = false): Promise<JiraIssue[]> {
+    const search = async (jql: string) => {
+      const children: JiraIssue[] = [];
+      for await (const issue of this.searchAll({ jql: `${jql} ORDER BY key ASC`, fields })) {
+        children.push(issue);
+      }
+      return children;
+    };
+
+    if (isEpic) {
+      try {
+        return await search(`parent = ${issueKey} OR "Epic Link" = ${issueKey}`);
+      } catch (error) {
+        // No Epic Link field on this instance; parent alone covers it
+        if ((error as RequestFailure).response?.statusCode !== 400) {
+          throw error;
+        }
+        Logger.debug(`Epic Link search failed for ${issueKey}, using parent only`);
+      }
+    }
+    return search(`parent = ${issueKey}`);
+  }
+
   /**
    * Convert an issue to a sub-task of a parent issue
    * This tries multiple approaches as different Jira configurations support different methods
@@ -722,16 +1365,55 @@ export class CoreClient extends BaseClient {
     }
   }
 
+  /**
+   * Plan the transitions that take an issue to a status, through intermediate
+   * statuses if the workflow has no direct transition. Transitions out of other
+   * statuses are read from an issue of the same project and type that is in
+   * that status now.
+   * @param transitions The issue's available transitions, if already fetched
+   */
+  async planTransitions(
+    issue: JiraIssue,
+    targetStatus: string,
+    maxSteps: number,
+    transitions?: JiraTransition[]
+  ): Promise<TransitionPlan> {
+    transitions = transitions ?? await this.getTransitions(issue.key);
+    const project = issue.fields.project?.id;
+    const issueType = issue.fields.issuetype?.id;
+
+    return WorkflowPath.find(issue.fields.status?.name || '', transitions, targetStatus, async (status) => {
+      if (!project || !issueType) {
+        return null;
+      }
+      const sample = await this.searchIssues({
+        jql: `project = ${project} AND issuetype = ${issueType} AND status = ${status.id} AND key != ${issue.key}`,
+        maxResults: 1,
+        fields: ['status'],
+      });
+      return sample.issues[0] ? this.getTransitions(sample.issues[0].key) : null;
+    }, maxSteps);
+  }
+
   /**
    * Find the correct story points custom field for this instance
    */
   private async getStoryPointsField(issueKey: string): Promise<string | null> {
+    const alias = this.fieldAliases.get('storyPoints');
+    if (alias) {
+      return alias;
+    }
+    // Projects can put different fields on their screens, so the answer is per project
+    return this.meta(projectOf(issueKey)).fetch('storyPointsField', () => this.probeStoryPointsField(issueKey));
+  }
+
+  private async probeStoryPointsField(issueKey: string): Promise<string | null> {
     try {
       // Get the issue to examine its fields
       const issue = await this.getIssue(issueKey);
       
       // Check which field exists and has numeric content
-      for (const field of STORY_POINT_FIELDS) {
+      for (const field of this.fieldAliases.storyPointFields()) {
         if (issue.fields[field] !== undefined) {
           return field;
         }
@@ -764,6 +1446,15 @@ export class CoreClient extends BaseClient {
    * In newer Jira instances, Epic Links often use the standard 'parent' field
    */
   private async getEpicLinkField(issueKey?: string): Promise<string | null> {
+    const alias = this.fieldAliases.get('epicLink');
+    if (alias) {
+      return alias;
+    }
+    const projectKey = issueKey ? projectOf(issueKey) : this.config.project;
+    return this.meta(projectKey).fetch('epicLinkField', () => this.probeEpicLinkField(projectKey, issueKey));
+  }
+
+  private async probeEpicLinkField(projectKey: string, issueKey?: string): Promise<string | null> {
     try {
       // Check if we can use the standard parent field for Epic Links
       if (issueKey) {
@@ -801,7 +1492,7 @@ export class CoreClient extends BaseClient {
 
       // Try to get field metadata from create meta
       try {
-        const meta = await this.request<any>(`rest/api/3/issue/createmeta?projectKeys=${this.config.project}&expand=projects.issuetypes.fields`);
+        const meta = await this.request<JiraCreateMeta>(`rest/api/3/issue/createmeta?projectKeys=${projectKey}&expand=projects.issuetypes.fields`);
         const project = meta?.projects?.[0];
         const issueTypes = project?.issuetypes || [];
         
@@ -847,8 +1538,12 @@ export class CoreClient extends BaseClient {
    */
   async getIssueLinkTypes(): Promise<any> {
     try {
-      const response = await this.request<any>('rest/api/3/issueLinkType');
-      return response.issueLinkTypes || [];
+      return await this.meta().fetch('linkTypes', async () => {
+        const response = await this.request<{ issueLinkTypes?: Array<{ id: string; name: string; inward: string; outward: string }> }>(
+          'rest/api/3/issueLinkType'
+        );
+        return response.issueLinkTypes || [];
+      });
     } catch (error) {
       throw new Error(`Failed to fetch issue link types: ${error}`);
     }
@@ -0,0 +1,137 @@
+import got from 'got';
+import { createServer } from 'http';
+import { randomBytes } from 'crypto';
+
+export const OAUTH_AUTHORIZE_URL = 'https://auth.atlassian.com/authorize';
+export const OAUTH_TOKEN_URL = 'https://auth.atlassian.com/oauth/token';
+export const OAUTH_API_BASE = 'https://api.atlassian.com';
+export const OAUTH_SCOPES = ['read:jira-work', 'write:jira-work', 'read:jira-user', 'offline_access'];
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+export interface AccessibleResource {
+  id: string;
+  url: string;
+  name: string;
+  scopes: string[];
+}
+
+/**
+ * Atlassian OAuth 2.0 authorization code (3LO) flow
+ */
+export class OAuthFlow {
+  static createState(): string {
+    return randomBytes(16).toString('hex');
+  }
+
+  static redirectUri(port: number): string {
+    return `http://localhost:${port}/callback`;
+  }
+
+  static authorizeUrl(clientId: string, redirectUri: string, state: string): string {
+    const params = new URLSearchParams({
+      audience: 'api.atlassian.com',
+      client_id: clientId,
+      scope: OAUTH_SCOPES.join(' '),
+      redirect_uri: redirectUri,
+      state,
+      response_type: 'code',
+      prompt: 'consent',
+    });
+    return `${OAUTH_AUTHORIZE_URL}?${params.toString()}`;
+  }
+
+  /**
+   * Listen on localhost for the redirect back from Atlassian and return the authorization code
+   */
+  static waitForCallback(port: number, state: string, timeoutMs = 5 * 60_000): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((req, res) => {
+        const url = new URL(req.url || '/', `http://localhost:${port}`);
+        if (url.pathname !== '/callback') {
+          res.writeHead(404).end();
+          return;
+        }
+
+        const error = url.searchParams.get('error');
+        const code = url.searchParams.get('code');
+        const ok = !error && code && url.searchParams.get('state') === state;
+
+        res.writeHead(ok ? 200 : 400, { 'Content-Type': 'text/plain' });
+        res.end(ok ? 'Authorized. You can close this window and return to the terminal.' : 'Authorization failed. Check the terminal for details.');
+
+        clearTimeout(timer);
+        server.close();
+        if (error) {
+          reject(new Error(`Authorization was denied: ${url.searchParams.get('error_description') || error}`));
+        } else if (!ok) {
+          reject(new Error('Authorization callback did not match this request (state mismatch or missing code)'));
+        } else {
+          resolve(code!);
+        }
+      });
+
+      const timer = setTimeout(() => {
+        server.close();
+        reject(new Error('Timed out waiting for the OAuth authorization callback'));
+      }, timeoutMs);
+
+      server.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new Error(`Could not listen on port ${port} for the OAuth callback: ${error.message}`));
+      });
+      server.listen(port, '127.0.0.1');
+    });
+  }
+
+  static async exchangeCode(clientId: string, clientSecret: string, code: string, redirectUri: string): Promise<OAuthTokens> {
+    return this.requestTokens({
+      grant_type: 'authorization_code',
+      client_id: clientId,
+      client_secret: clientSecret,
+      code,
+      redirect_uri: redirectUri,
+    });
+  }
+
+  /**
+   * Exchange a refresh token for a new access token. Atlassian rotates refresh
+   * tokens, so the returned refresh token replaces the old one.
+   */
+  static async refresh(clientId: string, clientSecret: string, refreshToken: string): Promise<OAuthTokens> {
+    const tokens = await this.requestTokens({
+      grant_type: 'refresh_token',
+      client_id: clientId,
+      client_secret: clientSecret,
+      refresh_token: refreshToken,
+    });
+    return { ...tokens, refreshToken: tokens.refreshToken || refreshToken };
+  }
+
+  /**
+   * Sites the access token can reach; the site ID is the cloud ID used in API URLs
+   */
+  static async getAccessibleResources(accessToken: string): Promise<AccessibleResource[]> {
+    return got(`${OAUTH_API_BASE}/oauth/token/accessible-resources`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      timeout: { request: 30_000 },
+    }).json<AccessibleResource[]>();
+  }
+
+  private static async requestTokens(body: Record<string, string>): Promise<OAuthTokens> {
+    const response = await got.post(OAUTH_TOKEN_URL, {
+      json: body,
+      timeout: { request: 30_000 },
+    }).json<{ access_token: string; refresh_token?: string; expires_in: number }>();
+
+    return {
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token || '',
+      expiresAt: Date.now() + response.expires_in * 1000,
+    };
+  }
+}
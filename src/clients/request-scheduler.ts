@@ -0,0 +1,203 @@
+import { RateLimitConfig } from '../config/jira.js';
+import { Logger } from '../utils/logger.js';
+
+export const DEFAULT_RATE_LIMIT: Required<RateLimitConfig> = {
+  concurrency: 4,
+  requestsPerSecond: 10,
+  burst: 10,
+  maxRetries: 4,
+};
+
+const RETRY_STATUS_CODES = [408, 500, 502, 503, 504];
+const RETRY_ERROR_CODES = ['ETIMEDOUT', 'ECONNRESET', 'EADDRINUSE', 'ECONNREFUSED', 'EPIPE', 'ENOTFOUND', 'ENETUNREACH', 'EAI_AGAIN'];
+const MAX_BACKOFF_MS = 30_000;
+
+type Headers = Record<string, string | string[] | undefined>;
+
+// What the retry logic reads from a failed got request
+interface FailedRequest {
+  code?: string;
+  response?: { statusCode: number; headers: Headers };
+}
+
+/**
+ * Shared gate for all requests to one Jira site. Limits concurrency, spaces
+ * requests with a token bucket, pauses everyone when Jira signals a rate limit
+ * (429 + Retry-After, or X-RateLimit-Remaining: 0) and retries failures.
+ *
+ * A 429 means Jira did not process the request, so it is retried for any
+ * method; other failures are only retried for idempotent requests.
+ */
+export class RequestScheduler {
+  private static readonly shared = new Map<string, RequestScheduler>();
+
+  private readonly options: Required<RateLimitConfig>;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(options: RateLimitConfig = {}) {
+    this.options = { ...DEFAULT_RATE_LIMIT, ...RequestScheduler.defined(options) };
+    const { concurrency, requestsPerSecond, burst } = this.options;
+    if (!(concurrency >= 1) || !(requestsPerSecond > 0) || !(burst >= 1)) {
+      throw new Error(`Invalid rate limit settings (concurrency ${concurrency}, requestsPerSecond ${requestsPerSecond}, burst ${burst}); all must be positive numbers`);
+    }
+    this.tokens = this.options.burst;
+  }
+
+  /**
+   * One scheduler per site, so every client talking to it shares the limits.
+   * Options only apply when the scheduler is first created.
+   */
+  static forSite(baseUrl: string, options?: RateLimitConfig): RequestScheduler {
+    let scheduler = RequestScheduler.shared.get(baseUrl);
+    if (!scheduler) {
+      scheduler = new RequestScheduler(options);
+      RequestScheduler.shared.set(baseUrl, scheduler);
+    }
+    return scheduler;
+  }
+
+  get concurrency(): number {
+    return this.options.concurrency;
+  }
+
+  async schedule<T>(task: () => Promise<T>, idempotent: boolean): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let delay: number | undefined;
+      await this.acquire();
+      try {
+        return await task();
+      } catch (error) {
+        delay = this.retryDelay(error as FailedRequest, attempt, idempotent);
+        if (delay === undefined) {
+          throw error;
+        }
+      } finally {
+        this.release();
+      }
+      await this.sleep(delay);
+    }
+  }
+
+  /**
+   * Look at the rate limit headers of every response; when the quota is used
+   * up, hold all requests until it resets
+   */
+  observe(headers: Headers): void {
+    if (RequestScheduler.header(headers, 'x-ratelimit-remaining') !== '0') {
+      return;
+    }
+    const reset = RequestScheduler.parseReset(RequestScheduler.header(headers, 'x-ratelimit-reset'));
+    if (reset !== undefined) {
+      this.pause(reset);
+    }
+  }
+
+  private retryDelay(error: FailedRequest, attempt: number, idempotent: boolean): number | undefined {
+    if (attempt >= this.options.maxRetries) {
+      return undefined;
+    }
+
+    const status = error.response?.statusCode;
+    const headers = error.response?.headers ?? {};
+    const backoff = Math.min(1000 * 2 ** attempt, MAX_BACKOFF_MS) * (0.5 + Math.random() / 2);
+
+    if (status === 429 || (status === 503 && headers['retry-after'])) {
+      const wait = RequestScheduler.parseRetryAfter(RequestScheduler.header(headers, 'retry-after'))
+        ?? RequestScheduler.parseReset(RequestScheduler.header(headers, 'x-ratelimit-reset'))
+        ?? backoff;
+      Logger.warning(`Rate limited by Jira, retrying in ${Math.ceil(wait / 1000)}s (attempt ${attempt + 1}/${this.options.maxRetries})`);
+      // Everyone waits, not just this request
+      this.pause(wait);
+      return 0;
+    }
+
+    if (!idempotent) {
+      return undefined;
+    }
+    if ((status && RETRY_STATUS_CODES.includes(status)) || (!status && error.code && RETRY_ERROR_CODES.includes(error.code))) {
+      Logger.debug(`Request failed (${status || error.code}), retrying in ${Math.round(backoff)}ms`);
+      return backoff;
+    }
+    return undefined;
+  }
+
+  private pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async acquire(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await this.sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      if (this.active >= this.options.concurrency) {
+        await new Promise<void>(resolve => this.waiting.push(resolve));
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        this.active++;
+        return;
+      }
+      await this.sleep(((1 - this.tokens) / this.options.requestsPerSecond) * 1000);
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  private refill(now: number): void {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.burst, this.tokens + elapsed * this.options.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+  }
+
+  private static header(headers: Headers, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  /**
+   * Retry-After is either seconds or an HTTP date
+   */
+  static parseRetryAfter(value: string | undefined): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (/^\d+(\.\d+)?$/.test(value.trim())) {
+      return parseFloat(value) * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * X-RateLimit-Reset is an ISO timestamp on Jira Cloud; epoch seconds elsewhere
+   */
+  static parseReset(value: string | undefined): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const date = /^\d+$/.test(value.trim()) ? parseInt(value, 10) * 1000 : Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private static defined(options: RateLimitConfig): RateLimitConfig {
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  }
+}
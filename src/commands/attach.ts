@@ -0,0 +1,137 @@
+import { Command } from 'commander';
+import { mkdirSync, writeFileSync } from 'fs';
+import { basename, resolve } from 'path';
+import { ConfigManager } from '../config/jira.js';
+import { CoreClient } from '../clients/core.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { Formatter } from '../utils/formatter.js';
+import { JiraAttachment } from '../types/jira.js';
+
+export function createAttachCommand(): Command {
+  // Options after a subcommand name belong to the subcommand, not to "attach" itself
+  const attach = new Command('attach')
+    .enablePositionalOptions()
+    .description('Upload files to an issue (e.g. test logs and screenshots), or list and download its attachments')
+    .argument('<issueKey>', 'Issue key to attach files to (e.g., PROJ-123)')
+    .argument('<files...>', 'Files to upload')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKey: string, files: string[], options) => {
+      try {
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+
+        Logger.startSpinner(`Uploading ${files.length} file${files.length !== 1 ? 's' : ''} to ${issueKey}...`);
+        const attachments = await client.addAttachments(issueKey, files);
+        Logger.stopSpinner(true, `Attached ${attachments.map(a => a.filename).join(', ')} to ${issueKey}`);
+
+        ErrorHandler.success({
+          issueKey,
+          attachments: Formatter.formatAttachmentsJson(attachments),
+        });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  attach.command('list')
+    .alias('ls')
+    .description('List attachments on an issue')
+    .argument('<issueKey>', 'Issue key (e.g., PROJ-123)')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKey: string, options) => {
+      try {
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+
+        Logger.startSpinner(`Fetching attachments for ${issueKey}...`);
+        const attachments = await client.getAttachments(issueKey);
+        Logger.stopSpinner(true);
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success({
+            issueKey,
+            attachments: Formatter.formatAttachmentsJson(attachments),
+          });
+          return;
+        }
+
+        console.log(Formatter.formatAttachments(attachments));
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  attach.command('get')
+    .description('Download an attachment by filename or ID')
+    .argument('<issueKey>', 'Issue key (e.g., PROJ-123)')
+    .argument('<attachment>', 'Attachment filename or ID')
+    .option('-o, --out <dir>', 'Directory to save into', '.')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKey: string, nameOrId: string, options) => {
+      try {
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+
+        Logger.startSpinner(`Fetching attachments for ${issueKey}...`);
+        const attachments = await client.getAttachments(issueKey);
+        const attachment = findAttachment(attachments, nameOrId);
+        if (!attachment) {
+          Logger.stopSpinner(false);
+          const names = attachments.map(a => `"${a.filename}" (${a.id})`).join(', ') || 'none';
+          throw new Error(`Attachment "${nameOrId}" not found on ${issueKey}. Available attachments: ${names}`);
+        }
+
+        Logger.stopSpinner(true);
+
+        Logger.startSpinner(`Downloading ${attachment.filename}...`);
+        const content = await client.downloadAttachment(attachment.id);
+
+        mkdirSync(options.out, { recursive: true });
+        // basename() guards against path separators in uploaded filenames
+        const path = resolve(options.out, basename(attachment.filename));
+        writeFileSync(path, content);
+        Logger.stopSpinner(true, `Saved ${attachment.filename} to ${path}`);
+
+        ErrorHandler.success({
+          issueKey,
+          attachment: Formatter.formatAttachmentsJson([attachment])[0],
+          path,
+          bytes: content.length,
+        });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  return attach;
+}
+
+/**
+ * Match by ID first, then by filename. Jira allows duplicate filenames, so the newest upload wins.
+ */
+function findAttachment(attachments: JiraAttachment[], nameOrId: string): JiraAttachment | undefined {
+  const byId = attachments.find(a => a.id === nameOrId);
+  if (byId) {
+    return byId;
+  }
+
+  return attachments
+    .filter(a => a.filename.toLowerCase() === nameOrId.toLowerCase())
+    .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime())[0];
+}
@@ -1,7 +1,10 @@
 import { Command } from 'commander';
 import inquirer from 'inquirer';
-import { ConfigManager, GlobalConfig } from '../config/config-manager.js';
+import { ConfigManager, GlobalConfig, AuthType, DEFAULT_PROFILE } from '../config/config-manager.js';
+import { TokenStore } from '../config/token-store.js';
 import { CoreClient } from '../clients/core.js';
+import { OAuthFlow, AccessibleResource } from '../clients/oauth.js';
+import { SiteUrl } from '../utils/site-url.js';
 import { Logger } from '../utils/logger.js';
 import { ErrorHandler, EXIT_CODES } from '../utils/error-handler.js';
 
@@ -11,41 +14,45 @@ export function createAuthCommand(): Command {
 
   auth
     .command('set')
-    .description('Set or update global Jira credentials')
-    .action(async () => {
+    .description('Set or update global Jira credentials: API token (Cloud), personal access token (Data Center/Server), or OAuth 2.0. Use --profile <name> to store them as a separate named profile.')
+    .option('--type <method>', 'Auth method: basic, pat, or oauth (prompts when omitted)')
+    .action(async (options) => {
       try {
         const configManager = new ConfigManager();
         const currentConfig = configManager.getPartialConfig();
 
-        const answers = await inquirer.prompt([
-          {
-            type: 'input',
-            name: 'host',
-            message: 'Jira host (e.g., yourcompany.atlassian.net):',
-            default: currentConfig.host,
-            validate: (input) => input.length > 0 || 'Host is required',
-          },
-          {
-            type: 'input',
-            name: 'email',
-            message: 'Email address:',
-            default: currentConfig.email,
-            validate: (input) => input.includes('@') || 'Valid email is required',
-          },
-          {
-            type: 'password',
-            name: 'apiToken',
-            message: 'API token (not password):',
-            validate: (input) => input.length > 0 || 'API token is required',
-          },
-        ]);
-
-        // Save global configuration
-        const globalConfig: GlobalConfig = {
-          host: answers.host,
-          email: answers.email,
-          apiToken: answers.apiToken,
-        };
+        let method: AuthType = options.type;
+        if (!method) {
+          const answer = await inquirer.prompt([
+            {
+              type: 'list',
+              name: 'method',
+              message: 'Authentication method:',
+              default: currentConfig.authType || 'basic',
+              choices: [
+                { name: 'API token (Jira Cloud)', value: 'basic' },
+                { name: 'Personal access token (Jira Data Center / Server)', value: 'pat' },
+                { name: 'OAuth 2.0 (Jira Cloud, 3LO app)', value: 'oauth' },
+              ],
+            },
+          ]);
+          method = answer.method;
+        }
+
+        let globalConfig: GlobalConfig;
+        switch (method) {
+          case 'basic':
+            globalConfig = await promptBasic(currentConfig);
+            break;
+          case 'pat':
+            globalConfig = await promptPat(currentConfig);
+            break;
+          case 'oauth':
+            globalConfig = await signInWithOAuth(currentConfig, configManager.profile);
+            break;
+          default:
+            throw new Error(`Unknown auth method "${method}". Use basic, pat, or oauth.`);
+        }
 
         Logger.startSpinner('Storing credentials securely...');
         await configManager.saveGlobalConfig(globalConfig);
@@ -54,9 +61,8 @@ export function createAuthCommand(): Command {
         // Test connection
         Logger.startSpinner('Testing connection...');
         const client = new CoreClient({
-          host: answers.host,
-          email: answers.email,
-          apiToken: answers.apiToken,
+          ...globalConfig,
+          profile: configManager.profile,
           project: 'TEST', // Dummy project for connection test
         });
 
@@ -64,8 +70,9 @@ export function createAuthCommand(): Command {
         Logger.stopSpinner(true, `Connected as ${user.displayName}`);
 
         Logger.success('✅ Global authentication configured successfully!');
-        Logger.info('\nCredentials saved to ~/.jirarc.json (host & email only)');
-        Logger.info('API token stored securely in system keychain');
+        const target = configManager.profile === DEFAULT_PROFILE ? '~/.jirarc.json' : `profile "${configManager.profile}" in ~/.jirarc.json`;
+        Logger.info(`\nSettings saved to ${target} (${method === 'basic' ? 'host & email' : 'host & auth method'} only)`);
+        Logger.info(method === 'oauth' ? 'OAuth tokens stored securely in system keychain' : 'Token stored securely in system keychain');
         Logger.info('\n💡 Next step: Run "jira init" in your project directory to configure project-specific settings');
 
       } catch (error) {
@@ -118,6 +125,7 @@ export function createAuthCommand(): Command {
             },
             project: config.project || null,
             host: config.host,
+            profile: configManager.profile,
           });
         }
       } catch (error) {
@@ -132,8 +140,9 @@ export function createAuthCommand(): Command {
       try {
         const configManager = new ConfigManager();
         const config = configManager.getPartialConfig();
+        const account = config.authType === 'oauth' ? config.oauth?.clientId : ConfigManager.tokenAccount(config);
         
-        if (!config.email) {
+        if (!account) {
           Logger.warning('No credentials to clear');
           return;
         }
@@ -146,7 +155,7 @@ export function createAuthCommand(): Command {
             {
               type: 'confirm',
               name: 'confirm',
-              message: `Clear credentials for ${config.email}?`,
+              message: `Clear credentials for ${config.authType === 'oauth' ? `OAuth client ${account}` : account}?`,
               default: false,
             },
           ]);
@@ -156,7 +165,11 @@ export function createAuthCommand(): Command {
         }
 
         if (shouldClear) {
-          await configManager.deleteToken(config.email);
+          if (config.authType === 'oauth') {
+            await TokenStore.clear(account, configManager.profile);
+          } else {
+            await configManager.deleteToken(account);
+          }
           Logger.success('Credentials cleared from keychain');
           Logger.info('Note: You may need to manually remove ~/.jirarc.json');
         }
@@ -178,9 +191,18 @@ export function createAuthCommand(): Command {
         
         Logger.info('Global Configuration:');
         Logger.info(`  Config file: ${sources.global}`);
+        Logger.info(`  Profile: ${configManager.profile}${process.env.JIRA_PROFILE ? ' (JIRA_PROFILE)' : ''}`);
         Logger.info(`  Host: ${config.host || 'Not configured'}`);
-        Logger.info(`  Email: ${config.email || 'Not configured'}`);
-        Logger.info(`  API Token: ${config.apiToken ? '***' : 'Not configured'}`);
+        Logger.info(`  Auth method: ${config.authType || 'basic'}`);
+        if (config.authType === 'oauth') {
+          Logger.info(`  OAuth client: ${config.oauth?.clientId || 'Not configured'}`);
+          Logger.info(`  Cloud ID: ${config.oauth?.cloudId || 'Not configured'}`);
+        } else {
+          if (config.authType !== 'pat') {
+            Logger.info(`  Email: ${config.email || 'Not configured'}`);
+          }
+          Logger.info(`  ${config.authType === 'pat' ? 'Access Token' : 'API Token'}: ${config.apiToken ? '***' : 'Not configured'}`);
+        }
         
         if (sources.project) {
           Logger.info('\nProject Configuration:');
@@ -220,5 +242,184 @@ export function createAuthCommand(): Command {
       }
     });
 
+  auth
+    .command('profiles')
+    .description('List the named connection profiles in ~/.jirarc.json')
+    .action(async () => {
+      try {
+        const configManager = new ConfigManager();
+        const profiles = configManager.listProfiles().map(name => {
+          const config = new ConfigManager(name).getPartialConfig();
+          return {
+            name,
+            host: config.host || null,
+            authType: config.authType || 'basic',
+            active: name === configManager.profile,
+          };
+        });
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success({ profiles, active: configManager.profile });
+          return;
+        }
+
+        if (profiles.length === 0) {
+          Logger.info('No profiles configured. Run "jira auth set" (optionally with --profile <name>) to add one.');
+          return;
+        }
+
+        profiles.forEach(p => {
+          Logger.info(`${p.active ? '*' : ' '} ${p.name.padEnd(16)} ${p.host || 'no host'} (${p.authType})`);
+        });
+        Logger.info('\nSwitch with --profile <name> or JIRA_PROFILE=<name>');
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
   return auth;
-}
\ No newline at end of file
+}
+
+async function promptBasic(current: Partial<GlobalConfig>): Promise<GlobalConfig> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'host',
+      message: 'Jira host (e.g., yourcompany.atlassian.net):',
+      default: current.host,
+      validate: (input) => input.length > 0 || 'Host is required',
+    },
+    {
+      type: 'input',
+      name: 'email',
+      message: 'Email address:',
+      default: current.email,
+      validate: (input) => input.includes('@') || 'Valid email is required',
+    },
+    {
+      type: 'password',
+      name: 'apiToken',
+      message: 'API token (not password):',
+      validate: (input) => input.length > 0 || 'API token is required',
+    },
+  ]);
+
+  return {
+    host: answers.host,
+    email: answers.email,
+    apiToken: answers.apiToken,
+    authType: 'basic',
+  };
+}
+
+async function promptPat(current: Partial<GlobalConfig>): Promise<GlobalConfig> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'host',
+      message: 'Jira URL (e.g., https://jira.example.com):',
+      default: current.host,
+      validate: (input) => input.length > 0 || 'URL is required',
+    },
+    {
+      type: 'password',
+      name: 'apiToken',
+      message: 'Personal access token (Profile > Personal Access Tokens):',
+      validate: (input) => input.length > 0 || 'Token is required',
+    },
+  ]);
+
+  return {
+    host: answers.host,
+    email: current.email || '',
+    apiToken: answers.apiToken,
+    authType: 'pat',
+  };
+}
+
+/**
+ * Run the OAuth 2.0 authorization code flow against a localhost callback and
+ * store the resulting tokens in the keychain
+ */
+async function signInWithOAuth(current: Partial<GlobalConfig>, profile: string): Promise<GlobalConfig> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'host',
+      message: 'Jira site (e.g., yourcompany.atlassian.net):',
+      default: current.host,
+      validate: (input) => input.length > 0 || 'Site is required',
+    },
+    {
+      type: 'input',
+      name: 'clientId',
+      message: 'OAuth client ID (developer.atlassian.com > your app > Settings):',
+      default: current.oauth?.clientId,
+      validate: (input) => input.length > 0 || 'Client ID is required',
+    },
+    {
+      type: 'password',
+      name: 'clientSecret',
+      message: 'OAuth client secret:',
+      validate: (input) => input.length > 0 || 'Client secret is required',
+    },
+    {
+      type: 'number',
+      name: 'port',
+      message: 'Local callback port (the app\'s callback URL must be http://localhost:<port>/callback):',
+      default: 8976,
+    },
+  ]);
+
+  const redirectUri = OAuthFlow.redirectUri(answers.port);
+  const state = OAuthFlow.createState();
+
+  Logger.info('\nOpen this URL in your browser to authorize the CLI:\n');
+  console.log(OAuthFlow.authorizeUrl(answers.clientId, redirectUri, state));
+  Logger.info('');
+
+  Logger.startSpinner(`Waiting for authorization on ${redirectUri}...`);
+  const code = await OAuthFlow.waitForCallback(answers.port, state);
+  const tokens = await OAuthFlow.exchangeCode(answers.clientId, answers.clientSecret, code, redirectUri);
+  const resources = await OAuthFlow.getAccessibleResources(tokens.accessToken);
+  Logger.stopSpinner(true, 'Authorized');
+
+  const site = await chooseSite(resources, answers.host);
+
+  await TokenStore.save(answers.clientId, { clientSecret: answers.clientSecret, ...tokens }, profile);
+
+  return {
+    host: site.url,
+    email: current.email || '',
+    authType: 'oauth',
+    oauth: {
+      clientId: answers.clientId,
+      cloudId: site.id,
+    },
+  };
+}
+
+async function chooseSite(resources: AccessibleResource[], host: string): Promise<AccessibleResource> {
+  if (resources.length === 0) {
+    throw new Error('The authorization grants access to no Jira sites. Check the app\'s permissions and try again.');
+  }
+
+  const match = resources.find(r => SiteUrl.base(r.url) === SiteUrl.base(host));
+  if (match) {
+    return match;
+  }
+  if (resources.length === 1) {
+    Logger.warning(`${host} is not among the authorized sites; using ${resources[0].url}`);
+    return resources[0];
+  }
+
+  const { site } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'site',
+      message: 'Which Jira site?',
+      choices: resources.map(r => ({ name: `${r.name} (${r.url})`, value: r })),
+    },
+  ]);
+  return site;
+}
@@ -0,0 +1,427 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import Table from 'cli-table3';
+import { ConfigManager } from '../config/jira.js';
+import { CoreClient, UpdateIssueOptions } from '../clients/core.js';
+import { JiraIssue } from '../types/jira.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { BatchJournal } from '../utils/batch-journal.js';
+import { FieldValues } from '../utils/field-values.js';
+
+type Outcome = 'updated' | 'transitioned' | 'deleted' | 'skipped' | 'failed';
+
+export interface JqlBatchResult {
+  key: string;
+  summary: string;
+  outcome: Outcome;
+  detail?: string;
+  error?: string;
+}
+
+/**
+ * One bulk operation over the issues a JQL query matches
+ */
+export interface JqlBatchOperation {
+  name: 'update' | 'transition' | 'delete';
+  // Shown per issue in the preview
+  describe(issue: JiraIssue): string;
+  // Change one issue, or explain why it was left alone
+  apply(client: CoreClient, issue: JiraIssue): Promise<{ outcome: Outcome; detail?: string }>;
+}
+
+// The options withJqlOptions adds
+interface JqlOptions {
+  jql?: string;
+  // Has a default
+  max: string;
+  dryRun?: boolean;
+  journal?: string;
+  resume?: string;
+  project?: string;
+  board?: string;
+}
+
+const SEARCH_FIELDS = ['summary', 'status', 'assignee', 'labels', 'issuetype'];
+
+const DONE: Record<JqlBatchOperation['name'], Outcome> = {
+  update: 'updated',
+  transition: 'transitioned',
+  delete: 'deleted',
+};
+
+export function createBatchUpdateCommand(): Command {
+  return withJqlOptions(new Command('update'))
+    .description('Update every issue matching a JQL query: labels, assignee, priority, story points, or a comment')
+    .option('-l, --labels <operation>', 'Change labels (add:a,b or remove:a,b or set:a,b)')
+    .option('-a, --assignee <assignee>', 'New assignee (email or username, or "unassigned")')
+    .option('-p, --priority <priority>', 'New priority')
+    .option('--story-points <number>', 'Set story points (numeric value)')
+    .option('--field <name=value>', 'Set any field by name or ID, e.g. --field "Team=Platform" (repeatable)', FieldValues.collect)
+    .option('--comment <comment>', 'Add a comment to each issue')
+    .action(async (options) => {
+      try {
+        const update: UpdateIssueOptions = {};
+        const changes: string[] = [];
+
+        const labels = options.labels ? parseLabels(options.labels) : undefined;
+        if (labels) {
+          changes.push(`labels ${options.labels}`);
+        }
+        if (options.assignee) {
+          update.assignee = options.assignee === 'unassigned' ? null : options.assignee;
+          changes.push(`assignee → ${options.assignee}`);
+        }
+        if (options.priority) {
+          update.priority = options.priority;
+          changes.push(`priority → ${options.priority}`);
+        }
+        if (options.storyPoints !== undefined) {
+          const storyPoints = parseFloat(options.storyPoints);
+          if (isNaN(storyPoints) || storyPoints < 0) {
+            throw new Error('Story points must be a non-negative number');
+          }
+          update.storyPoints = storyPoints;
+          changes.push(`story points → ${storyPoints}`);
+        }
+        if (options.field) {
+          update.fields = FieldValues.parse(options.field);
+          changes.push(...Object.entries(update.fields).map(([name, value]) => `${name} → ${value}`));
+        }
+        if (options.comment) {
+          changes.push('add comment');
+        }
+        if (changes.length === 0) {
+          throw new Error('Nothing to update. Use --labels, --assignee, --priority, --story-points, --field or --comment.');
+        }
+
+        await runJqlBatch(options, {
+          name: 'update',
+          describe: () => changes.join(', '),
+          apply: async (client, issue) => {
+            const issueUpdate = { ...update };
+            if (labels) {
+              issueUpdate.labels = labels.set
+                ? { add: labels.set, remove: (issue.fields.labels || []).filter(l => !labels.set!.includes(l)) }
+                : labels;
+            }
+            if (Object.keys(issueUpdate).length > 0) {
+              await client.updateIssue(issue.key, issueUpdate);
+            }
+            if (options.comment) {
+              await client.addComment(issue.key, options.comment);
+            }
+            return { outcome: 'updated', detail: changes.join(', ') };
+          },
+        });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+}
+
+export function createBatchTransitionCommand(): Command {
+  return withJqlOptions(new Command('transition'))
+    .description('Move every issue matching a JQL query to a status')
+    .requiredOption('--to <status>', 'Target status')
+    .option('-c, --comment <comment>', 'Add comment with each transition')
+    .action(async (options) => {
+      try {
+        await runJqlBatch(options, {
+          name: 'transition',
+          describe: (issue) => `${issue.fields.status?.name || '?'} → ${options.to}`,
+          apply: async (client, issue) => {
+            if (issue.fields.status?.name?.toLowerCase() === options.to.toLowerCase()) {
+              return { outcome: 'skipped', detail: `already ${issue.fields.status.name}` };
+            }
+            const transition = await client.findTransitionToStatus(issue.key, options.to);
+            if (!transition) {
+              throw new Error(`No transition from "${issue.fields.status?.name}" to "${options.to}"`);
+            }
+            await client.transitionIssue(issue.key, transition.transitionId, options.comment);
+            return { outcome: 'transitioned', detail: `${issue.fields.status?.name} → ${options.to} via "${transition.transitionName}"` };
+          },
+        });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+}
+
+export function createBatchDeleteCommand(): Command {
+  return withJqlOptions(new Command('delete'))
+    .description('Delete every issue matching a JQL query')
+    .action(async (options) => {
+      try {
+        await runJqlBatch(options, {
+          name: 'delete',
+          describe: () => 'delete',
+          apply: async (client, issue) => {
+            await client.deleteIssue(issue.key);
+            return { outcome: 'deleted' };
+          },
+        });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+}
+
+function withJqlOptions(command: Command): Command {
+  return command
+    .option('--jql <query>', 'JQL query selecting the issues')
+    .option('--max <n>', 'Refuse to run if the query matches more issues than this', '500')
+    .option('--dry-run', 'Show the matching issues and the change without applying it')
+    .option('--journal <file>', 'Where to write the journal of processed issues (default: ~/.jira-cli/journals)')
+    .option('--resume <journal>', 'Resume an interrupted run: only the issues the journal shows as failed or unfinished')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)');
+}
+
+/**
+ * Find the issues, preview the change, confirm, then apply it to each issue
+ * and report the outcome per issue. Outcomes are journaled as they come in;
+ * --resume takes the issues from the journal instead of the query.
+ */
+async function runJqlBatch(options: JqlOptions, operation: JqlBatchOperation): Promise<void> {
+  const max = parseInt(options.max, 10);
+  if (isNaN(max) || max < 1) {
+    throw new Error('--max must be a positive number');
+  }
+
+  const journal = options.resume ? BatchJournal.resume(options.resume, `batch ${operation.name}`) : undefined;
+  const jql: string | undefined = options.jql ?? journal?.source;
+  if (!jql) {
+    throw new Error('--jql is required (or --resume with a journal)');
+  }
+  if (journal && jql !== journal.source) {
+    throw new Error(`Journal ${options.resume} was written for a different query: ${journal.source}`);
+  }
+
+  const configManager = new ConfigManager();
+  const config = await configManager.getConfig({
+    project: options.project,
+    board: options.board,
+  });
+  const client = new CoreClient(config);
+
+  let issues: JiraIssue[];
+  if (journal) {
+    issues = await resumeIssues(client, journal, operation);
+    if (issues.length === 0) {
+      Logger.success('Nothing left to do; every issue in the journal is done');
+      ErrorHandler.success({ ...report(operation, jql, []), journal: journal.path });
+      return;
+    }
+  } else {
+    Logger.startSpinner('Finding issues...');
+    issues = [];
+    // Fetch one extra to tell whether the query goes past --max
+    for await (const issue of client.searchAll({ jql, fields: SEARCH_FIELDS, max: max + 1 })) {
+      issues.push(issue);
+    }
+    Logger.stopSpinner(true, `${Math.min(issues.length, max)}${issues.length > max ? '+' : ''} issues match`);
+
+    if (issues.length > max) {
+      throw new Error(`The query matches more than ${max} issues. Narrow the JQL or raise --max.`);
+    }
+    if (issues.length === 0) {
+      Logger.warning('No issues match the query');
+      ErrorHandler.success(report(operation, jql, []));
+      return;
+    }
+  }
+
+  if (!Logger.isJsonMode()) {
+    displayPreview(issues, operation);
+  }
+
+  if (options.dryRun) {
+    Logger.info('\nDry run - no changes made');
+    ErrorHandler.success({
+      operation: operation.name,
+      jql,
+      dryRun: true,
+      issues: issues.map(issue => ({ key: issue.key, summary: issue.fields.summary, change: operation.describe(issue) })),
+    });
+    return;
+  }
+
+  if (!(await confirm(operation, issues.length))) {
+    Logger.info('Cancelled');
+    return;
+  }
+
+  const active = journal ?? BatchJournal.start(
+    `batch ${operation.name}`,
+    jql,
+    issues.map(issue => ({ id: issue.key, summary: issue.fields.summary })),
+    options.journal
+  );
+  Logger.info(`Journal: ${active.path}`);
+  const rows = new Map(active.entries.map(entry => [entry.id, entry.row]));
+
+  const results = await active.run(() => applyAll(client, issues, operation, (index, result) => {
+    active.record(rows.get(issues[index].key)!, result.outcome === 'failed'
+      ? { status: 'failed', error: result.error }
+      : { status: 'done' });
+  }));
+
+  if (!Logger.isJsonMode()) {
+    const counts = summarize(results);
+    Logger.success(`\n✅ ${counts.succeeded} ${DONE[operation.name]}, ${counts.skipped} skipped`);
+    if (counts.failed > 0) {
+      Logger.error(`❌ ${counts.failed} failed`);
+      results.filter(r => r.outcome === 'failed').forEach(r => Logger.error(`  • ${r.key}: ${r.error}`));
+      Logger.info(active.resumeHint());
+    }
+  }
+  ErrorHandler.success({ ...report(operation, jql, results), journal: active.path });
+}
+
+/**
+ * Fetch the issues a journal still has to process. An issue that is gone was
+ * deleted by the interrupted run if that run was a delete.
+ */
+async function resumeIssues(client: CoreClient, journal: BatchJournal, operation: JqlBatchOperation): Promise<JiraIssue[]> {
+  const remaining = journal.remaining();
+  if (remaining.length === 0) {
+    return [];
+  }
+
+  Logger.startSpinner(`Fetching ${remaining.length} unfinished issues from the journal...`);
+  const fetched = await Promise.all(remaining.map(async (entry) => {
+    try {
+      return await client.getIssue(entry.id);
+    } catch (error) {
+      if (ErrorHandler.statusOf(error) === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }));
+  Logger.stopSpinner(true, `${remaining.length} issues left to process`);
+
+  const issues: JiraIssue[] = [];
+  remaining.forEach((entry, index) => {
+    const issue = fetched[index];
+    if (issue) {
+      issues.push(issue);
+    } else if (operation.name === 'delete') {
+      journal.record(entry.row, { status: 'done' });
+    } else {
+      journal.record(entry.row, { status: 'failed', error: 'Issue no longer exists' });
+      Logger.warning(`${entry.id} no longer exists; skipping it`);
+    }
+  });
+  return issues;
+}
+
+async function confirm(operation: JqlBatchOperation, count: number): Promise<boolean> {
+  if (process.env.JIRA_CLI_YES_MODE === 'true') {
+    Logger.debug(`Auto-confirming batch ${operation.name} due to --yes flag`);
+    return true;
+  }
+  // No one can answer a prompt in JSON mode; don't change issues silently either
+  if (Logger.isJsonMode()) {
+    throw new Error(`Batch ${operation.name} of ${count} issues needs confirmation. Pass --yes to proceed.`);
+  }
+
+  const { confirm } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'confirm',
+      message: `${operation.name === 'delete' ? 'Permanently delete' : `Apply ${operation.name} to`} ${count} issues?`,
+      default: false,
+    },
+  ]);
+  return confirm;
+}
+
+/**
+ * Apply the operation to every issue, a few at a time. One failure doesn't
+ * stop the rest; results keep the order of the search. onResult hears about
+ * each issue as soon as it is done.
+ */
+export async function applyAll(
+  client: CoreClient,
+  issues: JiraIssue[],
+  operation: JqlBatchOperation,
+  onResult?: (index: number, result: JqlBatchResult) => void
+): Promise<JqlBatchResult[]> {
+  const results: JqlBatchResult[] = new Array(issues.length);
+  let next = 0;
+  let done = 0;
+
+  Logger.startSpinner(`Applying ${operation.name}... 0/${issues.length}`);
+  const worker = async () => {
+    while (next < issues.length) {
+      const index = next++;
+      const issue = issues[index];
+      try {
+        results[index] = { key: issue.key, summary: issue.fields.summary, ...(await operation.apply(client, issue)) };
+      } catch (error) {
+        results[index] = { key: issue.key, summary: issue.fields.summary, outcome: 'failed', error: (error as Error).message };
+      }
+      onResult?.(index, results[index]);
+      Logger.updateSpinner(`Applying ${operation.name}... ${++done}/${issues.length}`);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(client.concurrency, issues.length) }, worker));
+
+  const failed = results.filter(r => r.outcome === 'failed').length;
+  Logger.stopSpinner(failed === 0, `Processed ${issues.length} issues`);
+  return results;
+}
+
+function summarize(results: JqlBatchResult[]): { succeeded: number; skipped: number; failed: number } {
+  const skipped = results.filter(r => r.outcome === 'skipped').length;
+  const failed = results.filter(r => r.outcome === 'failed').length;
+  return { succeeded: results.length - skipped - failed, skipped, failed };
+}
+
+function report(operation: JqlBatchOperation, jql: string, results: JqlBatchResult[]) {
+  return {
+    operation: operation.name,
+    jql,
+    matched: results.length,
+    ...summarize(results),
+    issues: results,
+  };
+}
+
+/**
+ * --labels add:a,b / remove:a,b / set:a,b. "set" is resolved per issue against its current labels.
+ */
+export function parseLabels(value: string): { add?: string[]; remove?: string[]; set?: string[] } {
+  const match = value.match(/^(add|remove|set):(.*)$/);
+  if (!match) {
+    throw new Error('--labels must be add:<labels>, remove:<labels> or set:<labels>');
+  }
+  const labels = match[2].split(',').map(l => l.trim()).filter(Boolean);
+  if (labels.length === 0 && match[1] !== 'set') {
+    throw new Error(`No labels given to ${match[1]}`);
+  }
+  return { [match[1]]: labels };
+}
+
+function displayPreview(issues: JiraIssue[], operation: JqlBatchOperation): void {
+  const table = new Table({
+    head: ['Key', 'Summary', 'Status', 'Assignee', 'Change'],
+    style: { head: ['cyan'] },
+    colWidths: [12, 40, 14, 18, 30],
+    wordWrap: true,
+  });
+
+  issues.forEach(issue => {
+    table.push([
+      issue.key,
+      issue.fields.summary,
+      issue.fields.status?.name || '',
+      issue.fields.assignee?.displayName || 'Unassigned',
+      operation.describe(issue),
+    ]);
+  });
+
+  console.log(table.toString());
+}
@@ -2,11 +2,17 @@ import { Command } from 'commander';
 import { readFileSync, writeFileSync } from 'fs';
 import inquirer from 'inquirer';
 import { ConfigManager } from '../config/jira.js';
-import { CoreClient } from '../clients/core.js';
+import { CoreClient, UpdateIssueOptions } from '../clients/core.js';
 import { Logger } from '../utils/logger.js';
 import { ErrorHandler } from '../utils/error-handler.js';
-import { MarkdownParser, ParsedIssue } from '../utils/markdown-parser.js';
+import { MarkdownParser, ParsedIssue, PlanItem } from '../utils/markdown-parser.js';
+import { ADFBuilder } from '../utils/adf.js';
+import { JiraIssue } from '../types/jira.js';
 import { CSVParser } from '../utils/csv-parser.js';
+import { JQLSanitizer } from '../utils/jql-sanitizer.js';
+import { BatchJournal } from '../utils/batch-journal.js';
+import { FieldValues } from '../utils/field-values.js';
+import { createBatchUpdateCommand, createBatchTransitionCommand, createBatchDeleteCommand } from './batch-jql.js';
 import Table from 'cli-table3';
 import { ISSUE_TYPE_CHOICES, PRIORITY_CHOICES, DEFAULTS } from '../constants.js';
 
@@ -24,10 +30,17 @@ export function createBatchCommand(): Command {
     .option('--type <type>', 'Default issue type', DEFAULTS.ISSUE_TYPE)
     .option('--labels <labels>', 'Additional labels (comma-separated)')
     .option('--assignee <user>', 'Default assignee')
+    .option('--field <name=value>', 'Set a field by name or ID on every issue, e.g. --field "Team=Platform" (repeatable)', FieldValues.collect)
     .option('--project <key>', 'Create in specific project (overrides default)')
     .option('--board <name>', 'Specify board name (overrides default board)')
+    .option('--journal <file>', 'Where to write the journal of created issues (default: ~/.jira-cli/journals)')
+    .option('--resume <journal>', 'Resume an interrupted run: skip rows the journal shows as created, retry the rest')
     .action(async (file, options) => {
       try {
+        if (options.resume && options.interactive) {
+          throw new Error('--interactive cannot be combined with --resume');
+        }
+
         const configManager = new ConfigManager();
         await configManager.loadTokenFromKeychain();
         // Apply command-line project overrides
@@ -79,6 +92,13 @@ export function createBatchCommand(): Command {
           });
         }
 
+        if (options.field) {
+          const fields = FieldValues.parse(options.field);
+          issues.forEach(issue => {
+            issue.fields = { ...fields, ...issue.fields };
+          });
+        }
+
         // Interactive review if requested
         if (options.interactive) {
           issues = await interactiveReview(issues);
@@ -97,13 +117,33 @@ export function createBatchCommand(): Command {
           return;
         }
 
+        // Every row is journaled as it settles, so a rerun can skip what was created
+        const ids = issues.map(issue => BatchJournal.fingerprint(toCreateOptions(issue)));
+        let journal: BatchJournal;
+        if (options.resume) {
+          journal = BatchJournal.resume(options.resume, 'batch create', ids);
+          await recoverPending(client, journal, config.project);
+        } else {
+          journal = BatchJournal.start(
+            'batch create',
+            file,
+            issues.map((issue, index) => ({ id: ids[index], summary: issue.summary })),
+            options.journal
+          );
+        }
+        Logger.info(`Journal: ${journal.path}`);
+
         // Create issues
-        const results = await createIssues(client, issues);
+        const results = await journal.run(() => createIssues(client, issues, journal));
 
         // Display results
         Logger.success(`\n✅ Created ${results.success.length} issues`);
+        if (results.skipped.length > 0) {
+          Logger.info(`⏭️  Skipped ${results.skipped.length} issues already created by an earlier run`);
+        }
         if (results.failed.length > 0) {
           Logger.error(`❌ Failed to create ${results.failed.length} issues`);
+          Logger.info(journal.resumeHint());
         }
 
         // Display created issues
@@ -124,6 +164,7 @@ export function createBatchCommand(): Command {
         if (options.output) {
           const output = {
             created: results.success,
+            skipped: results.skipped,
             failed: results.failed,
             timestamp: new Date().toISOString(),
           };
@@ -134,7 +175,9 @@ export function createBatchCommand(): Command {
         if (Logger.isJsonMode()) {
           ErrorHandler.success({
             created: results.success.length,
+            skipped: results.skipped.length,
             failed: results.failed.length,
+            journal: journal.path,
             issues: results.success.map(i => ({ key: i.key, summary: i.summary })),
           });
         }
@@ -144,6 +187,132 @@ export function createBatchCommand(): Command {
       }
     });
 
+  batch
+    .command('apply')
+    .description('Sync a markdown plan into Jira: create new checklist items, write their keys back as [PROJ-123], update existing issues, and mark checked items Done')
+    .argument('<file>', 'Markdown plan file')
+    .option('--dry-run', 'Show what would change without touching Jira or the file')
+    .option('--done-status <status>', 'Status to transition checked items to', 'Done')
+    .option('--project <key>', 'Create in specific project (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (file, options) => {
+      try {
+        const fileLower = file.toLowerCase();
+        if (!fileLower.endsWith('.md') && !fileLower.endsWith('.markdown')) {
+          throw new Error('File must be a markdown file (.md or .markdown)');
+        }
+
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+
+        let content = readFileSync(file, 'utf-8');
+        const items = MarkdownParser.parsePlan(content);
+
+        if (items.length === 0) {
+          Logger.warning('No checklist items found in file');
+          return;
+        }
+
+        // Load the current state of every issue the plan already references
+        let existing = new Map<string, JiraIssue>();
+        const keys = items.filter(i => i.key).map(i => i.key!);
+        if (keys.length > 0) {
+          Logger.startSpinner(`Fetching ${keys.length} existing issues...`);
+          existing = await fetchPlanIssues(client, keys);
+          Logger.stopSpinner(true);
+        }
+
+        const plan = items.map(item => planChanges(item, item.key ? existing.get(item.key) : undefined, options.doneStatus));
+
+        if (options.dryRun) {
+          if (Logger.isJsonMode()) {
+            ErrorHandler.success({ plan: plan.map(formatPlanJson) });
+          } else {
+            Logger.info('\n📋 Preview Mode - changes to apply:\n');
+            displayPlanTable(plan);
+          }
+          return;
+        }
+
+        const results: ApplyResults = { created: [], updated: [], transitioned: [], unchanged: [], failed: [] };
+
+        for (const step of plan) {
+          const { item } = step;
+          try {
+            let key = item.key;
+
+            if (step.action === 'missing') {
+              throw new Error(`Issue ${item.key} not found`);
+            }
+
+            if (step.action === 'create') {
+              Logger.startSpinner(`Creating: ${item.summary}`);
+              const created = await client.createIssue({
+                summary: item.summary,
+                description: item.description || undefined,
+                issueType: item.issueType,
+                priority: item.priority,
+                labels: item.labels,
+                fields: item.fields,
+              });
+              key = created.key;
+
+              // Write the key back immediately so an interrupted run never duplicates it
+              content = MarkdownParser.setPlanItemKey(content, item.line, key);
+              writeFileSync(file, content);
+
+              Logger.stopSpinner(true, `Created ${key}`);
+              results.created.push({ key, summary: item.summary, line: item.line + 1 });
+            } else if (step.action === 'update') {
+              Logger.startSpinner(`Updating ${key}: ${step.changes.join(', ')}`);
+              await client.updateIssue(key!, step.update);
+              Logger.stopSpinner(true, `Updated ${key}`);
+              results.updated.push({ key: key!, changes: step.changes });
+            } else if (!step.transition) {
+              results.unchanged.push({ key: key! });
+            }
+
+            if (step.transition) {
+              const transition = await client.findTransitionToStatus(key!, options.doneStatus);
+              if (!transition) {
+                throw new Error(`${key}: no transition available to "${options.doneStatus}"`);
+              }
+              await client.transitionIssue(key!, transition.transitionId);
+              Logger.success(`${key} → ${options.doneStatus}`);
+              results.transitioned.push({ key: key!, status: options.doneStatus });
+            }
+          } catch (error) {
+            const message = (error as Error).message;
+            Logger.stopSpinner(false, `Failed: ${message}`);
+            results.failed.push({ key: item.key || null, summary: item.summary, line: item.line + 1, error: message });
+          }
+        }
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success(results);
+        } else {
+          Logger.success(`\n✅ Created ${results.created.length}, updated ${results.updated.length}, transitioned ${results.transitioned.length}, unchanged ${results.unchanged.length}`);
+          if (results.failed.length > 0) {
+            Logger.error(`❌ ${results.failed.length} items failed`);
+            results.failed.forEach(f => Logger.error(`  • line ${f.line}: ${f.error}`));
+          }
+          if (results.created.length > 0) {
+            Logger.info(`Issue keys written back to ${file}`);
+          }
+        }
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  batch.addCommand(createBatchUpdateCommand());
+  batch.addCommand(createBatchTransitionCommand());
+  batch.addCommand(createBatchDeleteCommand());
+
   batch
     .command('parse')
     .description('Parse a markdown file and preview extracted issues')
@@ -310,56 +479,260 @@ async function editIssue(issue: ParsedIssue): Promise<ParsedIssue> {
 }
 
 /**
- * Create issues in Jira
+ * Create the issues the journal doesn't already show as created, recording
+ * each row as soon as Jira answers for it
  */
 async function createIssues(
   client: CoreClient,
-  issues: ParsedIssue[]
-): Promise<{ success: any[]; failed: any[] }> {
-  const results = {
-    success: [] as any[],
-    failed: [] as any[],
-  };
-
-  const total = issues.length;
-  let current = 0;
+  issues: ParsedIssue[],
+  journal: BatchJournal
+): Promise<CreateResults> {
+  const results: CreateResults = { success: [], skipped: [], failed: [] };
+
+  journal.entries
+    .filter(entry => entry.status === 'done')
+    .forEach(entry => results.skipped.push({ row: entry.row, key: entry.key, summary: entry.summary }));
+
+  const rows = journal.remaining().map(entry => entry.row);
+  const total = rows.length;
+  if (total === 0) {
+    return results;
+  }
 
-  for (const issue of issues) {
-    current++;
-    Logger.startSpinner(`Creating issue ${current}/${total}: ${issue.summary}`);
-    
-    try {
-      const created = await client.createIssue({
-        summary: issue.summary,
-        description: issue.description,
-        issueType: issue.issueType,
-        priority: issue.priority,
-        storyPoints: issue.storyPoints,
-        labels: issue.labels,
-        assignee: issue.assignee,
-        parent: issue.parent,
-      });
+  // Bulk create in chunks of 50; the client's scheduler keeps within Jira's rate limits
+  Logger.startSpinner(`Creating ${total} issues...`);
+  let done = 0;
+  const outcomes = await client.createIssues(
+    rows.map(row => toCreateOptions(issues[row - 1])),
+    (index, outcome) => {
+      journal.record(rows[index], outcome.issue
+        ? { status: 'done', key: outcome.issue.key }
+        : { status: 'failed', error: outcome.error });
+      Logger.updateSpinner(`Creating issues... ${++done}/${total}`);
+    }
+  );
 
-      Logger.stopSpinner(true, `Created ${created.key}`);
-      
+  rows.forEach((row, index) => {
+    const issue = issues[row - 1];
+    const { issue: created, error } = outcomes[index];
+    if (created) {
       results.success.push({
         key: created.key,
         summary: issue.summary,
         issueType: issue.issueType,
       });
-    } catch (error: any) {
-      Logger.stopSpinner(false, `Failed: ${error.message}`);
-      
+    } else {
       results.failed.push({
+        row,
         summary: issue.summary,
-        error: error.message,
+        error,
       });
     }
-  }
+  });
+
+  Logger.stopSpinner(results.failed.length === 0, `Created ${results.success.length}/${total} issues`);
+  results.failed.forEach(failure => Logger.error(`${failure.summary}: ${failure.error}`));
 
   return results;
 }
 
+function toCreateOptions(issue: ParsedIssue) {
+  return {
+    summary: issue.summary,
+    description: issue.description,
+    issueType: issue.issueType,
+    priority: issue.priority,
+    storyPoints: issue.storyPoints,
+    labels: issue.labels,
+    assignee: issue.assignee,
+    parent: issue.parent,
+    fields: issue.fields,
+  };
+}
+
+/**
+ * Rows still pending when a run stopped may have been created just before it
+ * died, with no answer recorded. Match them against issues the current user
+ * created in the project since the run started, by summary, so resuming
+ * doesn't create them twice.
+ */
+async function recoverPending(client: CoreClient, journal: BatchJournal, project: string): Promise<void> {
+  const pending = journal.entries.filter(entry => entry.status === 'pending');
+  if (pending.length === 0) {
+    return;
+  }
+
+  // Relative dates avoid guessing the timezone Jira evaluates JQL in; pad for clock skew
+  const minutes = Math.ceil((Date.now() - journal.startedAt.getTime()) / 60_000) + 5;
+  const jql = `project = "${JQLSanitizer.sanitizeProjectKey(project)}" AND reporter = currentUser() AND created >= -${minutes}m ORDER BY created ASC`;
+  const journaled = new Set(journal.entries.map(entry => entry.key).filter(Boolean));
+
+  Logger.startSpinner('Checking for issues created before the interruption...');
+  const bySummary = new Map<string, string[]>();
+  for await (const issue of client.searchAll({ jql, fields: ['summary'] })) {
+    if (!journaled.has(issue.key)) {
+      bySummary.set(issue.fields.summary, [...(bySummary.get(issue.fields.summary) || []), issue.key]);
+    }
+  }
+
+  let recovered = 0;
+  for (const entry of pending) {
+    const key = bySummary.get(entry.summary)?.shift();
+    if (key) {
+      journal.record(entry.row, { status: 'done', key });
+      recovered++;
+    }
+  }
+  Logger.stopSpinner(true, recovered > 0
+    ? `Found ${recovered} issues created before the interruption`
+    : 'No issues were created after the last journaled row');
+}
+
+interface CreateResults {
+  success: Array<{ key: string; summary: string; issueType: string }>;
+  // Created by an earlier run, per the journal
+  skipped: Array<{ row: number; key?: string; summary: string }>;
+  failed: Array<{ row: number; summary: string; error?: string }>;
+}
+
+interface ApplyResults {
+  created: Array<{ key: string; summary: string; line: number }>;
+  updated: Array<{ key: string; changes: string[] }>;
+  transitioned: Array<{ key: string; status: string }>;
+  unchanged: Array<{ key: string }>;
+  failed: Array<{ key: string | null; summary: string; line: number; error: string }>;
+}
+
+interface PlanStep {
+  item: PlanItem;
+  action: 'create' | 'update' | 'unchanged' | 'missing';
+  changes: string[];
+  update: UpdateIssueOptions;
+  transition: boolean;
+}
+
+/**
+ * Issues referenced by a plan, by key. Jira rejects a whole `key in (...)`
+ * query when one key doesn't exist, so a rejected chunk is fetched key by key
+ * and deleted or mistyped keys are left out (planChanges reports them).
+ */
+export async function fetchPlanIssues(client: CoreClient, keys: string[]): Promise<Map<string, JiraIssue>> {
+  const fields = ['summary', 'description', 'labels', 'priority', 'status'];
+  const issues = new Map<string, JiraIssue>();
+
+  for (let i = 0; i < keys.length; i += DEFAULTS.SEARCH_PAGE_SIZE) {
+    const chunk = keys.slice(i, i + DEFAULTS.SEARCH_PAGE_SIZE);
+    try {
+      for await (const issue of client.searchAll({ jql: `key in (${chunk.join(',')})`, fields })) {
+        issues.set(issue.key, issue);
+      }
+    } catch (error) {
+      if (ErrorHandler.statusOf(error) !== 400) {
+        throw error;
+      }
+      for (const key of chunk) {
+        try {
+          const issue = await client.getIssue(key);
+          issues.set(key, issue);
+        } catch (lookupError) {
+          if (ErrorHandler.statusOf(lookupError) !== 404) {
+            throw lookupError;
+          }
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Work out what `batch apply` needs to do for one plan item
+ */
+function planChanges(item: PlanItem, issue: JiraIssue | undefined, doneStatus: string): PlanStep {
+  if (!item.key) {
+    return { item, action: 'create', changes: [], update: {}, transition: item.checked };
+  }
+
+  if (!issue) {
+    return { item, action: 'missing', changes: [], update: {}, transition: false };
+  }
+
+  const fields = issue.fields;
+  const update: UpdateIssueOptions = {};
+  const changes: string[] = [];
+
+  if (fields.summary !== item.summary) {
+    update.summary = item.summary;
+    changes.push('summary');
+  }
+
+  // Only push a description when the plan has one, so browser edits aren't wiped.
+  // Compare normalized Markdown so formatting-only differences don't count as changes.
+  const planDescription = item.description ? ADFBuilder.adfToText(ADFBuilder.textToADF(item.description)) : '';
+  if (item.description && ADFBuilder.adfToText(fields.description) !== planDescription) {
+    update.description = item.description;
+    changes.push('description');
+  }
+
+  const missingLabels = (item.labels || []).filter(l => !(fields.labels || []).includes(l));
+  if (missingLabels.length > 0) {
+    update.labels = { add: missingLabels };
+    changes.push('labels');
+  }
+
+  if (item.priority && fields.priority?.name !== item.priority) {
+    update.priority = item.priority;
+    changes.push('priority');
+  }
+
+  const isDone = fields.status?.statusCategory?.key === 'done' ||
+    fields.status?.name?.toLowerCase() === doneStatus.toLowerCase();
+
+  return {
+    item,
+    action: changes.length > 0 ? 'update' : 'unchanged',
+    changes,
+    update,
+    transition: item.checked && !isDone,
+  };
+}
+
+function formatPlanJson(step: PlanStep) {
+  return {
+    line: step.item.line + 1,
+    key: step.item.key || null,
+    summary: step.item.summary,
+    action: step.action,
+    changes: step.changes,
+    transition: step.transition,
+  };
+}
+
+/**
+ * Display planned `batch apply` changes in a table
+ */
+function displayPlanTable(plan: PlanStep[]): void {
+  const table = new Table({
+    head: ['Line', 'Key', 'Action', 'Summary'],
+    style: { head: ['cyan'] },
+    colWidths: [6, 12, 30, 45],
+    wordWrap: true,
+  });
+
+  plan.forEach(step => {
+    const action = step.action === 'update' ? `update (${step.changes.join(', ')})` : step.action;
+    table.push([
+      (step.item.line + 1).toString(),
+      step.item.key || '-',
+      step.transition ? `${action} + done` : action,
+      step.item.summary,
+    ]);
+  });
+
+  console.log(table.toString());
+}
+
 /**
  * Display issues in a table
  */
@@ -0,0 +1,123 @@
+import { Command } from 'commander';
+import Table from 'cli-table3';
+import chalk from 'chalk';
+import { ConfigManager } from '../config/jira.js';
+import { CoreClient } from '../clients/core.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { BlockerAnalysis, IssueGraph } from '../utils/issue-graph.js';
+
+export function createBlockersCommand(): Command {
+  return new Command('blockers')
+    .description('Show the unresolved issues blocking an issue, directly or transitively, and the heaviest chain of open blockers by story points')
+    .argument('[issueKey]', 'Issue to analyse (or use --jql)')
+    .option('--jql <query>', 'Analyse every issue this query matches')
+    .option('--max <n>', 'Most issues to analyse with --jql', '50')
+    .option('--children', 'Also count blockers of the issue\'s children (e.g. the stories in an epic)')
+    .option('--depth <n>', 'How many "blocked by" links to follow', '10')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKey: string | undefined, options) => {
+      try {
+        if (!issueKey === !options.jql) {
+          throw new Error('Give either an issue key or --jql');
+        }
+        const depth = parseInt(options.depth, 10);
+        const max = parseInt(options.max, 10);
+        if (isNaN(depth) || depth < 1) {
+          throw new Error('--depth must be a positive number');
+        }
+        if (isNaN(max) || max < 1) {
+          throw new Error('--max must be a positive number');
+        }
+
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+
+        Logger.startSpinner('Following "blocked by" links...');
+        let targets: string[] = [];
+        if (issueKey) {
+          targets = [issueKey.toUpperCase()];
+        } else {
+          for await (const issue of client.searchAll({ jql: options.jql, fields: ['summary'], max })) {
+            targets.push(issue.key);
+          }
+          if (targets.length === 0) {
+            throw new Error('No issues match the query');
+          }
+        }
+        if (options.children) {
+          targets = [...targets, ...(await findChildren(client, targets))];
+        }
+
+        // Only read who blocks each issue, and stop at resolved blockers: what blocks them no longer matters
+        const graph = await IssueGraph.explore(targets, key => client.getIssue(key), {
+          depth,
+          follow: (edge, issue) => edge.blocks && edge.to === issue.key
+            && (targets.includes(issue.key) || issue.fields.status?.statusCategory?.key !== 'done'),
+          storyPointFields: client.fieldAliases.storyPointFields(),
+        });
+        const analysis = graph.analyzeBlockers(targets);
+        Logger.stopSpinner(true, `${analysis.blockers.length} open blockers`);
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success(analysis);
+        } else {
+          displayAnalysis(analysis, issueKey || options.jql);
+        }
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+}
+
+async function findChildren(client: CoreClient, keys: string[]): Promise<string[]> {
+  const children = await Promise.all(keys.map(async (key) => {
+    const issue = await client.getIssue(key);
+    const isEpic = issue.fields.issuetype?.name?.toLowerCase() === 'epic';
+    return client.getChildren(key, ['summary'], isEpic);
+  }));
+  return [...new Set(children.flat().map(child => child.key))].filter(key => !keys.includes(key));
+}
+
+function displayAnalysis(analysis: BlockerAnalysis, subject: string): void {
+  if (analysis.blockers.length === 0) {
+    Logger.success(`Nothing open is blocking ${subject}`);
+  } else {
+    const points = analysis.blockers.reduce((total, blocker) => total + (blocker.storyPoints || 0), 0);
+    console.log(chalk.bold(`\n${analysis.blockers.length} open issues blocking ${subject} (${points} pts)\n`));
+
+    const table = new Table({
+      head: ['Key', 'Summary', 'Status', 'Points', 'Blocks', 'Depth'],
+      style: { head: ['cyan'] },
+      colWidths: [12, 40, 14, 8, 24, 7],
+      wordWrap: true,
+    });
+    analysis.blockers.forEach(blocker => {
+      table.push([
+        blocker.key,
+        blocker.summary,
+        blocker.status,
+        blocker.storyPoints ?? '-',
+        blocker.blocks.join(', '),
+        blocker.distance,
+      ]);
+    });
+    console.log(table.toString());
+
+    if (analysis.criticalPath.keys.length > 0) {
+      console.log(`\n${chalk.bold('Critical path')} (${analysis.criticalPath.storyPoints} pts): ${analysis.criticalPath.keys.join(' → ')}`);
+    }
+  }
+
+  analysis.doneButBlocking.forEach(blocker => {
+    Logger.warning(`${blocker.key} is ${blocker.status} but still linked as blocking ${blocker.blocks.join(', ')}`);
+  });
+  analysis.cycles.forEach(cycle => {
+    Logger.warning(`Circular "blocks" links: ${[...cycle, cycle[0]].join(' → ')}`);
+  });
+}
@@ -0,0 +1,56 @@
+import { Command } from 'commander';
+import { existsSync, readdirSync, rmSync } from 'fs';
+import { resolve } from 'path';
+import { ConfigManager } from '../config/jira.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { IssueCache } from '../utils/issue-cache.js';
+import { MetaCache } from '../utils/meta-cache.js';
+
+export function createCacheCommand(): Command {
+  const cache = new Command('cache')
+    .description('Manage locally cached data: site metadata and issues mirrored by "jira sync"');
+
+  cache
+    .command('clear')
+    .description('Remove cached metadata (issue types, create screens, link types, field IDs) so the next command refetches it')
+    .option('--issues', 'Also remove issues mirrored by "jira sync"')
+    .option('--all-sites', 'Clear every site, not just the current profile\'s')
+    .action(async (options) => {
+      try {
+        const baseDir = IssueCache.defaultDir();
+        let host: string | undefined;
+        if (!options.allSites) {
+          host = new ConfigManager().getPartialConfig().host;
+          if (!host) {
+            throw new Error('No Jira host configured. Run "jira auth set" or use --all-sites.');
+          }
+        }
+
+        let sites: number;
+        if (options.issues) {
+          const dirs = host
+            ? [IssueCache.siteDir(host, baseDir)]
+            : existsSync(baseDir) ? readdirSync(baseDir).map(name => resolve(baseDir, name)) : [];
+          sites = dirs.filter(dir => existsSync(dir)).length;
+          dirs.forEach(dir => rmSync(dir, { recursive: true, force: true }));
+        } else {
+          sites = MetaCache.clear(host, baseDir);
+        }
+
+        const what = options.issues ? 'Cached metadata and issues' : 'Cached metadata';
+        const where = host ? `for ${host}` : `for ${sites} site${sites !== 1 ? 's' : ''}`;
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success({ cleared: sites > 0, sites, host: host ?? null, issues: options.issues === true });
+        } else if (sites === 0) {
+          Logger.info(`Nothing cached ${host ? `for ${host}` : ''}`.trim());
+        } else {
+          Logger.success(`${what} removed ${where}`);
+        }
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  return cache;
+}
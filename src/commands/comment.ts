@@ -4,6 +4,7 @@ import { ConfigManager } from '../config/jira.js';
 import { CoreClient } from '../clients/core.js';
 import { Logger } from '../utils/logger.js';
 import { ErrorHandler } from '../utils/error-handler.js';
+import { SiteUrl } from '../utils/site-url.js';
 
 export function createCommentCommand(): Command {
   const comment = new Command('comment')
@@ -74,12 +75,12 @@ export function createCommentCommand(): Command {
             issueKey,
             commentId: addedComment.id,
             commentText: commentText,
-            url: `https://${config.host}/browse/${issueKey}`,
+            url: SiteUrl.browse(config.host, issueKey),
           });
         } else {
           Logger.success(`✅ Comment added to ${issueKey}`);
           Logger.info(`📝 "${commentText.length > 50 ? commentText.substring(0, 50) + '...' : commentText}"`);
-          Logger.info(`🔗 View: https://${config.host}/browse/${issueKey}`);
+          Logger.info(`🔗 View: ${SiteUrl.browse(config.host, issueKey)}`);
         }
 
       } catch (error) {
@@ -8,6 +8,8 @@ import { CoreClient } from '../clients/core.js';
 import { Logger } from '../utils/logger.js';
 import { ErrorHandler } from '../utils/error-handler.js';
 import { ISSUE_TYPE_CHOICES, PRIORITY_CHOICES, DEFAULTS } from '../constants.js';
+import { SiteUrl } from '../utils/site-url.js';
+import { FieldValues } from '../utils/field-values.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -44,6 +46,7 @@ export function createCreateCommand(): Command {
     .option('-a, --assignee <assignee>', 'Assignee email or username')
     .option('--parent <issueKey>', 'Parent issue key (required for Sub-task type)')
     .option('--epic <epicKey>', 'Link to Epic by issue key (e.g., PROJ-123). Creates parent-child relationship for Agile workflows.')
+    .option('--field <name=value>', 'Set any field by name or ID, e.g. --field "Team=Platform" (repeatable)', FieldValues.collect)
     .option('--project <key>', 'Create in specific project (overrides default)')
     .option('--board <name>', 'Specify board name (overrides default board)')
     .option('--template <template>', 'Use pre-defined template: bug, feature, or task for standardized issue creation')
@@ -117,6 +120,10 @@ export function createCreateCommand(): Command {
           issueData.storyPoints = storyPoints;
         }
 
+        if (options.field) {
+          issueData.fields = FieldValues.parse(options.field);
+        }
+
         if (options.description) {
           issueData.description = options.description;
         } else if (options.descriptionFile) {
@@ -254,6 +261,7 @@ export function createCreateCommand(): Command {
           assignee: issueData.assignee,
           parent: issueData.parent,
           epic: issueData.epic,
+          fields: issueData.fields,
         });
 
         Logger.stopSpinner(true, `Issue ${createdIssue.key} created successfully!`);
@@ -264,7 +272,7 @@ export function createCreateCommand(): Command {
         if (Logger.isJsonMode()) {
           ErrorHandler.success({
             key: fullIssue.key,
-            url: `https://${config.host}/browse/${fullIssue.key}`,
+            url: SiteUrl.browse(config.host, fullIssue.key),
             summary: fullIssue.fields.summary,
             type: fullIssue.fields.issuetype?.name,
             status: fullIssue.fields.status?.name,
@@ -274,7 +282,7 @@ export function createCreateCommand(): Command {
           Logger.info(`Summary: ${fullIssue.fields.summary}`);
           Logger.info(`Type: ${fullIssue.fields.issuetype?.name}`);
           Logger.info(`Status: ${fullIssue.fields.status?.name}`);
-          Logger.info(`URL: https://${config.host}/browse/${fullIssue.key}`);
+          Logger.info(`URL: ${SiteUrl.browse(config.host, fullIssue.key)}`);
         }
       } catch (error) {
         ErrorHandler.handle(error);
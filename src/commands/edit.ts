@@ -0,0 +1,79 @@
+import { Command } from 'commander';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigManager } from '../config/jira.js';
+import { CoreClient } from '../clients/core.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { IssueDocument } from '../utils/issue-document.js';
+
+export function createEditCommand(): Command {
+  return new Command('edit')
+    .description('Edit an issue in $EDITOR as Markdown. A front-matter header holds summary, labels, priority and assignee; only fields you change are sent to Jira.')
+    .argument('<issueKey>', 'Issue key to edit (e.g., PROJ-123)')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKey: string, options) => {
+      try {
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+
+        Logger.startSpinner(`Fetching ${issueKey}...`);
+        const issue = await client.getIssue(issueKey);
+        Logger.stopSpinner(true);
+
+        const original = IssueDocument.fromIssue(issue);
+        const dir = mkdtempSync(join(tmpdir(), 'jira-edit-'));
+        const file = join(dir, `${issue.key}.md`);
+        writeFileSync(file, IssueDocument.stringify(original));
+
+        const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+        const result = spawnSync(`${editor} "${file}"`, { stdio: 'inherit', shell: true });
+        if (result.error || result.status !== 0) {
+          rmSync(dir, { recursive: true, force: true });
+          throw new Error(`Editor "${editor}" exited with ${result.error ? result.error.message : `status ${result.status}`}. No changes were saved.`);
+        }
+
+        let edited;
+        try {
+          edited = IssueDocument.parse(readFileSync(file, 'utf-8'));
+        } catch (error) {
+          throw new Error(`${(error as Error).message} Nothing was saved; your edits are in ${file}.`);
+        }
+        const { changed, update } = IssueDocument.diff(original, edited);
+
+        if (changed.length === 0) {
+          rmSync(dir, { recursive: true, force: true });
+          Logger.info(`No changes to ${issueKey}`);
+          ErrorHandler.success({ issueKey, changed });
+          return;
+        }
+
+        // Don't overwrite edits someone else made while the editor was open
+        Logger.startSpinner(`Checking ${issueKey} for concurrent changes...`);
+        const current = await client.getIssue(issueKey);
+        if (current.fields.updated !== issue.fields.updated) {
+          Logger.stopSpinner(false);
+          throw new Error(`${issueKey} was updated in Jira (at ${current.fields.updated}) while you were editing. Nothing was saved; your edits are in ${file}.`);
+        }
+
+        Logger.stopSpinner(true);
+
+        Logger.startSpinner(`Updating ${changed.join(', ')}...`);
+        await client.updateIssue(issueKey, update);
+        Logger.stopSpinner(true, `Updated ${issueKey}: ${changed.join(', ')}`);
+
+        rmSync(dir, { recursive: true, force: true });
+
+        ErrorHandler.success({ issueKey, changed });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+}
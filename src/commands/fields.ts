@@ -0,0 +1,81 @@
+import { Command } from 'commander';
+import Table from 'cli-table3';
+import { ConfigManager } from '../config/jira.js';
+import { CoreClient } from '../clients/core.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { JiraField } from '../types/jira.js';
+
+export function createFieldsCommand(): Command {
+  return new Command('fields')
+    .description('List the fields on the Jira site with their IDs and schemas, to find IDs for "fieldAliases" in .jirarc.json')
+    .option('--custom', 'Only show custom fields')
+    .option('--search <text>', 'Only show fields whose name or ID contains the text')
+    .action(async (options) => {
+      try {
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig();
+        const client = new CoreClient(config);
+
+        Logger.startSpinner('Fetching fields...');
+        const all = await client.getFields();
+        Logger.stopSpinner(true);
+
+        const search = options.search?.toLowerCase();
+        const fields = all
+          .filter(field => !options.custom || field.custom)
+          .filter(field => !search || field.name.toLowerCase().includes(search) || field.id.toLowerCase().includes(search))
+          .sort((a, b) => a.name.localeCompare(b.name));
+
+        // Aliases are most often wrong by a typo in the ID
+        for (const [name, fieldId] of Object.entries(config.fieldAliases || {})) {
+          if (!all.some(field => field.id === fieldId)) {
+            Logger.warning(`Field alias "${name}" points to ${fieldId}, which is not a field on this site`);
+          }
+        }
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success(fields.map(field => ({
+            id: field.id,
+            name: field.name,
+            custom: field.custom,
+            schema: field.schema ?? null,
+            aliases: client.fieldAliases.namesFor(field.id),
+          })));
+          return;
+        }
+
+        if (fields.length === 0) {
+          Logger.warning('No fields match');
+          return;
+        }
+
+        const table = new Table({
+          head: ['ID', 'Name', 'Type', 'Custom', 'Alias'],
+          style: { head: ['cyan'] },
+          colWidths: [22, 36, 20, 8, 16],
+          wordWrap: true,
+        });
+        fields.forEach(field => {
+          table.push([
+            field.id,
+            field.name,
+            schemaType(field),
+            field.custom ? '✓' : '',
+            client.fieldAliases.namesFor(field.id).join(', '),
+          ]);
+        });
+        console.log(table.toString());
+        console.log(`\n${fields.length} of ${all.length} fields. Name one in .jirarc.json with "fieldAliases": { "storyPoints": "customfield_10106" }`);
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+}
+
+function schemaType(field: JiraField): string {
+  if (!field.schema) {
+    return '-';
+  }
+  return field.schema.type === 'array' ? `array<${field.schema.items || 'any'}>` : field.schema.type;
+}
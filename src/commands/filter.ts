@@ -0,0 +1,94 @@
+import { Command } from 'commander';
+import { ConfigManager } from '../config/jira.js';
+import { CoreClient } from '../clients/core.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { Formatter } from '../utils/formatter.js';
+import { JQLSanitizer } from '../utils/jql-sanitizer.js';
+import { JiraFilter } from '../types/jira.js';
+
+export function createFilterCommand(): Command {
+  const filter = new Command('filter')
+    .description('Manage named JQL queries. Saved filters live in .jirarc.json; your favourite Jira filters are available too. Run either with "jira list --filter <name|id>".');
+
+  filter.command('save')
+    .description('Save a named JQL query to .jirarc.json')
+    .argument('<name>', 'Filter name (e.g. my-bugs)')
+    .requiredOption('--jql <query>', 'JQL query to save')
+    .action(async (name: string, options) => {
+      try {
+        if (/^\d+$/.test(name)) {
+          throw new Error(`Filter name "${name}" is numeric and would be confused with a Jira filter ID. Choose a different name.`);
+        }
+        const jql = JQLSanitizer.validateJQL(options.jql);
+
+        const configManager = new ConfigManager();
+        const existed = name in configManager.getFilters();
+        const path = await configManager.saveFilter(name, jql);
+
+        Logger.success(`${existed ? 'Updated' : 'Saved'} filter "${name}" in ${path}`);
+        ErrorHandler.success({ name, jql, path, updated: existed });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  filter.command('list')
+    .alias('ls')
+    .description('List saved filters and your favourite Jira filters')
+    .action(async () => {
+      try {
+        const configManager = new ConfigManager();
+        const saved = configManager.getFilters();
+
+        let favourites: JiraFilter[] = [];
+        Logger.startSpinner('Fetching favourite filters...');
+        try {
+          const client = new CoreClient(await configManager.getConfig());
+          favourites = await client.getFavouriteFilters();
+          Logger.stopSpinner(true);
+        } catch (error) {
+          // Saved filters are still useful when Jira can't be reached
+          Logger.stopSpinner(false);
+          Logger.warning(`Could not fetch favourite filters from Jira: ${(error as Error).message}`);
+        }
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success({
+            saved: Object.entries(saved).map(([name, jql]) => ({ name, jql })),
+            favourites: favourites.map(f => ({
+              id: f.id,
+              name: f.name,
+              jql: f.jql,
+              owner: f.owner?.displayName,
+            })),
+          });
+          return;
+        }
+
+        console.log(Formatter.formatFilters(saved, favourites));
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  filter.command('delete')
+    .alias('rm')
+    .description('Remove a saved filter from .jirarc.json')
+    .argument('<name>', 'Filter name')
+    .action(async (name: string) => {
+      try {
+        const configManager = new ConfigManager();
+        if (!(await configManager.deleteFilter(name))) {
+          throw new Error(`No saved filter named "${name}"`);
+        }
+
+        Logger.success(`Deleted filter "${name}"`);
+        ErrorHandler.success({ name, deleted: true });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  return filter;
+}
@@ -0,0 +1,88 @@
+import { Command } from 'commander';
+import { writeFileSync } from 'fs';
+import { ConfigManager } from '../config/jira.js';
+import { CoreClient } from '../clients/core.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { IssueGraph } from '../utils/issue-graph.js';
+
+const FORMATS = ['dot', 'mermaid', 'json'];
+
+export function createGraphCommand(): Command {
+  return new Command('graph')
+    .description('Export the dependency graph around issues, following issue links breadth-first, as Graphviz DOT, Mermaid or JSON')
+    .argument('[issueKey]', 'Issue to start from (or use --jql)')
+    .option('--jql <query>', 'Start from every issue this query matches')
+    .option('--max <n>', 'Most issues to start from with --jql', '50')
+    .option('--depth <n>', 'How many links away from the starting issues to follow', '2')
+    .option('-f, --format <format>', 'Output format: dot, mermaid or json', 'dot')
+    .option('--blocks-only', 'Only follow "blocks" links')
+    .option('-o, --output <file>', 'Write the graph to a file instead of stdout')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKey: string | undefined, options) => {
+      try {
+        if (!issueKey === !options.jql) {
+          throw new Error('Give either an issue key or --jql');
+        }
+        if (!FORMATS.includes(options.format)) {
+          throw new Error(`Unknown format "${options.format}". Use ${FORMATS.join(', ')}.`);
+        }
+        const depth = parseInt(options.depth, 10);
+        const max = parseInt(options.max, 10);
+        if (isNaN(depth) || depth < 1) {
+          throw new Error('--depth must be a positive number');
+        }
+        if (isNaN(max) || max < 1) {
+          throw new Error('--max must be a positive number');
+        }
+
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+
+        Logger.startSpinner('Walking issue links...');
+        const roots = issueKey ? [issueKey] : await findRoots(client, options.jql, max);
+        const graph = await IssueGraph.explore(roots, key => client.getIssue(key), {
+          depth,
+          follow: options.blocksOnly ? edge => edge.blocks : undefined,
+          storyPointFields: client.fieldAliases.storyPointFields(),
+        });
+        Logger.stopSpinner(true, `${graph.nodes.size} issues, ${graph.edges.size} links`);
+
+        const cycles = graph.findCycles();
+        cycles.forEach(cycle => Logger.warning(`Circular "blocks" links: ${[...cycle, cycle[0]].join(' → ')}`));
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success(graph.toJSON());
+          return;
+        }
+
+        const rendered = options.format === 'dot'
+          ? graph.toDot()
+          : options.format === 'mermaid' ? graph.toMermaid() : JSON.stringify(graph.toJSON(), null, 2);
+        if (options.output) {
+          writeFileSync(options.output, `${rendered}\n`);
+          Logger.success(`Graph saved to ${options.output}`);
+        } else {
+          console.log(rendered);
+        }
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+}
+
+async function findRoots(client: CoreClient, jql: string, max: number): Promise<string[]> {
+  const keys: string[] = [];
+  for await (const issue of client.searchAll({ jql, fields: ['summary'], max })) {
+    keys.push(issue.key);
+  }
+  if (keys.length === 0) {
+    throw new Error('No issues match the query');
+  }
+  return keys;
+}
@@ -1,11 +1,15 @@
 import { Command } from 'commander';
 import { ConfigManager } from '../config/jira.js';
 import { CoreClient } from '../clients/core.js';
+import { AgileClient } from '../clients/agile.js';
 import { Logger } from '../utils/logger.js';
 import { ErrorHandler } from '../utils/error-handler.js';
 import { Formatter } from '../utils/formatter.js';
 import { JQLSanitizer } from '../utils/jql-sanitizer.js';
 import { DEFAULTS } from '../constants.js';
+import { JiraIssue } from '../types/jira.js';
+import { IssueCache } from '../utils/issue-cache.js';
+import { FilterResolver } from '../utils/filter-resolver.js';
 
 export function createListCommand(): Command {
   const list = new Command('list')
@@ -17,12 +21,16 @@ export function createListCommand(): Command {
     .option('-l, --labels <labels>', 'Filter by labels (comma-separated)')
     .option('--project <key>', 'Filter by project (overrides default project)')
     .option('--board <name>', 'Specify board name (overrides default board)')
-    .option('--sprint <sprint>', 'Filter by sprint (current, next, or sprint name)')
+    .option('--sprint <sprint>', 'Filter by sprint (current, next, or a sprint name/ID on the board)')
     .option('--limit <number>', 'Maximum number of issues to return', String(DEFAULTS.LIST_LIMIT))
     .option('--next-page-token <token>', 'Pagination token from a previous result')
+    .option('--all', 'Fetch every matching issue, following pagination automatically')
+    .option('--max <number>', 'Fetch up to this many issues, following pagination automatically')
     .option('--jql <query>', 'Custom JQL query')
+    .option('--filter <name|id>', 'Run a saved filter from .jirarc.json, or a favourite Jira filter by name or ID (see "jira filter list")')
     .option('--fields <fields>', 'Comma-separated list of fields to return')
     .option('--mine', 'Show only issues assigned to me')
+    .option('--offline', 'Answer from the local cache populated by "jira sync" instead of querying Jira')
     .action(async (options) => {
       try {
         const configManager = new ConfigManager();
@@ -33,14 +41,28 @@ export function createListCommand(): Command {
         };
         const config = await configManager.getConfig(configOverrides);
         const client = new CoreClient(config);
+        const storyPointFields = client.fieldAliases.storyPointFields();
+
+        if (options.offline) {
+          listOffline(options, config.host, options.project || config.project, storyPointFields);
+          return;
+        }
 
         // Build JQL query
         let jql = '';
         const jqlParts: string[] = [];
 
+        if (options.jql && options.filter) {
+          throw new Error('Use either --jql or --filter, not both.');
+        }
+
         if (options.jql) {
           // Use custom JQL if provided (validate it first)
           jql = JQLSanitizer.validateJQL(options.jql);
+        } else if (options.filter) {
+          const filter = await FilterResolver.resolve(options.filter, config.filters, client);
+          Logger.debug(`Resolved filter "${options.filter}" from ${filter.source}`, filter);
+          jql = JQLSanitizer.validateJQL(filter.jql);
         } else {
           // Build JQL from options with proper sanitization
           const projectKey = options.project || config.project;
@@ -89,7 +111,7 @@ export function createListCommand(): Command {
             } else if (options.sprint === 'next') {
               jqlParts.push('sprint in futureSprints()');
             } else {
-              jqlParts.push(`sprint = ${JQLSanitizer.sanitizeFieldValue(options.sprint)}`);
+              jqlParts.push(await resolveSprintClause(new AgileClient(config), config.board, projectKey, options.sprint));
             }
           }
 
@@ -112,6 +134,52 @@ export function createListCommand(): Command {
           nextPageToken: options.nextPageToken,
         };
 
+        // Auto-paginate when --all or --max is given
+        if (options.all || options.max) {
+          let max: number | undefined;
+          if (options.max) {
+            max = parseInt(options.max);
+            if (isNaN(max) || max <= 0) {
+              throw new Error('--max must be a positive number');
+            }
+          }
+
+          // One more than asked for tells whether anything was left out
+          const issues: JiraIssue[] = [];
+          for await (const issue of client.searchAll({
+            jql,
+            fields: searchOptions.fields,
+            nextPageToken: searchOptions.nextPageToken,
+            max: max !== undefined ? max + 1 : undefined,
+          })) {
+            issues.push(issue);
+          }
+          let capped = false;
+          if (max !== undefined && issues.length > max) {
+            issues.splice(max);
+            capped = true;
+          }
+
+          Logger.stopSpinner(true, `Fetched ${issues.length} issues`);
+
+          if (Logger.isJsonMode()) {
+            ErrorHandler.success({
+              total: issues.length,
+              issues: Formatter.formatJson(issues, storyPointFields),
+              truncated: capped,
+            });
+          } else if (issues.length === 0) {
+            Logger.info('No issues found matching your criteria');
+          } else {
+            console.log(Formatter.formatIssuesTable(issues, storyPointFields));
+            Logger.info(`\nShowing ${issues.length} issues`);
+            if (capped) {
+              Logger.info(`Stopped at --max ${max}; more issues match`);
+            }
+          }
+          return;
+        }
+
         const result = await client.searchIssues(searchOptions);
 
         Logger.stopSpinner(true);
@@ -119,19 +187,19 @@ export function createListCommand(): Command {
         if (Logger.isJsonMode()) {
           ErrorHandler.success({
             total: result.total,
-            issues: Formatter.formatJson(result.issues),
+            issues: Formatter.formatJson(result.issues, storyPointFields),
             nextPageToken: result.nextPageToken || null,
           });
         } else {
           if (result.issues.length === 0) {
             Logger.info('No issues found matching your criteria');
           } else {
-            console.log(Formatter.formatIssuesTable(result.issues));
+            console.log(Formatter.formatIssuesTable(result.issues, storyPointFields));
 
             Logger.info(`\nShowing ${result.issues.length} of ${result.total} issues`);
 
             if (result.nextPageToken) {
-              Logger.info(`More results available. Use --next-page-token ${result.nextPageToken} to see the next page`);
+              Logger.info(`More results available. Use --next-page-token ${result.nextPageToken} to see the next page, or --all to fetch everything`);
             }
           }
         }
@@ -141,4 +209,97 @@ export function createListCommand(): Command {
     });
 
   return list;
-}
\ No newline at end of file
+}
+
+/**
+ * Resolve a sprint name against the board so JQL gets an unambiguous sprint ID.
+ * Falls back to matching the raw name when no board can be determined.
+ */
+async function resolveSprintClause(agile: AgileClient, boardName: string | undefined, projectKey: string, sprint: string): Promise<string> {
+  let boardId: number;
+  try {
+    boardId = (await agile.resolveBoard(boardName, projectKey)).id;
+  } catch (error) {
+    if (boardName) {
+      throw error;
+    }
+    Logger.debug(`Could not determine board for sprint lookup: ${(error as Error).message}`);
+    return `sprint = ${JQLSanitizer.sanitizeFieldValue(sprint)}`;
+  }
+
+  const resolved = await agile.findSprint(boardId, sprint);
+  Logger.debug(`Resolved sprint "${sprint}" to ${resolved.id} (${resolved.name})`);
+  return `sprint = ${resolved.id}`;
+}
+
+// The list options an offline listing looks at
+interface OfflineListOptions {
+  jql?: string;
+  filter?: string;
+  sprint?: string;
+  status?: string;
+  mine?: boolean;
+  assignee?: string;
+  type?: string;
+  priority?: string;
+  labels?: string;
+  all?: boolean;
+  max?: string;
+  // Has a default
+  limit: string;
+}
+
+/**
+ * List issues from the local sync cache, applying the same simple filters locally
+ */
+function listOffline(
+  options: OfflineListOptions,
+  host: string,
+  projectKey: string,
+  storyPointFields: readonly string[]
+): void {
+  if (options.jql || options.filter || options.sprint) {
+    throw new Error('--jql, --filter and --sprint cannot be evaluated offline. Drop --offline to query Jira directly.');
+  }
+  if (!projectKey) {
+    throw new Error('Project key is required. Set it via JIRA_PROJECT environment variable, .jirarc.json file, or use --project flag.');
+  }
+
+  let limit: number | undefined;
+  if (!options.all) {
+    limit = parseInt(options.max || options.limit);
+    if (isNaN(limit) || limit <= 0) {
+      throw new Error(`${options.max ? '--max' : '--limit'} must be a positive number`);
+    }
+  }
+
+  const cache = new IssueCache(host, projectKey);
+  if (!cache.exists()) {
+    throw new Error(`No offline cache for project ${projectKey}. Run "jira sync --project ${projectKey}" first.`);
+  }
+
+  const issues = cache.query({
+    status: options.status,
+    assignee: options.mine ? 'me' : options.assignee,
+    type: options.type,
+    priority: options.priority,
+    labels: options.labels ? options.labels.split(',').map((l: string) => l.trim()) : undefined,
+    limit,
+  });
+
+  const lastSync = cache.lastSync!.toISOString();
+
+  if (Logger.isJsonMode()) {
+    ErrorHandler.success({
+      total: issues.length,
+      issues: Formatter.formatJson(issues, storyPointFields),
+      offline: true,
+      lastSync,
+    });
+  } else if (issues.length === 0) {
+    Logger.info('No cached issues found matching your criteria');
+  } else {
+    console.log(Formatter.formatIssuesTable(issues, storyPointFields));
+    Logger.info(`\nShowing ${issues.length} cached issues (last sync ${cache.lastSync!.toLocaleString()})`);
+  }
+}
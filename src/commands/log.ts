@@ -0,0 +1,188 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { ConfigManager } from '../config/jira.js';
+import { CoreClient, WorklogOptions } from '../clients/core.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { Formatter, WorklogEntry } from '../utils/formatter.js';
+import { TimeParser } from '../utils/time-parser.js';
+
+export function createLogCommand(): Command {
+  // Options after a subcommand name belong to the subcommand, not to "log" itself
+  const log = new Command('log')
+    .enablePositionalOptions()
+    .description('Log time on an issue using Jira duration syntax (e.g. 2h30m, 1d, 45m). 1d = 8h and 1w = 5d, as in Jira.')
+    .argument('<issueKey>', 'Issue key to log work on (e.g., PROJ-123)')
+    .argument('<duration...>', 'Time spent, e.g. 2h30m or "1d 4h"')
+    .option('-c, --comment <text>', 'Worklog comment')
+    .option('--started <date>', 'When the work started: a date/time (2024-05-01 09:00) or how long ago (2h, 1d). Defaults to now.')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKey: string, duration: string[], options) => {
+      try {
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+        const worklog = buildWorklogOptions(duration.join(' '), options);
+
+        Logger.startSpinner(`Logging ${TimeParser.formatDuration(worklog.timeSpentSeconds!)} on ${issueKey}...`);
+        const added = await client.addWorklog(issueKey, worklog);
+        Logger.stopSpinner(true, `Logged ${TimeParser.formatDuration(added.timeSpentSeconds)} on ${issueKey}`);
+
+        ErrorHandler.success({
+          issueKey,
+          worklogId: added.id,
+          timeSpent: added.timeSpent,
+          timeSpentSeconds: added.timeSpentSeconds,
+          started: added.started,
+        });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  log.command('list')
+    .alias('ls')
+    .description('List worklogs on one or more issues with totals per user and per day')
+    .argument('<issueKeys...>', 'Issue keys to read worklogs from')
+    .option('--since <date>', 'Only worklogs started after this date or within a relative window (24h, 7d, 2w)')
+    .option('--author <name>', 'Only worklogs by this author (matches name, email, or account ID)')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKeys: string[], options) => {
+      try {
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+        const since = options.since ? TimeParser.parseSince(options.since) : undefined;
+
+        Logger.startSpinner(`Fetching worklogs for ${issueKeys.join(', ')}...`);
+        const entries: WorklogEntry[] = [];
+        for (const issueKey of issueKeys) {
+          const worklogs = await client.getWorklogs(issueKey);
+          entries.push(...Formatter.extractWorklogs(issueKey, worklogs, { since, author: options.author }));
+        }
+        Logger.stopSpinner(true);
+
+        const totals = Formatter.summarizeWorklogs(entries);
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success({ worklogs: entries, totals });
+          return;
+        }
+
+        console.log(Formatter.formatWorklogs(entries));
+        if (entries.length > 0) {
+          console.log('');
+          console.log(Formatter.formatWorklogSummary(totals));
+        }
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  log.command('update')
+    .description('Change the time, start, or comment of an existing worklog')
+    .argument('<issueKey>', 'Issue key the worklog belongs to')
+    .argument('<worklogId>', 'Worklog ID (see "jira log list")')
+    .option('-t, --time <duration>', 'New time spent, e.g. 1h30m')
+    .option('-c, --comment <text>', 'New worklog comment')
+    .option('--started <date>', 'New start date/time, or how long ago (2h, 1d)')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKey: string, worklogId: string, options) => {
+      try {
+        if (!options.time && !options.comment && !options.started) {
+          throw new Error('Nothing to update. Use --time, --comment, or --started.');
+        }
+
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+        const worklog = buildWorklogOptions(options.time, options);
+
+        Logger.startSpinner(`Updating worklog ${worklogId} on ${issueKey}...`);
+        const updated = await client.updateWorklog(issueKey, worklogId, worklog);
+        Logger.stopSpinner(true, `Updated worklog ${worklogId} on ${issueKey}`);
+
+        ErrorHandler.success({
+          issueKey,
+          worklogId: updated.id,
+          timeSpent: updated.timeSpent,
+          timeSpentSeconds: updated.timeSpentSeconds,
+          started: updated.started,
+        });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  log.command('delete')
+    .alias('rm')
+    .description('Delete a worklog')
+    .argument('<issueKey>', 'Issue key the worklog belongs to')
+    .argument('<worklogId>', 'Worklog ID (see "jira log list")')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKey: string, worklogId: string, options) => {
+      try {
+        const skipConfirmation = process.env.JIRA_CLI_YES_MODE === 'true';
+        if (!skipConfirmation && !Logger.isJsonMode()) {
+          const { confirm } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: `Delete worklog ${worklogId} from ${issueKey}?`,
+              default: false,
+            },
+          ]);
+          if (!confirm) {
+            Logger.info('Worklog deletion cancelled');
+            return;
+          }
+        }
+
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+
+        Logger.startSpinner(`Deleting worklog ${worklogId}...`);
+        await client.deleteWorklog(issueKey, worklogId);
+        Logger.stopSpinner(true, `Deleted worklog ${worklogId} from ${issueKey}`);
+
+        ErrorHandler.success({ issueKey, worklogId, deleted: true });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  return log;
+}
+
+function buildWorklogOptions(duration: string | undefined, options: { started?: string; comment?: string }): WorklogOptions {
+  const worklog: WorklogOptions = {};
+
+  if (duration) {
+    worklog.timeSpentSeconds = TimeParser.parseDuration(duration);
+  }
+  if (options.started) {
+    worklog.started = TimeParser.formatJiraDateTime(TimeParser.parseSince(options.started));
+  }
+  if (options.comment) {
+    worklog.comment = options.comment;
+  }
+
+  return worklog;
+}
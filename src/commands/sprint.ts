@@ -0,0 +1,305 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { ConfigManager } from '../config/jira.js';
+import { AgileClient, SprintState } from '../clients/agile.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { Formatter } from '../utils/formatter.js';
+import { JiraBoard, JiraSprint } from '../types/jira.js';
+import Table from 'cli-table3';
+
+const SPRINT_STATES: SprintState[] = ['active', 'future', 'closed'];
+
+export function createSprintCommand(): Command {
+  const sprint = new Command('sprint')
+    .description('Manage boards and sprints: list sprints, show the active sprint, move issues in or out of sprints, and start or close sprints')
+    .option('--project <key>', 'Project key (overrides default project)')
+    .option('--board <name>', 'Board name or ID (overrides default board)')
+    .action(async () => {
+      sprint.help();
+    });
+
+  sprint.command('boards')
+    .description('List boards for the project')
+    .action(async () => {
+      try {
+        const { client, projectKey } = await setup(sprint.opts());
+
+        Logger.startSpinner(`Fetching boards for ${projectKey}...`);
+        const boards = await client.getBoards(projectKey || undefined);
+        Logger.stopSpinner(true);
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success({
+            project: projectKey,
+            boards: boards.map(b => ({ id: b.id, name: b.name, type: b.type })),
+          });
+          return;
+        }
+
+        if (boards.length === 0) {
+          Logger.info(`No boards found for ${projectKey}`);
+          return;
+        }
+
+        const table = new Table({
+          head: ['ID', 'Name', 'Type'],
+          style: { head: ['cyan'] },
+          colWidths: [8, 40, 10],
+        });
+        boards.forEach(b => table.push([b.id.toString(), b.name, b.type]));
+        console.log(table.toString());
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  sprint.command('list')
+    .alias('ls')
+    .description('List sprints on the board')
+    .option('--state <states>', 'Comma-separated states to include (active, future, closed)', 'active,future')
+    .action(async (options) => {
+      try {
+        const states = options.state.split(',').map((s: string) => s.trim().toLowerCase());
+        const invalid = states.filter((s: string) => !SPRINT_STATES.includes(s as SprintState));
+        if (invalid.length > 0) {
+          throw new Error(`Invalid sprint state: ${invalid.join(', ')}. Use active, future, or closed.`);
+        }
+
+        const { client, board } = await setupBoard(sprint.opts());
+
+        Logger.startSpinner(`Fetching sprints for ${board.name}...`);
+        const sprints = await client.getSprints(board.id, states);
+        Logger.stopSpinner(true);
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success({
+            board: { id: board.id, name: board.name },
+            sprints: sprints.map(formatSprintJson),
+          });
+          return;
+        }
+
+        if (sprints.length === 0) {
+          Logger.info(`No ${states.join('/')} sprints on ${board.name}`);
+          return;
+        }
+
+        const table = new Table({
+          head: ['ID', 'Name', 'State', 'Start', 'End'],
+          style: { head: ['cyan'] },
+          colWidths: [8, 30, 10, 14, 14],
+        });
+        sprints.forEach(s => table.push([
+          s.id.toString(),
+          s.name,
+          s.state,
+          formatDay(s.startDate),
+          formatDay(s.endDate),
+        ]));
+        console.log(table.toString());
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  sprint.command('view')
+    .alias('active')
+    .description('Show a sprint and its issues (defaults to the active sprint)')
+    .argument('[sprint]', 'Sprint name or ID')
+    .action(async (sprintName) => {
+      try {
+        const { client, board } = await setupBoard(sprint.opts());
+
+        Logger.startSpinner('Fetching sprint...');
+        const target = sprintName
+          ? await client.findSprint(board.id, sprintName)
+          : await client.getActiveSprint(board.id);
+
+        if (!target) {
+          Logger.stopSpinner(false);
+          throw new Error(`No active sprint on board ${board.name}`);
+        }
+
+        const issues = await client.getSprintIssues(target.id);
+        Logger.stopSpinner(true);
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success({
+            board: { id: board.id, name: board.name },
+            sprint: formatSprintJson(target),
+            issues: Formatter.formatJson(issues, client.fieldAliases.storyPointFields()),
+          });
+          return;
+        }
+
+        console.log(`${target.name} (${target.state}) ${formatDay(target.startDate)} → ${formatDay(target.endDate)}`);
+        if (target.goal) {
+          console.log(`Goal: ${target.goal}`);
+        }
+        console.log('');
+        console.log(Formatter.formatIssuesTable(issues, client.fieldAliases.storyPointFields()));
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  sprint.command('add')
+    .description('Move issues into a sprint')
+    .argument('<sprint>', 'Sprint name or ID')
+    .argument('<issues...>', 'Issue keys to move')
+    .action(async (sprintName, issueKeys: string[]) => {
+      try {
+        const { client, board } = await setupBoard(sprint.opts());
+        const target = await client.findSprint(board.id, sprintName);
+
+        Logger.startSpinner(`Moving ${issueKeys.length} issue(s) into ${target.name}...`);
+        await client.moveIssuesToSprint(target.id, issueKeys);
+        Logger.stopSpinner(true, `Moved ${issueKeys.join(', ')} into ${target.name}`);
+
+        ErrorHandler.success({ sprint: formatSprintJson(target), moved: issueKeys });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  sprint.command('remove')
+    .alias('rm')
+    .description('Move issues out of their sprint and back to the backlog')
+    .argument('<issues...>', 'Issue keys to move')
+    .action(async (issueKeys: string[]) => {
+      try {
+        const { client } = await setup(sprint.opts());
+
+        Logger.startSpinner(`Moving ${issueKeys.length} issue(s) to the backlog...`);
+        await client.moveIssuesToBacklog(issueKeys);
+        Logger.stopSpinner(true, `Moved ${issueKeys.join(', ')} to the backlog`);
+
+        ErrorHandler.success({ backlog: issueKeys });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  sprint.command('start')
+    .description('Start a future sprint')
+    .argument('<sprint>', 'Sprint name or ID')
+    .option('--end <date>', 'End date (defaults to the planned end date, or --weeks from now)')
+    .option('--weeks <number>', 'Sprint length in weeks when no end date is set', '2')
+    .action(async (sprintName, options) => {
+      try {
+        const { client, board } = await setupBoard(sprint.opts());
+        const target = await client.findSprint(board.id, sprintName);
+
+        if (target.state !== 'future') {
+          throw new Error(`Sprint "${target.name}" is ${target.state}; only future sprints can be started`);
+        }
+
+        const startDate = new Date();
+        let endDate: Date;
+        if (options.end) {
+          endDate = new Date(options.end);
+        } else if (target.endDate && new Date(target.endDate) > startDate) {
+          endDate = new Date(target.endDate);
+        } else {
+          const weeks = parseFloat(options.weeks);
+          if (isNaN(weeks) || weeks <= 0) {
+            throw new Error('--weeks must be a positive number');
+          }
+          endDate = new Date(startDate.getTime() + weeks * 7 * 24 * 60 * 60 * 1000);
+        }
+        if (isNaN(endDate.getTime()) || endDate <= startDate) {
+          throw new Error('Sprint end date must be a valid date in the future');
+        }
+
+        Logger.startSpinner(`Starting ${target.name}...`);
+        const started = await client.startSprint(target.id, startDate, endDate);
+        Logger.stopSpinner(true, `Started ${target.name}, ending ${formatDay(endDate.toISOString())}`);
+
+        ErrorHandler.success({ sprint: formatSprintJson({ ...target, ...started }) });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  sprint.command('close')
+    .description('Close an active sprint')
+    .argument('[sprint]', 'Sprint name or ID (defaults to the active sprint)')
+    .action(async (sprintName) => {
+      try {
+        const { client, board } = await setupBoard(sprint.opts());
+        const target = sprintName
+          ? await client.findSprint(board.id, sprintName)
+          : await client.getActiveSprint(board.id);
+
+        if (!target) {
+          throw new Error(`No active sprint on board ${board.name}`);
+        }
+        if (target.state !== 'active') {
+          throw new Error(`Sprint "${target.name}" is ${target.state}; only active sprints can be closed`);
+        }
+
+        const skipConfirmation = process.env.JIRA_CLI_YES_MODE === 'true';
+        if (!skipConfirmation && !Logger.isJsonMode()) {
+          const { confirm } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: `Close sprint "${target.name}"? Unfinished issues stay in the closed sprint unless moved first.`,
+              default: false,
+            },
+          ]);
+          if (!confirm) {
+            Logger.info('Sprint close cancelled');
+            return;
+          }
+        }
+
+        Logger.startSpinner(`Closing ${target.name}...`);
+        const closed = await client.closeSprint(target.id);
+        Logger.stopSpinner(true, `Closed ${target.name}`);
+
+        ErrorHandler.success({ sprint: formatSprintJson({ ...target, ...closed }) });
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  return sprint;
+}
+
+// The --project and --board options shared by every sprint subcommand
+interface SprintOptions {
+  project?: string;
+  board?: string;
+}
+
+async function setup(options: SprintOptions): Promise<{ client: AgileClient; projectKey: string; boardName?: string }> {
+  const configManager = new ConfigManager();
+  const config = await configManager.getConfig({
+    project: options.project,
+    board: options.board,
+  });
+  return { client: new AgileClient(config), projectKey: config.project, boardName: config.board };
+}
+
+async function setupBoard(options: SprintOptions): Promise<{ client: AgileClient; board: JiraBoard }> {
+  const { client, projectKey, boardName } = await setup(options);
+  const board = await client.resolveBoard(boardName, projectKey);
+  return { client, board };
+}
+
+function formatSprintJson(sprint: JiraSprint) {
+  return {
+    id: sprint.id,
+    name: sprint.name,
+    state: sprint.state,
+    startDate: sprint.startDate || null,
+    endDate: sprint.endDate || null,
+    goal: sprint.goal || null,
+  };
+}
+
+function formatDay(date?: string): string {
+  return date ? new Date(date).toLocaleDateString() : '-';
+}
@@ -0,0 +1,107 @@
+import { Command } from 'commander';
+import { ConfigManager } from '../config/jira.js';
+import { CoreClient } from '../clients/core.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { JQLSanitizer } from '../utils/jql-sanitizer.js';
+import { IssueCache } from '../utils/issue-cache.js';
+import { JiraIssue } from '../types/jira.js';
+
+// Re-fetch a few extra minutes on incremental syncs to cover clock skew
+const SYNC_OVERLAP_MINUTES = 5;
+// Incremental syncs only see updated issues; check for deleted or moved ones this often
+const PRUNE_INTERVAL_DAYS = 7;
+
+export function createSyncCommand(): Command {
+  const sync = new Command('sync')
+    .description('Mirror a project\'s issues into a local cache for offline use with "list --offline" and "view --offline". Updates incrementally based on the updated timestamp.')
+    .option('--project <key>', 'Project to sync (overrides default project)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .option('--full', 'Discard the existing cache and re-download every issue')
+    .option('--prune', 'Drop cached issues that were deleted or moved to another project (done weekly anyway)')
+    .action(async (options) => {
+      try {
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+
+        const projectKey = options.project || config.project;
+        if (!projectKey) {
+          throw new Error('Project key is required. Set it via JIRA_PROJECT environment variable, .jirarc.json file, or use --project flag.');
+        }
+
+        const client = new CoreClient(config);
+        const cache = new IssueCache(config.host, projectKey);
+        const startedAt = new Date();
+
+        if (options.full) {
+          cache.clear();
+        }
+
+        // Incremental sync: only issues updated since the last run.
+        // Relative JQL dates avoid guessing the Jira user's timezone.
+        let jql = `project = "${JQLSanitizer.sanitizeProjectKey(projectKey)}"`;
+        const lastSync = cache.lastSync;
+        if (lastSync) {
+          const minutes = Math.ceil((startedAt.getTime() - lastSync.getTime()) / 60_000) + SYNC_OVERLAP_MINUTES;
+          jql += ` AND updated >= "-${minutes}m"`;
+        }
+        jql += ' ORDER BY updated ASC';
+
+        Logger.debug('Sync JQL', { jql });
+        Logger.startSpinner(lastSync ? `Syncing ${projectKey} changes since ${lastSync.toLocaleString()}...` : `Syncing all ${projectKey} issues...`);
+
+        const fetched: JiraIssue[] = [];
+        for await (const issue of client.searchAll({ jql })) {
+          fetched.push(issue);
+        }
+
+        cache.upsert(fetched);
+
+        // Remembered for "list --offline --mine"
+        const me = await client.getCurrentUser();
+        cache.user = { accountId: me.accountId, name: me.name };
+
+        // A full sync starts from an empty cache, so there is nothing stale to prune
+        let pruned: string[] = [];
+        const lastPrune = cache.lastPrune;
+        if (!lastSync) {
+          cache.lastPrune = startedAt;
+        } else if (options.prune || !lastPrune || startedAt.getTime() - lastPrune.getTime() > PRUNE_INTERVAL_DAYS * 86_400_000) {
+          Logger.updateSpinner('Checking for deleted or moved issues...');
+          const live: string[] = [];
+          for await (const issue of client.searchAll({ jql: `project = "${JQLSanitizer.sanitizeProjectKey(projectKey)}"`, fields: ['updated'] })) {
+            live.push(issue.key);
+          }
+          pruned = cache.prune(live);
+          cache.lastPrune = startedAt;
+        }
+
+        cache.lastSync = startedAt;
+        cache.save();
+
+        Logger.stopSpinner(true, `Synced ${fetched.length} issue${fetched.length !== 1 ? 's' : ''}${pruned.length ? `, dropped ${pruned.length}` : ''}`);
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success({
+            project: projectKey,
+            mode: lastSync ? 'incremental' : 'full',
+            fetched: fetched.length,
+            pruned,
+            cached: cache.size,
+            lastSync: startedAt.toISOString(),
+            path: cache.path,
+          });
+        } else {
+          Logger.info(`Cache now holds ${cache.size} ${projectKey} issues`);
+          Logger.info(`Stored in ${cache.path}`);
+        }
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+
+  return sync;
+}
@@ -1,20 +1,28 @@
 import { Command } from 'commander';
 import { readFileSync, existsSync } from 'fs';
+import inquirer, { DistinctQuestion } from 'inquirer';
 import { ConfigManager } from '../config/jira.js';
 import { CoreClient } from '../clients/core.js';
 import { Logger } from '../utils/logger.js';
-import { ErrorHandler, EXIT_CODES } from '../utils/error-handler.js';
+import { DetailedError, ErrorHandler, EXIT_CODES } from '../utils/error-handler.js';
 import { JiraTransition } from '../types/jira.js';
 import Table from 'cli-table3';
+import { SiteUrl } from '../utils/site-url.js';
+import { TransitionPlan, TransitionStep, WorkflowPath } from '../utils/workflow-path.js';
+import { FieldMeta, FieldValues } from '../utils/field-values.js';
 
 export function createTransitionCommand(): Command {
   const transition = new Command('transition')
     .description('Transition an issue through workflow')
     .argument('<issueKey>', 'Issue key to transition (e.g., PROJ-123)')
     .argument('[transitionName]', 'Transition name to execute (if not provided, will list available)')
-    .option('--to <status>', 'Target status (will find appropriate transition)')
+    .option('--to <status>', 'Target status; goes through intermediate statuses when there is no direct transition')
+    .option('--max-steps <n>', 'Most transitions to chain to reach --to', '5')
+    .option('--dry-run', 'Show the transitions that would run without running them')
     .option('-c, --comment <comment>', 'Add comment with transition')
     .option('--comment-file <file>', 'Read comment from file')
+    .option('--resolution <name>', 'Resolution for transitions that ask for one (e.g. Done, "Won\'t Do")')
+    .option('--field <name=value>', 'Set a field on the transition screen, by name or ID (repeatable)', FieldValues.collect)
     .option('-l, --list', 'List available transitions')
     .option('--project <key>', 'Specify project context (overrides default)')
     .option('--board <name>', 'Specify board name (overrides default board)')
@@ -59,23 +67,57 @@ export function createTransitionCommand(): Command {
           return;
         }
 
-        // Find the transition to execute
-        let targetTransition: JiraTransition | undefined;
+        // Prepare comment if provided
+        let comment: string | undefined;
+        if (options.comment) {
+          comment = options.comment;
+        } else if (options.commentFile) {
+          if (!existsSync(options.commentFile)) {
+            throw new Error(`Comment file not found: ${options.commentFile}`);
+          }
+          comment = readFileSync(options.commentFile, 'utf-8').trim();
+        }
+
+        // Values for transition screens, sent with the transitions that show the field
+        const values = FieldValues.parse(options.field);
+        if (options.resolution) {
+          if (Object.keys(values).some(name => (client.fieldAliases.get(name) ?? name).toLowerCase() === 'resolution')) {
+            throw new Error('Give the resolution with either --resolution or --field, not both');
+          }
+          values.resolution = options.resolution;
+        }
+
+        // Work out the transitions to run
+        let steps: TransitionStep[];
+        // The transitions behind the steps, for checking their screens up front
+        let via: JiraTransition[];
 
         if (options.to) {
-          // Find transition by target status
-          targetTransition = transitions.find(t => 
-            t.to.name.toLowerCase() === options.to.toLowerCase()
-          );
-          if (!targetTransition) {
-            Logger.error(`No transition available to status "${options.to}"`);
-            Logger.info('\nAvailable transitions:');
-            displayTransitions(transitions, currentStatus);
-            process.exit(EXIT_CODES.NOT_FOUND);
+          const maxSteps = parseInt(options.maxSteps, 10);
+          if (isNaN(maxSteps) || maxSteps < 1) {
+            throw new Error('--max-steps must be a positive number');
+          }
+
+          Logger.startSpinner(`Finding a path to "${options.to}"...`);
+          const plan = await client.planTransitions(issue, options.to, maxSteps, transitions);
+          Logger.stopSpinner(plan.steps !== null);
+
+          if (!plan.steps) {
+            throw new Error(describeNoPath(currentStatus, options.to, maxSteps, plan));
+          }
+          if (plan.steps.length === 0) {
+            if (Logger.isJsonMode()) {
+              ErrorHandler.success({ issueKey, fromStatus: currentStatus, toStatus: currentStatus, steps: [] });
+            } else {
+              Logger.info(`${issueKey} is already in ${currentStatus}`);
+            }
+            return;
           }
-        } else if (transitionName) {
+          steps = plan.steps;
+          via = plan.transitions ?? [];
+        } else {
           // Find transition by name
-          targetTransition = transitions.find(t => 
+          const targetTransition = transitions.find(t => 
             t.name.toLowerCase() === transitionName.toLowerCase()
           );
           if (!targetTransition) {
@@ -84,48 +126,89 @@ export function createTransitionCommand(): Command {
             displayTransitions(transitions, currentStatus);
             process.exit(EXIT_CODES.NOT_FOUND);
           }
+          steps = [{ id: targetTransition.id, name: targetTransition.name, from: currentStatus, to: targetTransition.to.name }];
+          via = [targetTransition];
         }
 
-        if (!targetTransition) {
-          Logger.error('No transition specified. Use --to <status> or provide transition name');
+        const needed = requiredFields(client, steps, via, values);
+
+        if (options.dryRun) {
+          if (Logger.isJsonMode()) {
+            ErrorHandler.success({
+              issueKey,
+              dryRun: true,
+              fromStatus: currentStatus,
+              toStatus: steps[steps.length - 1].to,
+              steps: steps.map((step, i) => ({ ...step, requiredFields: needed[i].map(describeField) })),
+            });
+          } else {
+            Logger.info(`\nWould transition ${issueKey}: ${WorkflowPath.describe(steps)}\n`);
+            steps.forEach((step, i) => {
+              const needs = needed[i].length > 0 ? `, needs ${needed[i].map(field => field.name).join(', ')}` : '';
+              Logger.info(`  ${i + 1}. ${step.name} (${step.from} → ${step.to})${needs}`);
+            });
+          }
           return;
         }
 
-        // Prepare comment if provided
-        let comment: string | undefined;
-        if (options.comment) {
-          comment = options.comment;
-        } else if (options.commentFile) {
-          if (!existsSync(options.commentFile)) {
-            throw new Error(`Comment file not found: ${options.commentFile}`);
-          }
-          comment = readFileSync(options.commentFile, 'utf-8').trim();
+        // Without a terminal to ask on, fail before the first transition rather than part-way through
+        const blocked = needed.findIndex(fields => fields.length > 0);
+        if (blocked >= 0 && (Logger.isJsonMode() || !process.stdin.isTTY)) {
+          throw missingFieldsError(via[blocked], needed[blocked], [], currentStatus);
         }
+        if (steps.length > 1) {
+          Logger.info(`Planned: ${WorkflowPath.describe(steps)}`);
+        }
+
+        // Execute the transitions, checking each one is still offered before running it
+        const applied = new Set<string>();
+        for (let i = 0; i < steps.length; i++) {
+          const step = steps[i];
+          const available = i === 0 ? transitions : await client.getTransitions(issueKey);
+          const next = available.find(t => t.id === step.id)
+            || available.find(t => t.to.name.toLowerCase() === step.to.toLowerCase());
+          if (!next) {
+            const offered = available.map(t => `${t.name} → ${t.to.name}`).join(', ') || 'none';
+            throw new DetailedError(
+              `Stuck at "${step.from}" after ${i} of ${steps.length} transitions: no transition to "${step.to}" is available for ${issueKey} (available: ${offered})`,
+              { completedSteps: steps.slice(0, i), currentStatus: step.from }
+            );
+          }
 
-        // Execute the transition
-        const targetStatus = targetTransition.to.name;
-        Logger.startSpinner(`Transitioning ${issueKey}: ${currentStatus} → ${targetStatus}...`);
-        
-        await client.transitionIssue(issueKey, targetTransition.id, comment);
-        
-        Logger.stopSpinner(true, `Successfully transitioned to ${targetStatus}`);
+          const isLast = i === steps.length - 1;
+          Logger.startSpinner(`Transitioning ${issueKey}: ${step.from} → ${next.to.name}...`);
+          try {
+            const fields = await screenValues(client, next, values, applied, isLast);
+            // The comment goes with the last transition
+            await client.transitionIssue(issueKey, next.id, isLast ? comment : undefined, fields);
+          } catch (error) {
+            Logger.stopSpinner(false);
+            if (i > 0) {
+              Logger.warning(`Stopped at "${step.from}" after ${i} of ${steps.length} transitions`);
+            }
+            throw withProgress(error, steps.slice(0, i), step.from);
+          }
+          Logger.stopSpinner(true, `${next.name}: ${step.from} → ${next.to.name}`);
+        }
 
         // Display success message
+        const targetStatus = steps[steps.length - 1].to;
         if (Logger.isJsonMode()) {
           ErrorHandler.success({
             issueKey,
-            transitionName: targetTransition.name,
+            transitionName: steps[steps.length - 1].name,
             fromStatus: currentStatus,
             toStatus: targetStatus,
+            steps,
             comment: comment || null,
-            url: `https://${config.host}/browse/${issueKey}`,
+            url: SiteUrl.browse(config.host, issueKey),
           });
         } else {
-          Logger.success(`✅ ${issueKey} transitioned: ${currentStatus} → ${targetStatus}`);
+          Logger.success(`✅ ${issueKey} transitioned: ${WorkflowPath.describe(steps)}`);
           if (comment) {
             Logger.info(`💬 Comment added: "${comment.length > 50 ? comment.substring(0, 50) + '...' : comment}"`);
           }
-          Logger.info(`🔗 View: https://${config.host}/browse/${issueKey}`);
+          Logger.info(`🔗 View: ${SiteUrl.browse(config.host, issueKey)}`);
         }
 
       } catch (error) {
@@ -136,6 +219,166 @@ export function createTransitionCommand(): Command {
   return transition;
 }
 
+/**
+ * Values to send with one transition: those whose field is on its screen (and
+ * on the last transition all the rest, so unknown names get reported), plus
+ * answers for required fields that are still missing
+ */
+async function screenValues(
+  client: CoreClient,
+  transition: JiraTransition,
+  values: Record<string, string>,
+  applied: Set<string>,
+  isLast: boolean
+): Promise<Record<string, unknown>> {
+  const screen = client.transitionFields(transition);
+  const resolved = await client.resolveTransitionFields(transition, pickValues(client, screen, values, applied, isLast));
+
+  const missing = unfilled(screen, fieldId => fieldId in resolved);
+  if (missing.length === 0) {
+    return resolved;
+  }
+  if (Logger.isJsonMode() || !process.stdin.isTTY) {
+    throw missingFieldsError(transition, missing);
+  }
+
+  Logger.stopSpinner(true, `"${transition.name}" needs more fields`);
+  const answers = await promptFields(missing);
+  Logger.startSpinner(`Transitioning: ${transition.name}...`);
+  return { ...resolved, ...(await client.resolveTransitionFields(transition, answers)) };
+}
+
+/**
+ * Required screen fields each step would be left without. Screens after the
+ * first come from other issues in those statuses, so each transition is
+ * checked again when it runs.
+ */
+function requiredFields(
+  client: CoreClient,
+  steps: TransitionStep[],
+  via: JiraTransition[],
+  values: Record<string, string>
+): FieldMeta[][] {
+  const applied = new Set<string>();
+  return steps.map((_, i) => {
+    if (!via[i]) {
+      return [];
+    }
+    const screen = client.transitionFields(via[i]);
+    const given = Object.keys(pickValues(client, screen, values, applied, i === steps.length - 1))
+      .map(name => fieldOnScreen(name, screen, client)?.fieldId);
+    return unfilled(screen, fieldId => given.includes(fieldId));
+  });
+}
+
+/**
+ * Values for one transition's screen, marking them as used
+ */
+function pickValues(
+  client: CoreClient,
+  screen: FieldMeta[],
+  values: Record<string, string>,
+  applied: Set<string>,
+  isLast: boolean
+): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const [name, value] of Object.entries(values)) {
+    if ((isLast && !applied.has(name)) || fieldOnScreen(name, screen, client)) {
+      picked[name] = value;
+      applied.add(name);
+    }
+  }
+  return picked;
+}
+
+function unfilled(screen: FieldMeta[], filled: (fieldId: string) => boolean): FieldMeta[] {
+  return screen.filter(field => field.required && !field.hasDefaultValue && !filled(field.fieldId));
+}
+
+function fieldOnScreen(name: string, screen: FieldMeta[], client: CoreClient): FieldMeta | undefined {
+  try {
+    return FieldValues.find(client.fieldAliases.get(name) ?? name, screen, 'the transition');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A field as listed in JSON output, with the values it accepts
+ */
+function describeField(field: FieldMeta) {
+  return {
+    fieldId: field.fieldId,
+    name: field.name,
+    type: field.schema?.type ?? null,
+    allowedValues: field.allowedValues?.map(option => option.value ?? option.name ?? option.id) ?? null,
+  };
+}
+
+/**
+ * Error for a transition that needs fields nobody gave, listing them in the JSON details
+ * @param completed Steps already run, and the status they left the issue in, when known here
+ */
+function missingFieldsError(
+  transition: JiraTransition,
+  missing: FieldMeta[],
+  completed?: TransitionStep[],
+  status?: string
+): DetailedError {
+  const list = missing.map(field => `${field.name} (${field.fieldId})`).join(', ');
+  const flags = missing.some(field => field.fieldId === 'resolution') ? '--resolution or --field' : '--field';
+  return new DetailedError(`The "${transition.name}" transition requires ${list}. Set them with ${flags}.`, {
+    transition: transition.name,
+    requiredFields: missing.map(describeField),
+    ...(completed ? { completedSteps: completed, currentStatus: status } : {}),
+  });
+}
+
+/**
+ * Add how far the transitions got to an error's JSON details
+ */
+function withProgress(error: unknown, completed: TransitionStep[], status: string): unknown {
+  if (error instanceof Error) {
+    const details = error instanceof DetailedError ? error.details : {};
+    Object.assign(error, { details: { ...details, completedSteps: completed, currentStatus: status } });
+  }
+  return error;
+}
+
+/**
+ * Ask for required screen fields; answers are option IDs or typed values, keyed by field ID
+ */
+async function promptFields(fields: FieldMeta[]): Promise<Record<string, string>> {
+  const questions = fields.map((field): DistinctQuestion<Record<string, string | string[]>> => {
+    const message = `${field.name}:`;
+    if (field.allowedValues?.length) {
+      const choices = field.allowedValues.map(option => ({ name: String(option.value ?? option.name ?? option.id), value: String(option.id) }));
+      return field.schema?.type === 'array'
+        ? { type: 'checkbox', name: field.fieldId, message, choices, validate: picked => picked.length > 0 || `${field.name} is required` }
+        : { type: 'list', name: field.fieldId, message, choices };
+    }
+    return { type: 'input', name: field.fieldId, message, validate: input => input.trim() !== '' || `${field.name} is required` };
+  });
+  const answers = await inquirer.prompt(questions);
+
+  return Object.fromEntries(Object.entries(answers).map(([fieldId, answer]) => [
+    fieldId,
+    Array.isArray(answer) ? answer.join(',') : String(answer),
+  ]));
+}
+
+function describeNoPath(from: string, to: string, maxSteps: number, plan: TransitionPlan): string {
+  let message = `No way to reach "${to}" from "${from}" within ${maxSteps} transitions.`;
+  if (plan.reachable.length > 0) {
+    message += ` Reachable: ${plan.reachable.join(', ')}.`;
+  }
+  if (plan.unexplored.length > 0) {
+    // Their transitions are learnt from issues in them, and there were none
+    message += ` Transitions out of ${plan.unexplored.join(', ')} are unknown because no other issue is in them.`;
+  }
+  return message;
+}
+
 /**
  * Display available transitions in a formatted table
  */
@@ -0,0 +1,66 @@
+import { Command } from 'commander';
+import { ConfigManager } from '../config/jira.js';
+import { CoreClient } from '../clients/core.js';
+import { Logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { Formatter, IssueTreeNode } from '../utils/formatter.js';
+import { JiraIssue } from '../types/jira.js';
+
+export function createTreeCommand(): Command {
+  return new Command('tree')
+    .description('Show an issue and everything below it (Epic → Story → Sub-task) with status, assignee, story points and rolled-up progress')
+    .argument('<issueKey>', 'Issue key at the top of the tree (e.g., PROJ-1)')
+    .option('--depth <n>', 'How many levels below the issue to fetch', '5')
+    .option('--project <key>', 'Specify project context (overrides default)')
+    .option('--board <name>', 'Specify board name (overrides default board)')
+    .action(async (issueKey: string, options) => {
+      try {
+        const depth = parseInt(options.depth, 10);
+        if (isNaN(depth) || depth < 0) {
+          throw new Error('--depth must be zero or a positive number');
+        }
+
+        const configManager = new ConfigManager();
+        const config = await configManager.getConfig({
+          project: options.project,
+          board: options.board,
+        });
+        const client = new CoreClient(config);
+
+        Logger.startSpinner(`Fetching the tree under ${issueKey}...`);
+        const root = await client.getIssue(issueKey);
+        const tree = await buildTree(client, root, depth, new Set([root.key]));
+        Logger.stopSpinner(true, `${tree.rollup.issues} issues, ${tree.rollup.percentDone}% done`);
+
+        if (Logger.isJsonMode()) {
+          ErrorHandler.success(tree);
+        } else {
+          console.log(Formatter.formatIssueTree(tree));
+        }
+      } catch (error) {
+        ErrorHandler.handle(error);
+      }
+    });
+}
+
+/**
+ * Fetch children level by level, siblings in parallel. Sub-tasks have no
+ * children, and an issue already in the tree is never visited twice.
+ */
+async function buildTree(
+  client: CoreClient,
+  issue: JiraIssue,
+  depth: number,
+  seen: Set<string>
+): Promise<IssueTreeNode> {
+  let children: JiraIssue[] = [];
+  if (depth > 0 && !issue.fields.issuetype?.subtask) {
+    const isEpic = issue.fields.issuetype?.name?.toLowerCase() === 'epic';
+    const fields = ['summary', 'status', 'assignee', 'issuetype', ...client.fieldAliases.storyPointFields()];
+    children = (await client.getChildren(issue.key, fields, isEpic)).filter(child => !seen.has(child.key));
+    children.forEach(child => seen.add(child.key));
+  }
+
+  const nodes = await Promise.all(children.map(child => buildTree(client, child, depth - 1, seen)));
+  return Formatter.toIssueTreeNode(issue, nodes, client.fieldAliases.storyPointFields());
+}
@@ -4,6 +4,8 @@ import { ConfigManager } from '../config/jira.js';
 import { CoreClient } from '../clients/core.js';
 import { Logger } from '../utils/logger.js';
 import { ErrorHandler } from '../utils/error-handler.js';
+import { SiteUrl } from '../utils/site-url.js';
+import { FieldValues } from '../utils/field-values.js';
 
 export function createUpdateCommand(): Command {
   const update = new Command('update')
@@ -22,6 +24,7 @@ export function createUpdateCommand(): Command {
     .option('--epic <epicKey>', 'Link to Epic by key (PROJ-123) or remove from Epic with "none". Updates Epic-Story relationship for Agile planning.')
     .option('--project <key>', 'Specify project context (overrides default)')
     .option('--board <name>', 'Specify board name (overrides default board)')
+    .option('--field <name=value>', 'Set any field by name or ID, e.g. --field "Team=Platform" (repeatable)', FieldValues.collect)
     .option('--comment <comment>', 'Add a comment with the update')
     .option('--dry-run', 'Preview the update without applying it')
     .action(async (issueKey, options) => {
@@ -102,6 +105,11 @@ export function createUpdateCommand(): Command {
           hasUpdates = true;
         }
 
+        if (options.field) {
+          updateData.fields = FieldValues.parse(options.field);
+          hasUpdates = true;
+        }
+
         // Handle parent conversion (requires special handling)
         if (options.parent) {
           // Validate parent exists
@@ -204,7 +212,11 @@ export function createUpdateCommand(): Command {
           Logger.info('\nChanges to apply:');
           
           if (hasUpdates) {
-            console.log('Field updates:', JSON.stringify(updateData, null, 2));
+            // Show --field values as they would be sent, so bad names and values fail here too
+            const preview = updateData.fields
+              ? { ...updateData, fields: await client.resolveEditFields(issueKey, updateData.fields) }
+              : updateData;
+            console.log('Field updates:', JSON.stringify(preview, null, 2));
           }
           
           if (transitionId) {
@@ -295,7 +307,7 @@ export function createUpdateCommand(): Command {
             type: updatedIssue.fields.issuetype?.name,
             status: updatedIssue.fields.status?.name,
             parent: updatedIssue.fields.parent?.key,
-            url: `https://${config.host}/browse/${updatedIssue.key}`,
+            url: SiteUrl.browse(config.host, updatedIssue.key),
           });
         } else {
           Logger.success(`\nUpdated issue: ${updatedIssue.key}`);
@@ -305,7 +317,7 @@ export function createUpdateCommand(): Command {
           if (updatedIssue.fields.parent) {
             Logger.info(`Parent: ${updatedIssue.fields.parent.key}`);
           }
-          Logger.info(`URL: https://${config.host}/browse/${updatedIssue.key}`);
+          Logger.info(`URL: ${SiteUrl.browse(config.host, updatedIssue.key)}`);
         }
 
       } catch (error) {
@@ -3,17 +3,24 @@ import { ConfigManager } from '../config/jira.js';
 import { CoreClient } from '../clients/core.js';
 import { Logger } from '../utils/logger.js';
 import { ErrorHandler, EXIT_CODES } from '../utils/error-handler.js';
-import { Formatter } from '../utils/formatter.js';
+import { Formatter, HistoryEntry } from '../utils/formatter.js';
+import { TimeParser } from '../utils/time-parser.js';
+import { IssueCache } from '../utils/issue-cache.js';
 import { spawn } from 'child_process';
+import { SiteUrl } from '../utils/site-url.js';
 
 export function createViewCommand(): Command {
   const view = new Command('view')
     .description('View detailed information about a Jira issue including summary, description, Epic links, comments, history, and all metadata. Supports opening in browser.')
     .argument('<issueKey>', 'Issue key (e.g., PROJ-123)')
     .option('-c, --comments', 'Include comments')
-    .option('-h, --history', 'Include history')
+    .option('-h, --history', 'Include change history (who changed which field, and when)')
+    .option('--field <fields>', 'Only show history for these fields (comma-separated, e.g. status,assignee)')
+    .option('--author <author>', 'Only show history by this author (name, email, or account ID)')
+    .option('--since <when>', 'Only show history since a date or relative window (e.g. 24h, 7d, 2024-05-01)')
     .option('--adf', 'Show description in raw ADF format')
     .option('--open', 'Open issue in browser')
+    .option('--offline', 'Read the issue from the local cache populated by "jira sync"')
     .option('--project <key>', 'Specify project context (overrides default)')
     .option('--board <name>', 'Specify board name (overrides default board)')
     .action(async (issueKey, options) => {
@@ -27,6 +34,14 @@ export function createViewCommand(): Command {
         const config = await configManager.getConfig(configOverrides);
         const client = new CoreClient(config);
 
+        // Validate history filters before hitting the API
+        const since = options.since ? TimeParser.parseSince(options.since) : undefined;
+
+        if (options.offline) {
+          viewOffline(issueKey, config.host, options, client.fieldAliases.storyPointFields());
+          return;
+        }
+
         Logger.startSpinner(`Fetching ${issueKey}...`);
 
         // Build expand options
@@ -45,7 +60,7 @@ export function createViewCommand(): Command {
           // Provide more helpful error message for 404s
           if (error.response?.statusCode === 404) {
             Logger.stopSpinner(false);
-            const url = `https://${config.host}/browse/${issueKey}`;
+            const url = SiteUrl.browse(config.host, issueKey);
             
             if (Logger.isJsonMode()) {
               ErrorHandler.handle(error);
@@ -62,11 +77,25 @@ export function createViewCommand(): Command {
           throw error;
         }
         
+        // Expanded changelog is capped at 100 entries; fetch the rest if needed
+        let history: HistoryEntry[] = [];
+        if (options.history) {
+          let histories = issue.changelog?.histories || [];
+          if (issue.changelog && issue.changelog.total > histories.length) {
+            histories = await client.getChangelog(issueKey);
+          }
+          history = Formatter.extractHistory(histories, {
+            fields: options.field ? options.field.split(',').map((f: string) => f.trim()) : undefined,
+            author: options.author,
+            since,
+          });
+        }
+
         Logger.stopSpinner(true);
 
         // Open in browser if requested
         if (options.open) {
-          const url = `https://${config.host}/browse/${issueKey}`;
+          const url = SiteUrl.browse(config.host, issueKey);
           Logger.info(`Opening ${url} in browser...`);
           
           try {
@@ -87,7 +116,7 @@ export function createViewCommand(): Command {
         }
 
         if (Logger.isJsonMode()) {
-          const jsonData: any = Formatter.formatJson(issue);
+          const jsonData: any = Formatter.formatJson(issue, client.fieldAliases.storyPointFields());
           
           if (options.comments && issue.fields.comment) {
             jsonData.comments = issue.fields.comment.comments.map((c: any) => ({
@@ -96,11 +125,23 @@ export function createViewCommand(): Command {
               body: Formatter.formatDescription(c.body),
             }));
           }
+
+          jsonData.attachments = Formatter.formatAttachmentsJson(issue.fields.attachment || []);
+
+          if (options.history) {
+            jsonData.history = history;
+          }
           
           ErrorHandler.success(jsonData);
         } else {
           // Display issue details
-          console.log(Formatter.formatIssueDetail(issue));
+          console.log(Formatter.formatIssueDetail(issue, client.fieldAliases.storyPointFields()));
+
+          if (issue.fields.attachment && issue.fields.attachment.length > 0) {
+            console.log('');
+            console.log('Attachments:');
+            console.log(Formatter.formatAttachments(issue.fields.attachment));
+          }
 
           // Display comments if requested
           if (options.comments) {
@@ -113,6 +154,13 @@ export function createViewCommand(): Command {
             }
           }
 
+          // Display history if requested
+          if (options.history) {
+            console.log('');
+            console.log('History:');
+            console.log(Formatter.formatHistory(history));
+          }
+
           // Display raw ADF if requested
           if (options.adf && issue.fields.description) {
             console.log('');
@@ -122,7 +170,7 @@ export function createViewCommand(): Command {
 
           // Show issue URL
           console.log('');
-          console.log(`URL: https://${config.host}/browse/${issueKey}`);
+          console.log(`URL: ${SiteUrl.browse(config.host, issueKey)}`);
         }
       } catch (error) {
         ErrorHandler.handle(error);
@@ -130,4 +178,42 @@ export function createViewCommand(): Command {
     });
 
   return view;
-}
\ No newline at end of file
+}
+
+/**
+ * Show an issue from the local sync cache
+ */
+function viewOffline(
+  issueKey: string,
+  host: string,
+  options: { comments?: boolean; history?: boolean },
+  storyPointFields: readonly string[]
+): void {
+  if (options.comments || options.history) {
+    Logger.warning('Comments and history are not cached; showing issue fields only');
+  }
+
+  const projectKey = issueKey.split('-')[0].toUpperCase();
+  const cache = new IssueCache(host, projectKey);
+  if (!cache.exists()) {
+    throw new Error(`No offline cache for project ${projectKey}. Run "jira sync --project ${projectKey}" first.`);
+  }
+
+  const issue = cache.getIssue(issueKey);
+  if (!issue) {
+    throw new Error(`Issue ${issueKey} is not in the offline cache. Run "jira sync --project ${projectKey}" to refresh it.`);
+  }
+
+  if (Logger.isJsonMode()) {
+    ErrorHandler.success({
+      ...Formatter.formatJson(issue, storyPointFields),
+      offline: true,
+      lastSync: cache.lastSync!.toISOString(),
+    });
+  } else {
+    console.log(Formatter.formatIssueDetail(issue, storyPointFields));
+    console.log('');
+    console.log(`Cached copy from ${cache.lastSync!.toLocaleString()}`);
+    console.log(`URL: ${SiteUrl.browse(host, issue.key)}`);
+  }
+}
@@ -7,10 +7,47 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// basic: email + API token (Jira Cloud); pat: bearer personal access token (Data Center/Server); oauth: OAuth 2.0 3LO
+export type AuthType = 'basic' | 'pat' | 'oauth';
+
+// REST API version: 3 (Cloud, ADF rich text) or 2 (Server/Data Center, wiki markup)
+export type ApiVersion = '2' | '3';
+
+// Connection settings at the top level of ~/.jirarc.json
+export const DEFAULT_PROFILE = 'default';
+
+export interface OAuthConfig {
+  clientId: string;
+  // Site ID from accessible-resources, used in api.atlassian.com URLs
+  cloudId: string;
+}
+
+export interface RateLimitConfig {
+  // Requests in flight at once
+  concurrency?: number;
+  // Token bucket: sustained rate and how many requests may go out in a burst
+  requestsPerSecond?: number;
+  burst?: number;
+  // Attempts after the first for throttled or failed requests
+  maxRetries?: number;
+}
+
 export interface GlobalConfig {
+  // Hostname (yourcompany.atlassian.net) or full URL (https://jira.example.com/jira)
   host: string;
   email: string;
+  // API token for basic auth, or the personal access token for pat
   apiToken?: string;
+  authType?: AuthType;
+  oauth?: OAuthConfig;
+  // Detected from the host when not set
+  apiVersion?: ApiVersion;
+  // Request scheduling for this site; defaults suit Jira Cloud
+  rateLimit?: RateLimitConfig;
+  // Names for this site's custom field IDs, e.g. { "storyPoints": "customfield_10106" }
+  fieldAliases?: Record<string, string>;
+  // Active profile name (not stored; resolved by ConfigManager)
+  profile?: string;
 }
 
 export interface ProjectConfig {
@@ -20,10 +57,19 @@ export interface ProjectConfig {
   defaultAssignee?: string;
   defaultLabels?: string[];
   defaultPriority?: string;
+  // Named JQL queries, run with `jira list --filter <name>`
+  filters?: Record<string, string>;
+  // Field aliases for this project, on top of the profile's
+  fieldAliases?: Record<string, string>;
 }
 
 export interface JiraFullConfig extends GlobalConfig, ProjectConfig {}
 
+// ~/.jirarc.json: the default profile at the top level, named ones under "profiles"
+interface GlobalFile extends GlobalConfig {
+  profiles?: Record<string, GlobalConfig>;
+}
+
 export class ConfigManager {
   private static readonly SERVICE_NAME = 'jira-cli';
   private static readonly GLOBAL_CONFIG_PATH = resolve(homedir(), '.jirarc.json');
@@ -39,8 +85,17 @@ export class ConfigManager {
   private globalConfig: Partial<GlobalConfig> = {};
   private projectConfig: Partial<ProjectConfig> = {};
   private configLoaded = false;
+  private profileFound = true;
+  readonly profile: string;
 
-  constructor() {
+  /**
+   * @param profile Named connection profile; defaults to JIRA_PROFILE, then "default"
+   */
+  constructor(profile?: string) {
+    this.profile = profile || process.env.JIRA_PROFILE || DEFAULT_PROFILE;
+    if (!/^[A-Za-z0-9_-]+$/.test(this.profile)) {
+      throw new Error(`Invalid profile name "${this.profile}". Use letters, numbers, "-" and "_".`);
+    }
     this.loadConfigs();
   }
 
@@ -58,15 +113,28 @@ export class ConfigManager {
   }
 
   private loadGlobalConfig(): void {
+    this.globalConfig = {};
+    this.profileFound = this.profile === DEFAULT_PROFILE;
     try {
       if (existsSync(ConfigManager.GLOBAL_CONFIG_PATH)) {
         const content = readFileSync(ConfigManager.GLOBAL_CONFIG_PATH, 'utf-8');
-        const config = JSON.parse(content);
+        const file = JSON.parse(content);
+        // The default profile lives at the top level; named ones under "profiles"
+        const config = this.profile === DEFAULT_PROFILE ? file : file.profiles?.[this.profile];
+        if (!config) {
+          return;
+        }
+        this.profileFound = true;
         this.globalConfig = {
           host: config.host,
           email: config.email,
           // Load apiToken from file if present (fallback when keychain not available)
           apiToken: config.apiToken,
+          authType: config.authType,
+          oauth: config.oauth,
+          apiVersion: config.apiVersion,
+          rateLimit: config.rateLimit,
+          fieldAliases: config.fieldAliases,
         };
       }
     } catch (error) {
@@ -88,6 +156,8 @@ export class ConfigManager {
         defaultAssignee: config.defaultAssignee,
         defaultLabels: config.defaultLabels,
         defaultPriority: config.defaultPriority,
+        filters: config.filters,
+        fieldAliases: config.fieldAliases,
       };
       
       // Also load global settings from project config if not already set
@@ -116,6 +186,18 @@ export class ConfigManager {
       // Accept both JIRA_TOKEN and JIRA_API_TOKEN for flexibility
       this.globalConfig.apiToken = process.env.JIRA_TOKEN || process.env.JIRA_API_TOKEN;
     }
+    if (process.env.JIRA_AUTH_TYPE) {
+      this.globalConfig.authType = process.env.JIRA_AUTH_TYPE as AuthType;
+    }
+    if (process.env.JIRA_API_VERSION) {
+      this.globalConfig.apiVersion = process.env.JIRA_API_VERSION as ApiVersion;
+    }
+    if (process.env.JIRA_MAX_CONCURRENCY) {
+      this.globalConfig.rateLimit = { ...this.globalConfig.rateLimit, concurrency: parseInt(process.env.JIRA_MAX_CONCURRENCY, 10) };
+    }
+    if (process.env.JIRA_REQUESTS_PER_SECOND) {
+      this.globalConfig.rateLimit = { ...this.globalConfig.rateLimit, requestsPerSecond: parseFloat(process.env.JIRA_REQUESTS_PER_SECOND) };
+    }
     
     // Project settings from env vars (will be overridden by project config)
     if (process.env.JIRA_PROJECT) {
@@ -144,14 +226,15 @@ export class ConfigManager {
       throw new Error('Config not loaded');
     }
 
-    // Try to load token from keychain if not already set
-    if (this.globalConfig.email && !this.globalConfig.apiToken) {
+    // Try to load token from keychain if not already set (OAuth tokens are loaded by the client)
+    const account = ConfigManager.tokenAccount(this.globalConfig);
+    if (account && !this.globalConfig.apiToken) {
       try {
         // Check if keytar is available
         if (typeof keytar.getPassword === 'function') {
           const token = await keytar.getPassword(
-            ConfigManager.SERVICE_NAME, 
-            this.globalConfig.email
+            ConfigManager.keychainService(this.profile), 
+            account
           );
           if (token) {
             this.globalConfig.apiToken = token;
@@ -171,6 +254,11 @@ export class ConfigManager {
       host: this.globalConfig.host || '',
       email: this.globalConfig.email || '',
       apiToken: this.globalConfig.apiToken || '',
+      authType: this.globalConfig.authType || 'basic',
+      oauth: this.globalConfig.oauth,
+      apiVersion: this.globalConfig.apiVersion,
+      rateLimit: this.globalConfig.rateLimit,
+      profile: this.profile,
       
       // Project settings (with command-line overrides)
       project: overrides?.project || this.projectConfig.project || '',
@@ -179,6 +267,10 @@ export class ConfigManager {
       defaultAssignee: overrides?.defaultAssignee || this.projectConfig.defaultAssignee,
       defaultLabels: overrides?.defaultLabels || this.projectConfig.defaultLabels,
       defaultPriority: overrides?.defaultPriority || this.projectConfig.defaultPriority,
+      filters: this.projectConfig.filters,
+      fieldAliases: this.globalConfig.fieldAliases || this.projectConfig.fieldAliases
+        ? { ...this.globalConfig.fieldAliases, ...this.projectConfig.fieldAliases }
+        : undefined,
     };
     
     return config;
@@ -188,6 +280,7 @@ export class ConfigManager {
     return {
       ...this.globalConfig,
       ...this.projectConfig,
+      profile: this.profile,
     };
   }
 
@@ -196,12 +289,26 @@ export class ConfigManager {
     const globalData: any = {
       host: config.host,
       email: config.email,
+      authType: config.authType || 'basic',
     };
+    if (config.oauth) {
+      globalData.oauth = config.oauth;
+    }
+    if (config.apiVersion) {
+      globalData.apiVersion = config.apiVersion;
+    }
+    if (config.rateLimit) {
+      globalData.rateLimit = config.rateLimit;
+    }
+    if (config.fieldAliases) {
+      globalData.fieldAliases = config.fieldAliases;
+    }
     
     // Try to save token to keychain, fall back to file if needed
-    if (config.apiToken) {
+    const account = ConfigManager.tokenAccount(config);
+    if (config.apiToken && account) {
       try {
-        await this.setToken(config.email, config.apiToken);
+        await this.setToken(account, config.apiToken);
       } catch (error) {
         console.warn('⚠️  Keychain not available, storing token in config file (less secure)');
         console.warn('   Consider using environment variable JIRA_TOKEN for better security');
@@ -209,9 +316,15 @@ export class ConfigManager {
       }
     }
     
+    // Keep the other profiles in the file
+    const file = this.readJsonFile<GlobalFile>(ConfigManager.GLOBAL_CONFIG_PATH);
+    const updated = this.profile === DEFAULT_PROFILE
+      ? { ...globalData, ...(file.profiles ? { profiles: file.profiles } : {}) }
+      : { ...file, profiles: { ...file.profiles, [this.profile]: globalData } };
+    
     writeFileSync(
       ConfigManager.GLOBAL_CONFIG_PATH,
-      JSON.stringify(globalData, null, 2)
+      JSON.stringify(updated, null, 2)
     );
     
     // Reload config
@@ -248,11 +361,98 @@ export class ConfigManager {
     this.loadConfigs();
   }
 
+  getFilters(): Record<string, string> {
+    return { ...this.projectConfig.filters };
+  }
+
+  /**
+   * Save a named JQL query to the nearest .jirarc.json, creating one in the
+   * current directory if none exists
+   */
+  async saveFilter(name: string, jql: string): Promise<string> {
+    const path = this.getProjectConfigPath();
+    const config = this.readJsonFile<ProjectConfig>(path);
+    config.filters = { ...config.filters, [name]: jql };
+    writeFileSync(path, JSON.stringify(config, null, 2));
+
+    ConfigManager.explorer.clearCaches();
+    this.loadConfigs();
+    return path;
+  }
+
+  /**
+   * Remove a named JQL query. Returns false if no filter has that name.
+   */
+  async deleteFilter(name: string): Promise<boolean> {
+    const path = this.getProjectConfigPath();
+    const config = this.readJsonFile<ProjectConfig>(path);
+    if (!config.filters || !(name in config.filters)) {
+      return false;
+    }
+
+    delete config.filters[name];
+    writeFileSync(path, JSON.stringify(config, null, 2));
+
+    ConfigManager.explorer.clearCaches();
+    this.loadConfigs();
+    return true;
+  }
+
+  private getProjectConfigPath(): string {
+    const searchResult = ConfigManager.explorer.search();
+    if (searchResult && searchResult.filepath.endsWith('.jirarc.json')) {
+      return searchResult.filepath;
+    }
+    return resolve(process.cwd(), '.jirarc.json');
+  }
+
+  private readJsonFile<T>(path: string): Partial<T> {
+    if (!existsSync(path)) {
+      return {};
+    }
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8'));
+    } catch {
+      throw new Error(`${path} is not valid JSON. Fix it and try again.`);
+    }
+  }
+
+  /**
+   * Keychain account for the stored API token or PAT. PATs aren't tied to an
+   * email, so they're keyed by host instead.
+   */
+  static tokenAccount(config: Partial<GlobalConfig>): string | undefined {
+    switch (config.authType || 'basic') {
+      case 'pat':
+        return config.host ? `pat:${config.host}` : undefined;
+      case 'oauth':
+        return undefined;
+      default:
+        return config.email || undefined;
+    }
+  }
+
+  /**
+   * Names of the profiles in ~/.jirarc.json, "default" first if it has a host
+   */
+  listProfiles(): string[] {
+    const file = this.readJsonFile<GlobalFile>(ConfigManager.GLOBAL_CONFIG_PATH);
+    const names = Object.keys(file.profiles || {}).filter(name => name !== DEFAULT_PROFILE);
+    return file.host ? [DEFAULT_PROFILE, ...names] : names;
+  }
+
+  /**
+   * Keychain service for this profile's tokens, so each profile keeps its own entries
+   */
+  static keychainService(profile: string = DEFAULT_PROFILE): string {
+    return profile === DEFAULT_PROFILE ? ConfigManager.SERVICE_NAME : `${ConfigManager.SERVICE_NAME}:${profile}`;
+  }
+
   async setToken(email: string, token: string): Promise<void> {
     try {
       // Check if keytar is available and has the required function
       if (typeof keytar.setPassword === 'function') {
-        await keytar.setPassword(ConfigManager.SERVICE_NAME, email, token);
+        await keytar.setPassword(ConfigManager.keychainService(this.profile), email, token);
       } else {
         throw new Error('keytar.setPassword is not a function');
       }
@@ -263,7 +463,7 @@ export class ConfigManager {
 
   async deleteToken(email: string): Promise<void> {
     try {
-      await keytar.deletePassword(ConfigManager.SERVICE_NAME, email);
+      await keytar.deletePassword(ConfigManager.keychainService(this.profile), email);
     } catch (error) {
       throw new Error(`Failed to delete token from keychain: ${error}`);
     }
@@ -272,16 +472,36 @@ export class ConfigManager {
   validateGlobal(): string[] {
     const errors: string[] = [];
     
-    if (!this.globalConfig.host) {
-      errors.push('JIRA_HOST is required (e.g., yourcompany.atlassian.net)');
+    if (!this.profileFound && !this.globalConfig.host) {
+      errors.push(`Profile "${this.profile}" is not configured. Run "jira auth set --profile ${this.profile}"`);
+      return errors;
     }
     
-    if (!this.globalConfig.email) {
-      errors.push('JIRA_EMAIL is required');
+    if (!this.globalConfig.host) {
+      errors.push('JIRA_HOST is required (e.g., yourcompany.atlassian.net)');
     }
     
-    if (!this.globalConfig.apiToken) {
-      errors.push('JIRA_TOKEN is required (API token, not password)');
+    switch (this.globalConfig.authType || 'basic') {
+      case 'basic':
+        if (!this.globalConfig.email) {
+          errors.push('JIRA_EMAIL is required');
+        }
+        if (!this.globalConfig.apiToken) {
+          errors.push('JIRA_TOKEN is required (API token, not password)');
+        }
+        break;
+      case 'pat':
+        if (!this.globalConfig.apiToken) {
+          errors.push('JIRA_TOKEN is required (personal access token)');
+        }
+        break;
+      case 'oauth':
+        if (!this.globalConfig.oauth?.clientId || !this.globalConfig.oauth?.cloudId) {
+          errors.push('OAuth is not set up. Run "jira auth set" and choose OAuth 2.0');
+        }
+        break;
+      default:
+        errors.push(`Unknown auth type "${this.globalConfig.authType}" (use basic, pat, or oauth)`);
     }
     
     return errors;
@@ -321,7 +541,7 @@ export class ConfigManager {
   isConfiguredViaEnvironment(): boolean {
     return !!(
       process.env.JIRA_HOST &&
-      process.env.JIRA_EMAIL &&
+      (process.env.JIRA_EMAIL || process.env.JIRA_AUTH_TYPE === 'pat') &&
       (process.env.JIRA_TOKEN || process.env.JIRA_API_TOKEN) &&
       process.env.JIRA_PROJECT
     );
@@ -341,10 +561,15 @@ export class ConfigManager {
     envVarsDetected: string[];
   } {
     const envVarsDetected = [];
+    if (process.env.JIRA_PROFILE) envVarsDetected.push('JIRA_PROFILE');
     if (process.env.JIRA_HOST) envVarsDetected.push('JIRA_HOST');
     if (process.env.JIRA_EMAIL) envVarsDetected.push('JIRA_EMAIL');
     if (process.env.JIRA_TOKEN) envVarsDetected.push('JIRA_TOKEN');
     if (process.env.JIRA_API_TOKEN) envVarsDetected.push('JIRA_API_TOKEN');
+    if (process.env.JIRA_AUTH_TYPE) envVarsDetected.push('JIRA_AUTH_TYPE');
+    if (process.env.JIRA_API_VERSION) envVarsDetected.push('JIRA_API_VERSION');
+    if (process.env.JIRA_MAX_CONCURRENCY) envVarsDetected.push('JIRA_MAX_CONCURRENCY');
+    if (process.env.JIRA_REQUESTS_PER_SECOND) envVarsDetected.push('JIRA_REQUESTS_PER_SECOND');
     if (process.env.JIRA_PROJECT) envVarsDetected.push('JIRA_PROJECT');
     if (process.env.JIRA_BOARD) envVarsDetected.push('JIRA_BOARD');
     if (process.env.JIRA_DEFAULT_TYPE) envVarsDetected.push('JIRA_DEFAULT_TYPE');
@@ -6,5 +6,9 @@ export {
 export type { 
   GlobalConfig,
   ProjectConfig,
+  AuthType,
+  ApiVersion,
+  OAuthConfig,
+  RateLimitConfig,
   JiraFullConfig as JiraConfig 
 } from './config-manager.js';
\ No newline at end of file
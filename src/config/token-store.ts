@@ -0,0 +1,47 @@
+export interface OAuthCredentials {
+  clientSecret: string;
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds
+  expiresAt: number;
+}
+
+/**
+ * OAuth credentials in the system keychain, keyed by OAuth client ID.
+ * Named profiles get their own service so two profiles can sign in with
+ * the same app. keytar is loaded on first use so API clients don't need
+ * the native module unless OAuth is actually configured.
+ */
+export class TokenStore {
+  private static readonly SERVICE_NAME = 'jira-cli-oauth';
+
+  static async load(clientId: string, profile?: string): Promise<OAuthCredentials | null> {
+    const keytar = await this.keytar();
+    const stored = await keytar.getPassword(this.service(profile), clientId);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  static async save(clientId: string, credentials: OAuthCredentials, profile?: string): Promise<void> {
+    const keytar = await this.keytar();
+    await keytar.setPassword(this.service(profile), clientId, JSON.stringify(credentials));
+  }
+
+  static async clear(clientId: string, profile?: string): Promise<boolean> {
+    const keytar = await this.keytar();
+    return keytar.deletePassword(this.service(profile), clientId);
+  }
+
+  private static service(profile?: string): string {
+    return !profile || profile === 'default' ? TokenStore.SERVICE_NAME : `${TokenStore.SERVICE_NAME}:${profile}`;
+  }
+
+  private static async keytar(): Promise<typeof import('keytar')> {
+    try {
+      // A CommonJS module, so the functions may sit on the default export
+      const module: typeof import('keytar') & { default?: typeof import('keytar') } = await import('keytar');
+      return module.default ?? module;
+    } catch (error) {
+      throw new Error(`OAuth tokens are stored in the system keychain, which is not available here (${(error as Error).message}). Use a personal access token or API token instead.`);
+    }
+  }
+}
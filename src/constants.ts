@@ -43,4 +43,9 @@ export const DEFAULTS = {
   ISSUE_TYPE: 'Task',
   PRIORITY: 'Medium',
   LIST_LIMIT: 20,
+  SEARCH_PAGE_SIZE: 100,
+  // Most issues rest/api/3/issue/bulk accepts per call
+  BULK_CREATE_SIZE: 50,
+  // How long create screens, issue types, link types and field IDs are cached on disk
+  META_CACHE_TTL_MINUTES: 24 * 60,
 } as const;
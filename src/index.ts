@@ -10,10 +10,21 @@ import { createUpdateCommand } from './commands/update.js';
 import { createDeleteCommand } from './commands/delete.js';
 import { createBatchCommand } from './commands/batch.js';
 import { createTypesCommand } from './commands/types.js';
+import { createCacheCommand } from './commands/cache.js';
+import { createFieldsCommand } from './commands/fields.js';
 import { createCommentCommand } from './commands/comment.js';
 import { createTransitionCommand } from './commands/transition.js';
 import { createLinkCommand } from './commands/link.js';
 import { createSelftestCommand } from './commands/selftest.js';
+import { createSyncCommand } from './commands/sync.js';
+import { createSprintCommand } from './commands/sprint.js';
+import { createLogCommand } from './commands/log.js';
+import { createAttachCommand } from './commands/attach.js';
+import { createEditCommand } from './commands/edit.js';
+import { createFilterCommand } from './commands/filter.js';
+import { createTreeCommand } from './commands/tree.js';
+import { createGraphCommand } from './commands/graph.js';
+import { createBlockersCommand } from './commands/blockers.js';
 import { Logger } from './utils/logger.js';
 import { ErrorHandler, EXIT_CODES } from './utils/error-handler.js';
 import { ConfigManager } from './config/jira.js';
@@ -21,14 +32,15 @@ import { createRequire } from 'module';
 
 // Export for programmatic usage
 export { CoreClient } from './clients/core.js';
+export { AgileClient } from './clients/agile.js';
 export { ConfigManager } from './config/jira.js';
 export { Logger } from './utils/logger.js';
 export { ErrorHandler } from './utils/error-handler.js';
 export { ADFBuilder } from './utils/adf.js';
 export { MarkdownParser } from './utils/markdown-parser.js';
 export type { ParsedIssue } from './utils/markdown-parser.js';
-export type { JiraConfig, GlobalConfig, ProjectConfig } from './config/jira.js';
-export type { JiraIssue, JiraUser, JiraComment } from './types/jira.js';
+export type { JiraConfig, GlobalConfig, ProjectConfig, AuthType, ApiVersion, OAuthConfig } from './config/jira.js';
+export type { JiraIssue, JiraUser, JiraComment, JiraBoard, JiraSprint, JiraWorklog, JiraAttachment, JiraFilter } from './types/jira.js';
 
 const require = createRequire(import.meta.url);
 const { version: VERSION } = require('../package.json') as { version: string };
@@ -43,12 +55,22 @@ program
   .option('-q, --quiet', 'Suppress non-error output')
   .option('-y, --yes', 'Automatically answer yes to all prompts')
   .option('--json', 'Output in JSON format')
+  .option('--profile <name>', 'Use a named connection profile from ~/.jirarc.json (default: JIRA_PROFILE or "default")')
+  .option('--refresh-meta', 'Refetch cached metadata (issue types, create screens, link types, field IDs) instead of using the cache')
   .hook('preAction', (thisCommand) => {
     const opts = thisCommand.opts();
     Logger.setDebugMode(opts.debug || false);
     Logger.setQuietMode(opts.quiet || false);
     Logger.setJsonMode(opts.json || false);
     
+    // Commands create their own ConfigManager, which reads the profile from here
+    if (opts.profile) {
+      process.env.JIRA_PROFILE = opts.profile;
+    }
+    if (opts.refreshMeta) {
+      process.env.JIRA_REFRESH_META = 'true';
+    }
+    
     // Store yes mode globally for commands to access
     process.env.JIRA_CLI_YES_MODE = opts.yes ? 'true' : 'false';
   });
@@ -57,16 +79,27 @@ program
 program.addCommand(createAuthCommand());
 program.addCommand(createInitCommand());
 program.addCommand(createListCommand());
+program.addCommand(createFilterCommand());
 program.addCommand(createViewCommand());
 program.addCommand(createCreateCommand());
 program.addCommand(createUpdateCommand());
+program.addCommand(createEditCommand());
 program.addCommand(createDeleteCommand());
 program.addCommand(createCommentCommand());
 program.addCommand(createTransitionCommand());
 program.addCommand(createLinkCommand());
+program.addCommand(createTreeCommand());
+program.addCommand(createGraphCommand());
+program.addCommand(createBlockersCommand());
 program.addCommand(createBatchCommand());
 program.addCommand(createTypesCommand());
+program.addCommand(createFieldsCommand());
 program.addCommand(createSelftestCommand());
+program.addCommand(createSyncCommand());
+program.addCommand(createCacheCommand());
+program.addCommand(createSprintCommand());
+program.addCommand(createLogCommand());
+program.addCommand(createAttachCommand());
 
 // Add help command that shows configuration status
 program
@@ -80,7 +113,9 @@ program
       const status = configManager.getConfigStatus();
       
       Logger.info('Configuration Status:');
+      Logger.info(`  Profile: ${configManager.profile}`);
       Logger.info(`  Host: ${config.host || 'Not configured'} ${options.verbose ? `(${status.sources.host})` : ''}`);
+      Logger.info(`  Auth: ${config.authType || 'basic'}`);
       Logger.info(`  Email: ${config.email || 'Not configured'} ${options.verbose ? `(${status.sources.email})` : ''}`);
       Logger.info(`  API Token: ${config.apiToken ? '***' : 'Not configured'} ${options.verbose ? `(${status.sources.apiToken})` : ''}`);
       Logger.info(`  Project: ${config.project || 'Not configured'} ${options.verbose ? `(${status.sources.project})` : ''}`);
@@ -4,6 +4,7 @@ export interface JiraIssue {
   self: string;
   fields: JiraIssueFields;
   expand?: string;
+  changelog?: JiraChangelog;
 }
 
 export interface JiraIssueFields {
@@ -32,6 +33,7 @@ export interface JiraIssueFields {
     comments: JiraComment[];
     total: number;
   };
+  attachment?: JiraAttachment[];
   [key: string]: any; // For custom fields
 }
 
@@ -69,6 +71,8 @@ export interface JiraPriority {
 export interface JiraUser {
   self: string;
   accountId: string;
+  // Server/Data Center username
+  name?: string;
   emailAddress: string;
   displayName: string;
   active: boolean;
@@ -96,6 +100,76 @@ export interface JiraComment {
   updated: string;
 }
 
+export interface JiraAttachment {
+  self?: string;
+  id: string;
+  filename: string;
+  author?: JiraUser;
+  created: string;
+  size: number;
+  mimeType: string;
+  content: string;
+  thumbnail?: string;
+}
+
+// An option offered for a field on a create, edit or transition screen
+export interface JiraAllowedValue {
+  id: string;
+  name?: string;
+  value?: string;
+  // Options under this one in a cascading select
+  children?: JiraAllowedValue[];
+}
+
+export interface JiraWorklog {
+  self?: string;
+  id: string;
+  issueId?: string;
+  author?: JiraUser;
+  updateAuthor?: JiraUser;
+  comment?: unknown; // ADF format
+  started: string;
+  timeSpent: string;
+  timeSpentSeconds: number;
+  created?: string;
+  updated?: string;
+}
+
+export interface JiraFilter {
+  self?: string;
+  id: string;
+  name: string;
+  jql: string;
+  description?: string;
+  owner?: JiraUser;
+  favourite?: boolean;
+  viewUrl?: string;
+}
+
+export interface JiraChangelogItem {
+  field: string;
+  fieldtype: string;
+  fieldId?: string;
+  from: string | null;
+  fromString: string | null;
+  to: string | null;
+  toString: string | null;
+}
+
+export interface JiraChangelogHistory {
+  id: string;
+  author?: JiraUser;
+  created: string;
+  items: JiraChangelogItem[];
+}
+
+export interface JiraChangelog {
+  startAt: number;
+  maxResults: number;
+  total: number;
+  histories: JiraChangelogHistory[];
+}
+
 export interface JiraSearchResult {
   total: number;
   issues: JiraIssue[];
@@ -103,6 +177,30 @@ export interface JiraSearchResult {
   maxResults?: number;
 }
 
+export interface JiraBoard {
+  id: number;
+  self: string;
+  name: string;
+  type: 'scrum' | 'kanban' | 'simple' | string;
+  location?: {
+    projectId?: number;
+    projectKey?: string;
+    projectName?: string;
+  };
+}
+
+export interface JiraSprint {
+  id: number;
+  self: string;
+  state: 'active' | 'future' | 'closed';
+  name: string;
+  startDate?: string;
+  endDate?: string;
+  completeDate?: string;
+  originBoardId?: number;
+  goal?: string;
+}
+
 export interface JiraTransition {
   id: string;
   name: string;
@@ -111,6 +209,21 @@ export interface JiraTransition {
   isGlobal: boolean;
   isInitial: boolean;
   isConditional: boolean;
+  // The transition screen's fields, by field ID
+  fields?: {
+    [fieldId: string]: {
+      required: boolean;
+      name: string;
+      hasDefaultValue?: boolean;
+      schema: {
+        type: string;
+        items?: string;
+        system?: string;
+        custom?: string;
+      };
+      allowedValues?: JiraAllowedValue[];
+    };
+  };
 }
 
 export interface JiraCreateIssue {
@@ -119,7 +232,7 @@ export interface JiraCreateIssue {
       key: string;
     };
     summary: string;
-    description?: any; // ADF format
+    description?: any; // ADF format (wiki markup string on API v2)
     issuetype: {
       name: string;
     };
@@ -128,13 +241,27 @@ export interface JiraCreateIssue {
     };
     labels?: string[];
     components?: Array<{ name: string }>;
-    assignee?: {
-      accountId: string;
-    };
+    // accountId on Cloud, username on Server/Data Center
+    assignee?: { accountId: string } | { name: string };
     [key: string]: any; // For custom fields
   };
 }
 
+export interface JiraField {
+  id: string;
+  name: string;
+  custom: boolean;
+  // JQL names, e.g. "cf[10106]" and "Story Points"
+  clauseNames?: string[];
+  schema?: {
+    type: string;
+    items?: string;
+    system?: string;
+    custom?: string;
+    customId?: number;
+  };
+}
+
 export interface JiraCreateMeta {
   projects: Array<{
     id: string;
@@ -1,8 +1,21 @@
 /**
  * Atlassian Document Format (ADF) utilities
- * Converts between plain text/markdown and ADF format
+ * Converts between Markdown and ADF. The Markdown produced by adfToText parses back
+ * to the same document, so descriptions edited through the CLI keep browser formatting.
+ *
+ * Beyond CommonMark/GFM (headings, lists, task lists, tables, quotes, code, links,
+ * emphasis, ~~strike~~, images) a few extensions cover Jira-only nodes:
+ *   :::info ... :::                 panels (info, note, tip, warning, error, success)
+ *   {status:green}DONE{status}      status lozenges
+ *   @[Jane Doe](accountid:123)      mentions
+ *   :smile:                         emoji
+ *   <https://...>                   smart links (inlineCard)
+ *   <u>text</u>                     underline
+ *   ![alt](media:<id>?collection=)  attached media
  */
 
+import { randomUUID } from 'crypto';
+
 export interface ADFDocument {
   version: 1;
   type: 'doc';
@@ -22,9 +35,57 @@ export interface ADFMark {
   attrs?: Record<string, any>;
 }
 
+interface TextToken {
+  kind: 'text';
+  text: string;
+  marks: ADFMark[];
+}
+
+interface NodeToken {
+  kind: 'node';
+  node: ADFNode;
+}
+
+interface DelimiterToken {
+  kind: 'delimiter';
+  char: string;
+  count: number;
+  canOpen: boolean;
+  canClose: boolean;
+  marks: ADFMark[];
+}
+
+type InlineToken = TextToken | NodeToken | DelimiterToken;
+
+const PANEL_TYPES = ['info', 'note', 'tip', 'warning', 'error', 'success'];
+const STATUS_COLORS = ['neutral', 'purple', 'blue', 'red', 'yellow', 'green'];
+
+// When several marks start on the same text, open the one that runs longest first; ties use this order
+const MARK_ORDER = ['link', 'strong', 'em', 'strike', 'underline'];
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)\s*$/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.+?)\s*$/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^ {0,3}>\s?(.*)$/;
+const PANEL_OPEN = /^ {0,3}:::(\w+)\s*$/;
+const PANEL_CLOSE = /^ {0,3}:::\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const LIST_ITEM = /^( *)([-+*•]|\d{1,9}[.)])(?:( +)(.*))?$/;
+const TASK_ITEM = /^\[([ xX])\](?:\s+(.*))?$/;
+const MEDIA_LINE = /^\s*(!\[[^\]]*\]\([^)\s]+\)\s*)+$/;
+const IMAGE = /!\[([^\]]*)\]\(([^)\s]+)\)/g;
+
+const MENTION = /@\[([^\]]*)\]\(accountid:([^)\s]+)\)/y;
+const STATUS = /\{status(?::([a-zA-Z]+))?\}(.*?)\{status\}/y;
+const EMOJI = /:([a-zA-Z0-9_+-]+):/y;
+const AUTOLINK = /<((?:https?|mailto):[^<>\s]+)>/y;
+const LINE_BREAK = /<br\s*\/?>/iy;
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+
 export class ADFBuilder {
   /**
-   * Convert plain text to ADF format with better code block handling
+   * Convert Markdown to ADF
    */
   static textToADF(text: string): ADFDocument {
     if (!text) {
@@ -35,376 +96,1131 @@ export class ADFBuilder {
       };
     }
 
-    const lines = text.split('\n');
-    const content: ADFNode[] = [];
-    let currentParagraph: ADFNode | null = null;
-    let inCodeBlock = false;
-    let codeBlockContent: string[] = [];
-    let codeBlockLanguage = '';
+    const content = this.parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
+
+    return {
+      version: 1,
+      type: 'doc',
+      content: content.length > 0 ? content : [{ type: 'paragraph', content: [] }],
+    };
+  }
+
+  /**
+   * Convert ADF to Markdown
+   */
+  static adfToText(adf: ADFDocument | any): string {
+    if (!adf || !adf.content) {
+      return '';
+    }
+
+    return this.serializeBlocks(adf.content);
+  }
+
+  /**
+   * Create a mention node for a user
+   */
+  static createMention(accountId: string, displayName: string): ADFNode {
+    return {
+      type: 'mention',
+      attrs: {
+        id: accountId,
+        text: displayName.startsWith('@') ? displayName : `@${displayName}`,
+        userType: 'DEFAULT',
+      },
+    };
+  }
+
+  /**
+   * Create a link mark
+   */
+  static createLink(href: string, title?: string): ADFMark {
+    return {
+      type: 'link',
+      attrs: title ? { href, title } : { href },
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Markdown → ADF: blocks
+  // ---------------------------------------------------------------------------
+
+  private static parseBlocks(lines: string[]): ADFNode[] {
+    const blocks: ADFNode[] = [];
+    let i = 0;
 
-    for (let i = 0; i < lines.length; i++) {
+    while (i < lines.length) {
       const line = lines[i];
 
-      // Check for code block markers
-      if (line.startsWith('```')) {
-        if (!inCodeBlock) {
-          // Starting a code block
-          inCodeBlock = true;
-          codeBlockLanguage = line.slice(3).trim() || 'plain';
-          codeBlockContent = [];
-          
-          // Close current paragraph if exists
-          if (currentParagraph) {
-            // Remove trailing newline
-            if (currentParagraph.content!.length > 0) {
-              const lastNode = currentParagraph.content![currentParagraph.content!.length - 1];
-              if (lastNode.type === 'text' && lastNode.text === '\n') {
-                currentParagraph.content!.pop();
-              }
-            }
-            content.push(currentParagraph);
-            currentParagraph = null;
-          }
-        } else {
-          // Ending a code block
-          inCodeBlock = false;
-          content.push({
-            type: 'codeBlock',
-            attrs: {
-              language: codeBlockLanguage,
-            },
-            content: codeBlockContent.length > 0 ? [{
-              type: 'text',
-              text: codeBlockContent.join('\n'),
-            }] : [],
-          });
-          codeBlockContent = [];
-          codeBlockLanguage = '';
-        }
+      if (line.trim() === '') {
+        i++;
         continue;
       }
 
-      if (inCodeBlock) {
-        // Add line to code block
-        codeBlockContent.push(line);
-      } else if (line.trim() === '') {
-        // Empty line - close current paragraph
-        if (currentParagraph) {
-          // Remove trailing newline
-          if (currentParagraph.content!.length > 0) {
-            const lastNode = currentParagraph.content![currentParagraph.content!.length - 1];
-            if (lastNode.type === 'text' && lastNode.text === '\n') {
-              currentParagraph.content!.pop();
-            }
-          }
-          content.push(currentParagraph);
-          currentParagraph = null;
+      const fence = line.match(FENCE);
+      if (fence) {
+        const code: string[] = [];
+        i++;
+        while (i < lines.length && !this.isClosingFence(lines[i], fence[1])) {
+          code.push(lines[i]);
+          i++;
         }
-      } else {
-        // Process line for special formatting
-        const nodes = this.processLine(line);
-        
-        // Check if this is a special node (heading, list, etc.)
-        if (nodes.length === 1 && ['heading', 'bulletList', 'orderedList'].includes(nodes[0].type)) {
-          // Add special node directly
-          if (currentParagraph) {
-            // Remove trailing newline
-            if (currentParagraph.content!.length > 0) {
-              const lastNode = currentParagraph.content![currentParagraph.content!.length - 1];
-              if (lastNode.type === 'text' && lastNode.text === '\n') {
-                currentParagraph.content!.pop();
-              }
-            }
-            content.push(currentParagraph);
-            currentParagraph = null;
-          }
-          content.push(nodes[0]);
-        } else {
-          // Add to paragraph
-          if (!currentParagraph) {
-            currentParagraph = {
-              type: 'paragraph',
-              content: [],
-            };
-          }
-          
-          currentParagraph.content!.push(...nodes);
-          
-          // Only add newline if not the last line
-          if (i < lines.length - 1) {
-            currentParagraph.content!.push({ type: 'text', text: '\n' });
+        i++;
+        blocks.push(this.codeBlock(code.join('\n'), fence[2]));
+        continue;
+      }
+
+      const panel = line.match(PANEL_OPEN);
+      if (panel && PANEL_TYPES.includes(panel[1].toLowerCase())) {
+        const inner: string[] = [];
+        let depth = 1;
+        i++;
+        while (i < lines.length) {
+          if (PANEL_OPEN.test(lines[i])) {
+            depth++;
+          } else if (PANEL_CLOSE.test(lines[i]) && --depth === 0) {
+            break;
           }
+          inner.push(lines[i]);
+          i++;
         }
+        i++;
+        blocks.push({
+          type: 'panel',
+          attrs: { panelType: panel[1].toLowerCase() },
+          content: this.nonEmpty(this.parseBlocks(inner)),
+        });
+        continue;
       }
-    }
 
-    // Handle unclosed code block
-    if (inCodeBlock && codeBlockContent.length > 0) {
-      content.push({
-        type: 'codeBlock',
-        attrs: {
-          language: codeBlockLanguage || 'plain',
-        },
-        content: [{
-          type: 'text',
-          text: codeBlockContent.join('\n'),
-        }],
-      });
-    }
+      const heading = line.match(HEADING);
+      if (heading) {
+        blocks.push({
+          type: 'heading',
+          attrs: { level: heading[1].length },
+          content: this.parseInline(heading[2]),
+        });
+        i++;
+        continue;
+      }
+
+      if (RULE.test(line)) {
+        blocks.push({ type: 'rule' });
+        i++;
+        continue;
+      }
 
-    // Add remaining paragraph
-    if (currentParagraph) {
-      // Remove trailing newline
-      if (currentParagraph.content!.length > 0) {
-        const lastNode = currentParagraph.content![currentParagraph.content!.length - 1];
-        if (lastNode.type === 'text' && lastNode.text === '\n') {
-          currentParagraph.content!.pop();
+      if (BLOCKQUOTE.test(line)) {
+        const inner: string[] = [];
+        let match: RegExpMatchArray | null;
+        while (i < lines.length && (match = lines[i].match(BLOCKQUOTE))) {
+          inner.push(match[1]);
+          i++;
         }
+        blocks.push({ type: 'blockquote', content: this.nonEmpty(this.parseBlocks(inner)) });
+        continue;
       }
-      content.push(currentParagraph);
+
+      if (line.trim().startsWith('|') && i + 1 < lines.length &&
+          lines[i + 1].includes('|') && TABLE_SEPARATOR.test(lines[i + 1])) {
+        const header = this.splitTableRow(line);
+        const rows: string[][] = [];
+        i += 2;
+        while (i < lines.length && lines[i].trim().startsWith('|')) {
+          rows.push(this.splitTableRow(lines[i]));
+          i++;
+        }
+        blocks.push(this.table(header, rows));
+        continue;
+      }
+
+      if (MEDIA_LINE.test(line)) {
+        const media = Array.from(line.matchAll(IMAGE)).map(m => this.mediaNode(m[1], m[2]));
+        blocks.push(media.length === 1
+          ? { type: 'mediaSingle', attrs: { layout: 'center' }, content: media }
+          : { type: 'mediaGroup', content: media });
+        i++;
+        continue;
+      }
+
+      if (LIST_ITEM.test(line)) {
+        const { node, next } = this.parseList(lines, i);
+        blocks.push(node);
+        i = next;
+        continue;
+      }
+
+      // Every line is its own paragraph, unless it ends in a backslash hard break
+      let paragraph = line.trim();
+      i++;
+      while (this.endsWithHardBreak(paragraph) && i < lines.length && lines[i].trim() !== '') {
+        paragraph += '\n' + lines[i].trim();
+        i++;
+      }
+      blocks.push({ type: 'paragraph', content: this.parseInline(paragraph) });
     }
 
-    return {
-      version: 1,
-      type: 'doc',
-      content: content.length > 0 ? content : [{ type: 'paragraph', content: [] }],
-    };
+    return blocks;
   }
 
-  /**
-   * Process a line for special formatting (headings, lists, inline code, etc.)
-   */
-  private static processLine(line: string): ADFNode[] {
-    const nodes: ADFNode[] = [];
+  private static parseList(lines: string[], start: number): { node: ADFNode; next: number } {
+    const first = lines[start].match(LIST_ITEM)!;
+    const indent = first[1].length;
+    const ordered = /\d/.test(first[2]);
+    const task = !ordered && TASK_ITEM.test(first[4] ?? '');
+    const items: ADFNode[] = [];
+    let i = start;
+
+    while (i < lines.length) {
+      const match = lines[i].match(LIST_ITEM);
+      if (!match || match[1].length !== indent || /\d/.test(match[2]) !== ordered ||
+          (!ordered && TASK_ITEM.test(match[4] ?? '') !== task)) {
+        break;
+      }
+
+      const gap = match[3]?.length ?? 1;
+      const contentColumn = indent + match[2].length + (gap > 4 || !match[4] ? 1 : gap);
+      const itemLines = [match[4] ?? ''];
+      i++;
 
-    // Check for headings
-    const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-    if (headingMatch) {
-      return [{
-        type: 'heading',
-        attrs: {
-          level: headingMatch[1].length,
-        },
-        content: [{
-          type: 'text',
-          text: headingMatch[2],
-        }],
-      }];
-    }
-
-    // Check for bullet points
-    if (line.match(/^[\*\-]\s+/)) {
-      return [{
-        type: 'bulletList',
-        content: [{
-          type: 'listItem',
-          content: [{
-            type: 'paragraph',
-            content: [{
-              type: 'text',
-              text: line.replace(/^[\*\-]\s+/, ''),
-            }],
-          }],
-        }],
-      }];
-    }
-
-    // Check for numbered lists
-    if (line.match(/^\d+\.\s+/)) {
-      return [{
-        type: 'orderedList',
-        content: [{
-          type: 'listItem',
-          content: [{
-            type: 'paragraph',
-            content: [{
-              type: 'text',
-              text: line.replace(/^\d+\.\s+/, ''),
-            }],
-          }],
-        }],
-      }];
-    }
-
-    // Process inline formatting (code, bold, italic)
-    const processedLine = line;
-    let lastIndex = 0;
-    
-    // Process inline code first
-    const codeMatches = Array.from(processedLine.matchAll(/`([^`]+)`/g));
-    
-    for (const match of codeMatches) {
-      if (match.index! > lastIndex) {
-        // Add text before code
-        const textBefore = processedLine.slice(lastIndex, match.index);
-        if (textBefore) {
-          nodes.push(...this.processInlineFormatting(textBefore));
+      while (i < lines.length) {
+        const line = lines[i];
+        if (line.trim() === '') {
+          // A blank line only continues the item if more indented content follows
+          let j = i + 1;
+          while (j < lines.length && lines[j].trim() === '') {
+            j++;
+          }
+          if (j < lines.length && this.leadingSpaces(lines[j]) > indent) {
+            itemLines.push('');
+            i++;
+            continue;
+          }
+          break;
         }
+
+        const spaces = this.leadingSpaces(line);
+        if (spaces <= indent) {
+          break;
+        }
+        itemLines.push(line.slice(Math.min(spaces, contentColumn)));
+        i++;
+      }
+
+      if (task) {
+        items.push(...this.taskItem(itemLines));
+      } else {
+        items.push({ type: 'listItem', content: this.nonEmpty(this.listItemContent(this.parseBlocks(itemLines))) });
       }
-      
-      // Add code
-      nodes.push({
-        type: 'text',
-        text: match[1],
-        marks: [{ type: 'code' }],
-      });
-      
-      lastIndex = match.index! + match[0].length;
     }
-    
-    // Process remaining text
-    if (lastIndex < processedLine.length) {
-      const remainingText = processedLine.slice(lastIndex);
-      nodes.push(...this.processInlineFormatting(remainingText));
+
+    if (task) {
+      return { node: { type: 'taskList', attrs: { localId: randomUUID() }, content: items }, next: i };
     }
 
-    return nodes.length > 0 ? nodes : [{ type: 'text', text: line }];
+    const node: ADFNode = { type: ordered ? 'orderedList' : 'bulletList', content: items };
+    const order = parseInt(first[2], 10);
+    if (ordered && order !== 1) {
+      node.attrs = { order };
+    }
+    return { node, next: i };
   }
 
   /**
-   * Process inline formatting (bold, italic)
+   * A task item holds inline content only; nested task lists become siblings, as in ADF
    */
-  private static processInlineFormatting(text: string): ADFNode[] {
-    const nodes: ADFNode[] = [];
-    
-    // Simple regex for bold and italic
-    // This is a simplified version - a full implementation would need proper parsing
-    const parts = text.split(/(\*\*[^*]+\*\*|\*[^*]+\*)/);
-    
-    for (const part of parts) {
-      if (part.startsWith('**') && part.endsWith('**')) {
-        // Bold
-        nodes.push({
-          type: 'text',
-          text: part.slice(2, -2),
-          marks: [{ type: 'strong' }],
-        });
-      } else if (part.startsWith('*') && part.endsWith('*')) {
-        // Italic
-        nodes.push({
-          type: 'text',
-          text: part.slice(1, -1),
-          marks: [{ type: 'em' }],
-        });
-      } else if (part) {
-        // Plain text
-        nodes.push({
-          type: 'text',
-          text: part,
-        });
+  private static taskItem(itemLines: string[]): ADFNode[] {
+    const match = itemLines[0].match(TASK_ITEM)!;
+    let text = match[2] ?? '';
+    let rest = 1;
+    while (this.endsWithHardBreak(text) && rest < itemLines.length && itemLines[rest].trim() !== '') {
+      text += '\n' + itemLines[rest].trim();
+      rest++;
+    }
+
+    const item: ADFNode = {
+      type: 'taskItem',
+      attrs: { localId: randomUUID(), state: match[1] === ' ' ? 'TODO' : 'DONE' },
+      content: this.parseInline(text),
+    };
+    const nested: ADFNode[] = [];
+
+    for (const block of this.parseBlocks(itemLines.slice(rest))) {
+      if (block.type === 'taskList') {
+        nested.push(block);
+      } else if (block.type === 'paragraph') {
+        item.content!.push({ type: 'hardBreak' }, ...(block.content || []));
+      } else {
+        item.content!.push({ type: 'hardBreak' }, { type: 'text', text: this.serializeBlock(block) });
       }
     }
-    
-    return nodes.length > 0 ? nodes : [{ type: 'text', text }];
+
+    return [item, ...nested];
   }
 
   /**
-   * Convert ADF to plain text
+   * List items cannot hold headings; keep their text as a paragraph
    */
-  static adfToText(adf: ADFDocument | any): string {
-    if (!adf || !adf.content) {
-      return '';
+  private static listItemContent(blocks: ADFNode[]): ADFNode[] {
+    return blocks.map(block => block.type === 'heading' ? { type: 'paragraph', content: block.content } : block);
+  }
+
+  private static table(header: string[], rows: string[][]): ADFNode {
+    const width = Math.max(header.length, ...rows.map(r => r.length));
+    const cell = (type: string, text: string): ADFNode => ({
+      type,
+      attrs: {},
+      content: [{ type: 'paragraph', content: this.parseInline(text) }],
+    });
+    const row = (cells: string[], type: string): ADFNode => ({
+      type: 'tableRow',
+      content: Array.from({ length: width }, (_, k) => cell(type, cells[k] ?? '')),
+    });
+
+    // Markdown tables always have a header row; an empty one stands for a table without headers
+    const content = header.some(c => c !== '') ? [row(header, 'tableHeader')] : [];
+    content.push(...rows.map(r => row(r, 'tableCell')));
+
+    return {
+      type: 'table',
+      attrs: { isNumberColumnEnabled: false, layout: 'default' },
+      content,
+    };
+  }
+
+  private static splitTableRow(line: string): string[] {
+    let row = line.trim();
+    if (row.startsWith('|')) {
+      row = row.slice(1);
+    }
+    if (row.endsWith('|') && !row.endsWith('\\|')) {
+      row = row.slice(0, -1);
+    }
+
+    const cells: string[] = [];
+    let current = '';
+    for (let k = 0; k < row.length; k++) {
+      if (row[k] === '\\' && row[k + 1] === '|') {
+        current += '|';
+        k++;
+      } else if (row[k] === '|') {
+        cells.push(current.trim());
+        current = '';
+      } else {
+        current += row[k];
+      }
     }
+    cells.push(current.trim());
+    return cells;
+  }
+
+  private static mediaNode(alt: string, url: string): ADFNode {
+    let attrs: Record<string, unknown>;
+    const file = url.match(/^media:([^?]+)(?:\?collection=(.*))?$/);
+    if (file) {
+      attrs = { type: 'file', id: file[1], collection: decodeURIComponent(file[2] || '') };
+    } else {
+      attrs = { type: 'external', url };
+    }
+    if (alt) {
+      attrs.alt = alt;
+    }
+    return { type: 'media', attrs };
+  }
+
+  private static codeBlock(code: string, language: string): ADFNode {
+    const node: ADFNode = {
+      type: 'codeBlock',
+      content: code ? [{ type: 'text', text: code }] : [],
+    };
+    if (language) {
+      node.attrs = { language };
+    }
+    return node;
+  }
+
+  private static isClosingFence(line: string, opening: string): boolean {
+    const trimmed = line.trim();
+    return trimmed.length >= opening.length && trimmed === opening[0].repeat(trimmed.length);
+  }
+
+  private static endsWithHardBreak(line: string): boolean {
+    const trailing = line.match(/\\+$/);
+    return trailing !== null && trailing[0].length % 2 === 1;
+  }
+
+  private static leadingSpaces(line: string): number {
+    return line.length - line.trimStart().length;
+  }
 
-    return this.nodesToText(adf.content);
+  private static nonEmpty(blocks: ADFNode[]): ADFNode[] {
+    return blocks.length > 0 ? blocks : [{ type: 'paragraph', content: [] }];
   }
 
-  private static nodesToText(nodes: ADFNode[]): string {
-    let text = '';
+  // ---------------------------------------------------------------------------
+  // Markdown → ADF: inline
+  // ---------------------------------------------------------------------------
+
+  private static parseInline(text: string): ADFNode[] {
+    const tokens = this.tokenizeInline(text);
+    this.resolveDelimiters(tokens);
+
+    const nodes: ADFNode[] = [];
+    for (const token of tokens) {
+      let node: ADFNode;
+      if (token.kind === 'node') {
+        node = token.node;
+      } else if (token.kind === 'text') {
+        node = { type: 'text', text: token.text, marks: token.marks };
+      } else if (token.count > 0) {
+        const literal = token.char === 'u' ? (token.canOpen ? '<u>' : '</u>') : token.char.repeat(token.count);
+        node = { type: 'text', text: literal, marks: token.marks };
+      } else {
+        continue;
+      }
+
+      if (node.type === 'text') {
+        if (!node.text) {
+          continue;
+        }
+        const previous = nodes[nodes.length - 1];
+        if (previous?.type === 'text' && this.sameMarks(previous.marks, node.marks)) {
+          previous.text += node.text;
+          continue;
+        }
+        node = { ...node };
+      }
+      nodes.push(node);
+    }
 
     for (const node of nodes) {
-      switch (node.type) {
-        case 'paragraph':
-          if (node.content) {
-            text += this.nodesToText(node.content);
-          }
-          text += '\n';
-          break;
+      if (node.marks && node.marks.length === 0) {
+        delete node.marks;
+      }
+    }
+    return nodes;
+  }
+
+  private static tokenizeInline(text: string): InlineToken[] {
+    const tokens: InlineToken[] = [];
+    let buffer = '';
+    const flush = () => {
+      if (buffer) {
+        tokens.push({ kind: 'text', text: buffer, marks: [] });
+        buffer = '';
+      }
+    };
+    const pushNode = (node: ADFNode) => {
+      flush();
+      tokens.push({ kind: 'node', node });
+    };
+
+    let i = 0;
+    while (i < text.length) {
+      const ch = text[i];
+      const next = text[i + 1] ?? '';
+
+      if (ch === '\\') {
+        if (next === '\n') {
+          pushNode({ type: 'hardBreak' });
+          i += 2;
+        } else if (next && (ASCII_PUNCTUATION.test(next) || next === '•')) {
+          buffer += next;
+          i += 2;
+        } else {
+          buffer += ch;
+          i++;
+        }
+        continue;
+      }
+
+      if (ch === '\n') {
+        pushNode({ type: 'hardBreak' });
+        i++;
+        continue;
+      }
 
-        case 'heading':
-          if (node.content) {
-            const level = node.attrs?.level || 1;
-            text += '#'.repeat(level) + ' ' + this.nodesToText(node.content);
+      if (ch === '`') {
+        const run = this.runLength(text, i);
+        const close = this.findBacktickRun(text, i + run, run);
+        if (close === -1) {
+          buffer += ch.repeat(run);
+        } else {
+          let code = text.slice(i + run, close);
+          if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim() !== '') {
+            code = code.slice(1, -1);
           }
-          text += '\n';
-          break;
+          pushNode({ type: 'text', text: code, marks: [{ type: 'code' }] });
+          i = close + run;
+        }
+        continue;
+      }
 
-        case 'bulletList':
-        case 'orderedList':
-          if (node.content) {
-            for (const item of node.content) {
-              text += '• ' + this.nodesToText(item.content || []).trim() + '\n';
+      if (ch === '*' || ch === '_' || ch === '~') {
+        const run = this.runLength(text, i);
+        if (ch === '~' && run < 2) {
+          buffer += ch;
+          i++;
+          continue;
+        }
+        const before = text[i - 1] ?? '';
+        const after = text[i + run] ?? '';
+        const space = (c: string) => c === '' || /\s/.test(c);
+        const alnum = (c: string) => /[\p{L}\p{N}]/u.test(c);
+        flush();
+        tokens.push({
+          kind: 'delimiter',
+          char: ch,
+          count: run,
+          canOpen: !space(after) && (ch !== '_' || !alnum(before)),
+          canClose: !space(before) && (ch !== '_' || !alnum(after)),
+          marks: [],
+        });
+        i += run;
+        continue;
+      }
+
+      if (ch === '[') {
+        const link = this.matchLink(text, i);
+        if (link) {
+          const nodes = this.parseInline(link.label);
+          const mark = this.createLink(link.href, link.title);
+          if (nodes.length === 0) {
+            nodes.push({ type: 'text', text: link.href });
+          }
+          for (const node of nodes) {
+            if (node.type === 'text') {
+              node.marks = [mark, ...(node.marks || [])];
             }
+            pushNode(node);
           }
-          break;
+          i = link.end;
+          continue;
+        }
+      }
 
-        case 'listItem':
-          if (node.content) {
-            text += this.nodesToText(node.content);
-          }
-          break;
+      if (ch === '@' && next === '[') {
+        const mention = this.matchAt(MENTION, text, i);
+        if (mention) {
+          pushNode(this.createMention(mention[2], mention[1]));
+          i += mention[0].length;
+          continue;
+        }
+      }
 
-        case 'codeBlock':
-          text += '```' + (node.attrs?.language || '') + '\n';
-          if (node.content) {
-            text += this.nodesToText(node.content);
+      if (ch === '<') {
+        if (text.startsWith('<u>', i) || text.startsWith('</u>', i)) {
+          const opening = next === 'u';
+          flush();
+          tokens.push({ kind: 'delimiter', char: 'u', count: 1, canOpen: opening, canClose: !opening, marks: [] });
+          i += opening ? 3 : 4;
+          continue;
+        }
+        const lineBreak = this.matchAt(LINE_BREAK, text, i);
+        if (lineBreak) {
+          pushNode({ type: 'hardBreak' });
+          i += lineBreak[0].length;
+          continue;
+        }
+        const autolink = this.matchAt(AUTOLINK, text, i);
+        if (autolink) {
+          pushNode({ type: 'inlineCard', attrs: { url: autolink[1] } });
+          i += autolink[0].length;
+          continue;
+        }
+      }
+
+      if (ch === '{') {
+        const status = this.matchAt(STATUS, text, i);
+        if (status) {
+          const color = (status[1] || 'neutral').toLowerCase();
+          pushNode({
+            type: 'status',
+            attrs: { text: status[2], color: STATUS_COLORS.includes(color) ? color : 'neutral' },
+          });
+          i += status[0].length;
+          continue;
+        }
+      }
+
+      if (ch === ':' && !/[\p{L}\p{N}:]/u.test(text[i - 1] ?? '')) {
+        const emoji = this.matchAt(EMOJI, text, i);
+        if (emoji && !/[\p{L}\p{N}]/u.test(text[i + emoji[0].length] ?? '')) {
+          pushNode({ type: 'emoji', attrs: { shortName: emoji[0] } });
+          i += emoji[0].length;
+          continue;
+        }
+      }
+
+      buffer += ch;
+      i++;
+    }
+
+    flush();
+    return tokens;
+  }
+
+  /**
+   * Pair emphasis delimiters the way CommonMark does: each closer takes the nearest
+   * opener of the same kind, and runs like *** can close one mark and open another.
+   */
+  private static resolveDelimiters(tokens: InlineToken[]): void {
+    for (let c = 0; c < tokens.length; c++) {
+      const closer = tokens[c];
+      if (closer.kind !== 'delimiter' || !closer.canClose) {
+        continue;
+      }
+
+      while (closer.count > 0) {
+        let o = c - 1;
+        for (; o >= 0; o--) {
+          const opener = tokens[o];
+          if (opener.kind === 'delimiter' && opener.canOpen && opener.count > 0 && opener.char === closer.char &&
+              (closer.char !== '~' || (opener.count >= 2 && closer.count >= 2))) {
+            break;
           }
-          text += '\n```\n';
+        }
+        if (o < 0) {
           break;
+        }
 
-        case 'text':
-          let textContent = node.text || '';
-          
-          // Apply marks
-          if (node.marks) {
-            for (const mark of node.marks) {
-              switch (mark.type) {
-                case 'code':
-                  textContent = '`' + textContent + '`';
-                  break;
-                case 'strong':
-                  textContent = '**' + textContent + '**';
-                  break;
-                case 'em':
-                  textContent = '*' + textContent + '*';
-                  break;
-              }
-            }
+        const opener = tokens[o] as DelimiterToken;
+        let used = 1;
+        let mark = 'em';
+        if (closer.char === '~') {
+          used = 2;
+          mark = 'strike';
+        } else if (closer.char === 'u') {
+          mark = 'underline';
+        } else if (opener.count >= 2 && closer.count >= 2) {
+          used = 2;
+          mark = 'strong';
+        }
+
+        for (let k = o + 1; k < c; k++) {
+          const token = tokens[k];
+          if (token.kind === 'delimiter') {
+            // Unmatched delimiters inside the span stay literal text
+            token.canOpen = false;
+            token.canClose = false;
           }
-          
-          text += textContent;
-          break;
+          this.addMark(token, { type: mark });
+        }
 
-        case 'mention':
-          text += '@' + (node.attrs?.text || node.attrs?.id || 'user');
-          break;
+        opener.count -= used;
+        closer.count -= used;
+      }
+    }
+  }
 
-        case 'hardBreak':
-          text += '\n';
-          break;
+  private static addMark(token: InlineToken, mark: ADFMark): void {
+    if (token.kind === 'node') {
+      const node = token.node;
+      // Only text carries marks, and code may only be combined with links
+      if (node.type !== 'text' || node.marks?.some(m => m.type === 'code')) {
+        return;
+      }
+      node.marks = node.marks || [];
+      if (!node.marks.some(m => m.type === mark.type)) {
+        node.marks.push(mark);
+      }
+      return;
+    }
 
-        default:
-          // Recursively process unknown nodes
-          if (node.content) {
-            text += this.nodesToText(node.content);
+    if (!token.marks.some(m => m.type === mark.type)) {
+      token.marks.push(mark);
+    }
+  }
+
+  private static matchLink(text: string, start: number): { label: string; href: string; title?: string; end: number } | null {
+    let depth = 1;
+    let i = start + 1;
+    while (i < text.length && depth > 0) {
+      if (text[i] === '\\') {
+        i += 2;
+        continue;
+      }
+      if (text[i] === '`') {
+        const run = this.runLength(text, i);
+        const close = this.findBacktickRun(text, i + run, run);
+        i = close === -1 ? i + run : close + run;
+        continue;
+      }
+      if (text[i] === '[') {
+        depth++;
+      } else if (text[i] === ']') {
+        depth--;
+      }
+      i++;
+    }
+    if (depth !== 0 || text[i] !== '(') {
+      return null;
+    }
+
+    const label = text.slice(start + 1, i - 1);
+    i++;
+
+    let href = '';
+    if (text[i] === '<') {
+      const close = text.indexOf('>', i);
+      if (close === -1) {
+        return null;
+      }
+      href = text.slice(i + 1, close);
+      i = close + 1;
+    } else {
+      let parens = 0;
+      while (i < text.length && !/\s/.test(text[i])) {
+        if (text[i] === '(') {
+          parens++;
+        } else if (text[i] === ')') {
+          if (parens === 0) {
+            break;
           }
+          parens--;
+        }
+        href += text[i];
+        i++;
       }
     }
 
-    return text;
+    let title: string | undefined;
+    const titleMatch = text.slice(i).match(/^\s+"((?:[^"\\]|\\.)*)"/);
+    if (titleMatch) {
+      title = titleMatch[1].replace(/\\(.)/g, '$1');
+      i += titleMatch[0].length;
+    }
+    while (text[i] === ' ') {
+      i++;
+    }
+    if (text[i] !== ')' || !href) {
+      return null;
+    }
+
+    return { label, href, title, end: i + 1 };
+  }
+
+  private static matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+    pattern.lastIndex = index;
+    return pattern.exec(text);
+  }
+
+  private static runLength(text: string, index: number): number {
+    let end = index;
+    while (text[end] === text[index]) {
+      end++;
+    }
+    return end - index;
+  }
+
+  private static findBacktickRun(text: string, from: number, length: number): number {
+    let i = text.indexOf('`', from);
+    while (i !== -1) {
+      const run = this.runLength(text, i);
+      if (run === length) {
+        return i;
+      }
+      i = text.indexOf('`', i + run);
+    }
+    return -1;
+  }
+
+  // ---------------------------------------------------------------------------
+  // ADF → Markdown
+  // ---------------------------------------------------------------------------
+
+  private static serializeBlocks(nodes: ADFNode[], separator = '\n\n'): string {
+    return nodes
+      .map(node => this.serializeBlock(node))
+      .filter(text => text !== '')
+      .join(separator);
+  }
+
+  private static serializeBlock(node: ADFNode): string {
+    switch (node.type) {
+      case 'paragraph':
+        return this.serializeParagraph(node.content || []);
+
+      case 'heading': {
+        const text = this.serializeInline(node.content || []).replace(/\\?\n/g, ' ').trim();
+        return text ? `${'#'.repeat(node.attrs?.level || 1)} ${text}` : '';
+      }
+
+      case 'codeBlock': {
+        const code = (node.content || []).map(n => n.text || '').join('');
+        const longest = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+        const fence = '`'.repeat(longest + 1);
+        return `${fence}${node.attrs?.language || ''}\n${code}\n${fence}`;
+      }
+
+      case 'rule':
+        return '---';
+
+      case 'blockquote':
+        return this.serializeBlocks(node.content || [])
+          .split('\n')
+          .map(line => line ? `> ${line}` : '>')
+          .join('\n');
+
+      case 'panel':
+        return `:::${node.attrs?.panelType || 'info'}\n${this.serializeBlocks(node.content || [])}\n:::`;
+
+      case 'bulletList':
+      case 'orderedList':
+      case 'taskList':
+        return this.serializeList(node);
+
+      case 'table':
+        return this.serializeTable(node);
+
+      case 'mediaSingle':
+      case 'mediaGroup':
+        return (node.content || [])
+          .filter(media => media.type === 'media')
+          .map(media => this.serializeMedia(media))
+          .join(' ');
+
+      case 'expand':
+      case 'nestedExpand': {
+        const title = node.attrs?.title ? `**${this.escapeText(node.attrs.title)}**` : '';
+        return [title, this.serializeBlocks(node.content || [])].filter(Boolean).join('\n\n');
+      }
+
+      case 'blockCard':
+      case 'embedCard':
+        return node.attrs?.url ? `<${node.attrs.url}>` : '';
+
+      default:
+        if (node.content) {
+          return this.serializeBlocks(node.content);
+        }
+        return node.text || node.attrs?.text || '';
+    }
+  }
+
+  private static serializeParagraph(content: ADFNode[]): string {
+    return this.serializeInline(content)
+      .split('\n')
+      .map(line => this.escapeLineStart(line.trim()))
+      .join('\n');
+  }
+
+  private static serializeList(node: ADFNode): string {
+    const lines: string[] = [];
+    let number = node.attrs?.order ?? 1;
+
+    for (const item of node.content || []) {
+      if (item.type !== 'listItem' && item.type !== 'taskItem') {
+        // Nested task lists sit directly inside their parent list
+        lines.push(this.indent(this.serializeBlock(item), 2));
+        continue;
+      }
+
+      let marker = '-';
+      let body: string;
+      if (node.type === 'orderedList') {
+        marker = `${number++}.`;
+      }
+      if (item.type === 'taskItem') {
+        marker = `- [${item.attrs?.state === 'DONE' ? 'x' : ' '}]`;
+        body = this.serializeInline(item.content || [])
+          .split('\n')
+          .map(line => line.trim())
+          .join('\n');
+      } else {
+        body = this.serializeBlocks(item.content || [], '\n');
+      }
+
+      const width = item.type === 'taskItem' ? 2 : marker.length + 1;
+      const [first, ...rest] = body.split('\n');
+      lines.push(`${marker} ${first}`.trimEnd());
+      if (rest.length > 0) {
+        lines.push(this.indent(rest.join('\n'), width));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private static serializeTable(node: ADFNode): string {
+    const rows = (node.content || []).filter(row => row.type === 'tableRow');
+    if (rows.length === 0) {
+      return '';
+    }
+
+    const cells = (row: ADFNode) => (row.content || []).map(cell =>
+      (cell.content || [])
+        .map(block => block.type === 'paragraph'
+          ? this.serializeInline(block.content || [], true)
+          : this.serializeBlock(block).replace(/\|/g, '\\|').replace(/\n/g, '<br>'))
+        .join('<br>')
+        .trim()
+    );
+    const line = (values: string[]) => `| ${values.join(' | ')} |`;
+
+    const width = Math.max(...rows.map(row => (row.content || []).length));
+    const pad = (values: string[]) => [...values, ...Array(width - values.length).fill('')];
+    const hasHeader = (rows[0].content || []).every(cell => cell.type === 'tableHeader');
+
+    const header = hasHeader ? pad(cells(rows[0])) : Array(width).fill('');
+    const body = (hasHeader ? rows.slice(1) : rows).map(row => line(pad(cells(row))));
+
+    return [line(header), line(Array(width).fill('---')), ...body].join('\n');
+  }
+
+  private static serializeMedia(media: ADFNode): string {
+    const attrs = media.attrs || {};
+    const alt = (attrs.alt || '').replace(/[[\]]/g, '');
+    if (attrs.type === 'external') {
+      return `![${alt}](${attrs.url})`;
+    }
+    const collection = attrs.collection ? `?collection=${encodeURIComponent(attrs.collection)}` : '';
+    return `![${alt}](media:${attrs.id}${collection})`;
   }
 
   /**
-   * Create a mention node for a user
+   * Serialize inline nodes, nesting marks so that the longest-running mark is outermost.
+   * Whitespace at the edges of marked text moves outside the delimiters so they stay valid.
    */
-  static createMention(accountId: string, displayName: string): ADFNode {
-    return {
-      type: 'mention',
-      attrs: {
-        id: accountId,
-        text: displayName,
-        userType: 'DEFAULT',
-      },
+  private static serializeInline(content: ADFNode[], inTable = false): string {
+    const nodes = this.normalizeInline(content);
+    const stack: ADFMark[] = [];
+    let output = '';
+    let pendingSpace = '';
+
+    const markedUntil = (mark: ADFMark, from: number) => {
+      let end = from;
+      while (end + 1 < nodes.length && nodes[end + 1].marks?.some(m => this.sameMark(m, mark))) {
+        end++;
+      }
+      return end;
     };
+
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      const isCode = node.type === 'text' && !!node.marks?.some(m => m.type === 'code');
+      const marks = node.type === 'text'
+        ? (node.marks || []).filter(m => MARK_ORDER.includes(m.type))
+        : [];
+
+      const firstStale = stack.findIndex(open => !marks.some(m => this.sameMark(open, m)));
+      if (firstStale !== -1) {
+        while (stack.length > firstStale) {
+          output += this.closeMark(stack.pop()!);
+        }
+      }
+
+      let leading = '';
+      let core = '';
+      let trailing = '';
+      if (node.type === 'text' && !isCode) {
+        const parts = (node.text || '').match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        [, leading, core, trailing] = parts;
+      }
+
+      output += pendingSpace + leading;
+      pendingSpace = '';
+
+      if (node.type === 'text' && !isCode && core === '') {
+        // Whitespace-only text: nothing to wrap in marks
+        pendingSpace = trailing;
+        continue;
+      }
+
+      const opening = marks
+        .filter(m => !stack.some(open => this.sameMark(open, m)))
+        .sort((a, b) => markedUntil(b, i) - markedUntil(a, i) || MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+      for (const mark of opening) {
+        output += this.openMark(mark);
+        stack.push(mark);
+      }
+
+      if (isCode) {
+        output += this.codeSpan(node.text || '', inTable);
+      } else if (node.type === 'text') {
+        output += this.escapeText(core, inTable);
+        pendingSpace = trailing;
+      } else {
+        output += this.serializeInlineNode(node, inTable);
+      }
+    }
+
+    while (stack.length > 0) {
+      output += this.closeMark(stack.pop()!);
+    }
+    return output + pendingSpace;
   }
-}
\ No newline at end of file
+
+  private static serializeInlineNode(node: ADFNode, inTable: boolean): string {
+    const attrs = node.attrs || {};
+    switch (node.type) {
+      case 'hardBreak':
+        return inTable ? '<br>' : '\\\n';
+      case 'lineBreak':
+        // Raw newlines inside text from older documents; each line becomes its own paragraph
+        return inTable ? '<br>' : '\n';
+      case 'mention': {
+        const name = (attrs.text || '').replace(/^@/, '').replace(/[[\]]/g, '');
+        return `@[${name}](accountid:${attrs.id})`;
+      }
+      case 'emoji': {
+        const shortName = attrs.shortName || '';
+        if (/^:[a-zA-Z0-9_+-]+:$/.test(shortName)) {
+          return shortName;
+        }
+        return attrs.text || shortName;
+      }
+      case 'status':
+        return `{status:${attrs.color || 'neutral'}}${attrs.text || ''}{status}`;
+      case 'inlineCard':
+        return attrs.url ? `<${attrs.url}>` : '';
+      case 'date':
+        return attrs.timestamp ? new Date(Number(attrs.timestamp)).toISOString().slice(0, 10) : '';
+      default:
+        if (node.content) {
+          return this.serializeInline(node.content, inTable);
+        }
+        return this.escapeText(attrs.text || node.text || '', inTable);
+    }
+  }
+
+  /**
+   * Split raw newlines out of text and merge neighbouring text with identical marks
+   */
+  private static normalizeInline(content: ADFNode[]): ADFNode[] {
+    const nodes: ADFNode[] = [];
+
+    for (const node of content) {
+      const parts = node.type === 'text' ? (node.text || '').split('\n') : [null];
+      parts.forEach((part, index) => {
+        if (index > 0) {
+          nodes.push({ type: 'lineBreak' });
+        }
+        if (part === null) {
+          nodes.push(node);
+          return;
+        }
+        if (!part) {
+          return;
+        }
+        const previous = nodes[nodes.length - 1];
+        if (previous?.type === 'text' && this.sameMarks(previous.marks, node.marks)) {
+          previous.text += part;
+        } else {
+          nodes.push({ ...node, text: part });
+        }
+      });
+    }
+
+    return nodes;
+  }
+
+  private static openMark(mark: ADFMark): string {
+    switch (mark.type) {
+      case 'link': return '[';
+      case 'strong': return '**';
+      case 'em': return '*';
+      case 'strike': return '~~';
+      case 'underline': return '<u>';
+      default: return '';
+    }
+  }
+
+  private static closeMark(mark: ADFMark): string {
+    switch (mark.type) {
+      case 'link': {
+        const href: string = mark.attrs?.href || '';
+        const destination = /[\s()<>]/.test(href) ? `<${href}>` : href;
+        const title = mark.attrs?.title ? ` "${mark.attrs.title.replace(/["\\]/g, '\\$&')}"` : '';
+        return `](${destination}${title})`;
+      }
+      case 'strong': return '**';
+      case 'em': return '*';
+      case 'strike': return '~~';
+      case 'underline': return '</u>';
+      default: return '';
+    }
+  }
+
+  private static codeSpan(code: string, inTable: boolean): string {
+    const text = inTable ? code.replace(/\|/g, '\\|') : code;
+    const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    const pad = text.startsWith('`') || text.endsWith('`') ||
+      (text.length > 1 && text.startsWith(' ') && text.endsWith(' ') && text.trim() !== '') ? ' ' : '';
+    return `${fence}${pad}${text}${pad}${fence}`;
+  }
+
+  /**
+   * Backslash-escape characters that would otherwise be read back as Markdown syntax
+   */
+  private static escapeText(text: string, inTable = false): string {
+    let output = '';
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      const before = text[i - 1] ?? '';
+      const after = text[i + 1] ?? '';
+      let escape = false;
+
+      switch (ch) {
+        case '\\':
+          escape = after === '' || after === '•' || ASCII_PUNCTUATION.test(after);
+          break;
+        case '`':
+        case '[':
+        case ']':
+          escape = true;
+          break;
+        case '*':
+          escape = !(/\s/.test(before) && /\s/.test(after));
+          break;
+        case '_':
+          escape = !(/[\p{L}\p{N}]/u.test(before) && /[\p{L}\p{N}]/u.test(after));
+          break;
+        case '~':
+          escape = before === '~' || after === '~' || before === '' || after === '';
+          break;
+        case '<':
+          escape = /^<(\/?u>|br\s*\/?>|(https?|mailto):)/i.test(text.slice(i, i + 16));
+          break;
+        case '{':
+          escape = text.startsWith('status', i + 1);
+          break;
+        case ':':
+          escape = !/[\p{L}\p{N}:]/u.test(before) && /^:[a-zA-Z0-9_+-]+:/.test(text.slice(i, i + 64));
+          break;
+        case '|':
+          escape = inTable;
+          break;
+      }
+
+      output += escape ? `\\${ch}` : ch;
+    }
+
+    return output;
+  }
+
+  /**
+   * Escape a paragraph line that would otherwise start a heading, list, quote, table, panel or rule
+   */
+  private static escapeLineStart(line: string): string {
+    if (/^(#{1,6}|[-+•])(\s|$)/.test(line) || /^(>|\||:::)/.test(line) || /^-(\s*-){2,}\s*$/.test(line) ||
+        MEDIA_LINE.test(line)) {
+      return `\\${line}`;
+    }
+    return line.replace(/^(\d{1,9})([.)])(\s|$)/, '$1\\$2$3');
+  }
+
+  private static indent(text: string, width: number): string {
+    const padding = ' '.repeat(width);
+    return text.split('\n').map(line => line ? padding + line : line).join('\n');
+  }
+
+  private static sameMark(a: ADFMark, b: ADFMark): boolean {
+    return a.type === b.type && JSON.stringify(a.attrs || {}) === JSON.stringify(b.attrs || {});
+  }
+
+  private static sameMarks(a: ADFMark[] = [], b: ADFMark[] = []): boolean {
+    return a.length === b.length && a.every(mark => b.some(other => this.sameMark(mark, other)));
+  }
+}
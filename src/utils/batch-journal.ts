@@ -0,0 +1,184 @@
+import { homedir } from 'os';
+import { resolve, dirname } from 'path';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { Logger } from './logger.js';
+
+export type JournalStatus = 'pending' | 'done' | 'failed';
+
+export interface JournalEntry {
+  // 1-based position in the input
+  row: number;
+  // What the row stands for: a fingerprint of the input row, or an issue key
+  id: string;
+  summary: string;
+  status: JournalStatus;
+  key?: string;
+  error?: string;
+}
+
+export interface JournalData {
+  version: 1;
+  operation: string;
+  // Input file or JQL query the batch ran over
+  source: string;
+  startedAt: string;
+  updatedAt: string;
+  entries: JournalEntry[];
+}
+
+/**
+ * Record of a batch run, written after every row so an interrupted run can be
+ * resumed with --resume without redoing the rows that already succeeded.
+ */
+export class BatchJournal {
+  private data: JournalData;
+  readonly path: string;
+
+  private constructor(path: string, data: JournalData) {
+    this.path = path;
+    this.data = data;
+  }
+
+  /**
+   * Journal location; JIRA_JOURNAL_DIR overrides the default ~/.jira-cli/journals
+   */
+  static defaultDir(): string {
+    return process.env.JIRA_JOURNAL_DIR || resolve(homedir(), '.jira-cli', 'journals');
+  }
+
+  static defaultPath(operation: string): string {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return resolve(BatchJournal.defaultDir(), `${operation.replace(/[^a-zA-Z0-9_-]/g, '-')}-${stamp}.json`);
+  }
+
+  /**
+   * Stable id for an input row, so a resumed run can tell the input hasn't changed
+   */
+  static fingerprint(value: unknown): string {
+    return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Start a journal with every row pending
+   */
+  static start(
+    operation: string,
+    source: string,
+    rows: Array<{ id: string; summary: string }>,
+    path: string = BatchJournal.defaultPath(operation)
+  ): BatchJournal {
+    const now = new Date().toISOString();
+    const journal = new BatchJournal(resolve(path), {
+      version: 1,
+      operation,
+      source,
+      startedAt: now,
+      updatedAt: now,
+      entries: rows.map((row, index) => ({ row: index + 1, id: row.id, summary: row.summary, status: 'pending' })),
+    });
+    journal.save();
+    return journal;
+  }
+
+  /**
+   * Open a journal to resume it. When the input rows are given they must be the
+   * ones the journal was written for, in the same order.
+   */
+  static resume(path: string, operation: string, ids?: string[]): BatchJournal {
+    const fullPath = resolve(path);
+    if (!existsSync(fullPath)) {
+      throw new Error(`Journal not found: ${path}`);
+    }
+
+    let data: JournalData;
+    try {
+      data = JSON.parse(readFileSync(fullPath, 'utf-8'));
+    } catch {
+      throw new Error(`Journal ${path} is not valid JSON`);
+    }
+    if (data.version !== 1 || !Array.isArray(data.entries)) {
+      throw new Error(`${path} is not a batch journal`);
+    }
+    if (data.operation !== operation) {
+      throw new Error(`Journal ${path} was written by "jira ${data.operation}", not "jira ${operation}"`);
+    }
+
+    if (ids) {
+      if (ids.length !== data.entries.length) {
+        throw new Error(`The input has ${ids.length} rows but the journal has ${data.entries.length}. Resume with the same file and options as the original run.`);
+      }
+      const changed = data.entries.find((entry, index) => entry.id !== ids[index]);
+      if (changed) {
+        throw new Error(`Row ${changed.row} ("${changed.summary}") differs from the journal. Resume with the same file and options as the original run.`);
+      }
+    }
+
+    return new BatchJournal(fullPath, data);
+  }
+
+  get operation(): string {
+    return this.data.operation;
+  }
+
+  get source(): string {
+    return this.data.source;
+  }
+
+  get startedAt(): Date {
+    return new Date(this.data.startedAt);
+  }
+
+  get entries(): readonly JournalEntry[] {
+    return this.data.entries;
+  }
+
+  /**
+   * Rows still to do: never finished, or failed
+   */
+  remaining(): JournalEntry[] {
+    return this.data.entries.filter(entry => entry.status !== 'done');
+  }
+
+  record(row: number, update: { status: JournalStatus; key?: string; error?: string }): void {
+    const entry = this.data.entries[row - 1];
+    if (!entry) {
+      throw new Error(`Row ${row} is not in the journal`);
+    }
+    entry.status = update.status;
+    entry.key = update.key ?? entry.key;
+    entry.error = update.status === 'failed' ? update.error : undefined;
+    this.save();
+  }
+
+  save(): void {
+    this.data.updatedAt = new Date().toISOString();
+    mkdirSync(dirname(this.path), { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a truncated journal
+    const tmpPath = `${this.path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(this.data, null, 2));
+    renameSync(tmpPath, this.path);
+  }
+
+  /**
+   * Run the batch; on Ctrl-C, say how to pick up where it stopped before exiting.
+   * Every finished row is already on disk by then.
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    const onInterrupt = () => {
+      Logger.warning(`\nInterrupted. ${this.resumeHint()}`);
+      process.exit(130);
+    };
+    process.once('SIGINT', onInterrupt);
+    try {
+      return await task();
+    } finally {
+      process.off('SIGINT', onInterrupt);
+    }
+  }
+
+  resumeHint(): string {
+    return `Re-run the same command with --resume ${this.path} to retry the rows that did not finish.`;
+  }
+}
@@ -73,6 +73,14 @@ export class CSVParser {
       }
     }
 
+    // "Field: Team" columns set any other field by name or ID
+    for (const [column, value] of Object.entries(record)) {
+      const match = column.match(/^field\s*:\s*(.+)$/i);
+      if (match && value !== null && value !== undefined && value !== '') {
+        issue.fields = { ...issue.fields, [match[1].trim()]: String(value) };
+      }
+    }
+
     return issue;
   }
 
@@ -37,7 +37,24 @@ export interface JsonSuccess<T = any> {
 
 export type JsonResponse<T = any> = JsonSuccess<T> | JsonError;
 
+/**
+ * An error carrying data for the JSON error's details, e.g. which fields a
+ * transition still needs
+ */
+export class DetailedError extends Error {
+  constructor(message: string, readonly details: Record<string, unknown>) {
+    super(message);
+  }
+}
+
 export class ErrorHandler {
+  /**
+   * HTTP status of a failed Jira request; undefined for any other error
+   */
+  static statusOf(error: unknown): number | undefined {
+    return (error as { response?: { statusCode?: number } } | null)?.response?.statusCode;
+  }
+
   static handle(error: any): never {
     Logger.stopSpinner(false);
 
@@ -103,6 +120,11 @@ export class ErrorHandler {
       message = error.message || message;
     }
 
+    // Set by commands, e.g. how far a multi-step operation got before failing
+    if (error.details && typeof error.details === 'object') {
+      Object.assign(details, error.details);
+    }
+
     if (Logger.isJsonMode()) {
       const response: JsonError = {
         ok: false,
@@ -0,0 +1,58 @@
+import { STORY_POINT_FIELDS, EPIC_LINK_FIELDS } from '../constants.js';
+
+/**
+ * Field IDs named in the "fieldAliases" map of .jirarc.json. The well-known
+ * names storyPoints and epicLink replace the guessed candidate field IDs; any
+ * alias can also be used as a --field name.
+ *
+ * Each client keeps the ones from its config; pass its story point fields on
+ * to formatters so they read the same fields the client writes to.
+ */
+export class FieldAliases {
+  private readonly aliases: Record<string, string> = {};
+
+  constructor(aliases: Record<string, string> = {}) {
+    for (const [name, fieldId] of Object.entries(aliases)) {
+      if (typeof fieldId === 'string' && fieldId.trim()) {
+        this.aliases[name.toLowerCase()] = fieldId.trim();
+      }
+    }
+  }
+
+  /**
+   * Field ID an alias points to (aliases are matched ignoring case)
+   */
+  get(name: string): string | undefined {
+    return this.aliases[name.toLowerCase()];
+  }
+
+  /**
+   * Aliases pointing to a field ID
+   */
+  namesFor(fieldId: string): string[] {
+    return Object.entries(this.aliases).filter(([, id]) => id === fieldId).map(([name]) => name);
+  }
+
+  /**
+   * Where story points live: the configured field, or the usual candidates in order
+   */
+  storyPointFields(): string[] {
+    const alias = this.get('storyPoints');
+    return alias ? [alias] : [...STORY_POINT_FIELDS];
+  }
+
+  /**
+   * Where the Epic Link lives: the configured field, or the usual candidates in order
+   */
+  epicLinkFields(): string[] {
+    const alias = this.get('epicLink');
+    return alias ? [alias] : [...EPIC_LINK_FIELDS];
+  }
+
+  /**
+   * Swap aliased names in --field assignments for their field IDs
+   */
+  expand(values: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(values).map(([name, value]) => [this.get(name) ?? name, value]));
+  }
+}
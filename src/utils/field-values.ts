@@ -0,0 +1,213 @@
+import { JiraAllowedValue } from '../types/jira.js';
+
+/**
+ * A field as described by create or edit metadata
+ */
+export interface FieldMeta {
+  fieldId: string;
+  name: string;
+  required?: boolean;
+  hasDefaultValue?: boolean;
+  schema?: {
+    type: string;
+    items?: string;
+    system?: string;
+    custom?: string;
+  };
+  allowedValues?: JiraAllowedValue[];
+}
+
+/**
+ * Lookups coercion needs from the client
+ */
+export interface FieldValueContext {
+  // Reference to put in a user field, or null when nobody matches
+  findUser(query: string): Promise<Record<string, string> | null>;
+  // Rich text in the format the API expects (ADF or wiki markup)
+  toRichText(text: string): Promise<unknown>;
+}
+
+/**
+ * Turns `--field "Team=Platform"` style assignments into REST field values,
+ * using the field's schema to pick the shape Jira expects
+ */
+export class FieldValues {
+  /**
+   * Commander argument parser for a repeatable --field option
+   */
+  static collect(value: string, previous: string[] = []): string[] {
+    return [...previous, value];
+  }
+
+  /**
+   * Parse repeated name=value options; the name may be a display name or a field ID
+   */
+  static parse(assignments: string[] = []): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const assignment of assignments) {
+      const separator = assignment.indexOf('=');
+      const name = assignment.slice(0, separator).trim();
+      if (separator < 1 || !name) {
+        throw new Error(`Invalid --field "${assignment}". Use --field "Name=value" or --field customfield_10050=value.`);
+      }
+      if (name in fields) {
+        throw new Error(`Field "${name}" is given more than once. Separate multiple values with commas.`);
+      }
+      fields[name] = assignment.slice(separator + 1).trim();
+    }
+    return fields;
+  }
+
+  /**
+   * Resolve names against the screen's fields and coerce each value
+   * @param screen Describes where the fields were looked up, for error messages
+   */
+  static async resolve(
+    values: Record<string, string>,
+    fields: FieldMeta[],
+    context: FieldValueContext,
+    screen: string
+  ): Promise<Record<string, unknown>> {
+    const resolved: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(values)) {
+      const field = this.find(name, fields, screen);
+      resolved[field.fieldId] = await this.coerce(field, String(value), context);
+    }
+    return resolved;
+  }
+
+  /**
+   * Find a field by ID, or by display name ignoring case
+   */
+  static find(name: string, fields: FieldMeta[], screen: string): FieldMeta {
+    const byId = fields.find(field => field.fieldId === name);
+    if (byId) {
+      return byId;
+    }
+
+    const byName = fields.filter(field => field.name.toLowerCase() === name.toLowerCase());
+    if (byName.length === 1) {
+      return byName[0];
+    }
+    if (byName.length > 1) {
+      throw new Error(`Several fields are named "${name}" (${byName.map(f => f.fieldId).join(', ')}). Use the field ID instead.`);
+    }
+
+    const suggestion = this.closest(name, fields.map(field => field.name));
+    throw new Error(`Unknown field "${name}" for ${screen}.${suggestion ? ` Did you mean "${suggestion}"?` : ''} Only fields on the screen can be set.`);
+  }
+
+  /**
+   * Shape a value for the field's schema type
+   */
+  static async coerce(field: FieldMeta, raw: string, context: FieldValueContext): Promise<unknown> {
+    const type = field.schema?.type || 'string';
+
+    if (raw === '') {
+      return type === 'array' ? [] : null;
+    }
+
+    switch (type) {
+      case 'string':
+        return field.schema?.custom?.endsWith(':textarea') ? context.toRichText(raw) : raw;
+      case 'number': {
+        const number = Number(raw);
+        if (isNaN(number)) {
+          throw new Error(`${field.name} expects a number, got "${raw}"`);
+        }
+        return number;
+      }
+      case 'date':
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(raw) || isNaN(Date.parse(raw))) {
+          throw new Error(`${field.name} expects a date as YYYY-MM-DD, got "${raw}"`);
+        }
+        return raw;
+      case 'datetime': {
+        const date = new Date(raw);
+        if (isNaN(date.getTime())) {
+          throw new Error(`${field.name} expects a date and time (e.g. 2024-05-01T09:00), got "${raw}"`);
+        }
+        return date.toISOString().replace('Z', '+0000');
+      }
+      case 'option':
+        return { id: this.allowedValue(field, raw).id };
+      case 'option-with-child': {
+        const [parentName, childName] = raw.split('>').map(part => part.trim());
+        const parent = this.allowedValue(field, parentName);
+        if (!childName) {
+          return { id: parent.id };
+        }
+        const child = this.allowedValue({ ...field, name: `${field.name} > ${parentName}`, allowedValues: parent.children }, childName);
+        return { id: parent.id, child: { id: child.id } };
+      }
+      case 'user':
+        return this.user(field, raw, context);
+      case 'priority':
+      case 'resolution':
+      case 'version':
+      case 'component':
+        return this.named(field, raw);
+      case 'project':
+        return { key: raw };
+      case 'array': {
+        const items = raw.split(',').map(item => item.trim()).filter(Boolean);
+        return Promise.all(items.map(item => this.coerce({ ...field, schema: { type: field.schema?.items || 'string' } }, item, context)));
+      }
+      default:
+        return raw;
+    }
+  }
+
+  private static async user(field: FieldMeta, raw: string, context: FieldValueContext): Promise<Record<string, string>> {
+    const user = await context.findUser(raw);
+    if (!user) {
+      throw new Error(`No user found for "${raw}" in ${field.name}`);
+    }
+    return user;
+  }
+
+  /**
+   * Priorities, resolutions, versions and components: by ID when the screen lists them, otherwise by name
+   */
+  private static named(field: FieldMeta, raw: string): { id: string } | { name: string } {
+    return field.allowedValues?.length ? { id: this.allowedValue(field, raw).id } : { name: raw };
+  }
+
+  private static allowedValue(field: FieldMeta, raw: string): JiraAllowedValue {
+    const allowed = field.allowedValues || [];
+    const match = allowed.find(option => option.id === raw)
+      || allowed.find(option => (option.value ?? option.name)?.toLowerCase() === raw.toLowerCase());
+    if (!match) {
+      const names = allowed.map(option => option.value ?? option.name).filter(Boolean);
+      throw new Error(`"${raw}" is not an allowed value for ${field.name}.${names.length ? ` Allowed: ${names.join(', ')}` : ''}`);
+    }
+    return match;
+  }
+
+  /**
+   * Nearest name by edit distance, if it's close enough to be a typo
+   */
+  private static closest(name: string, candidates: string[]): string | undefined {
+    const target = name.toLowerCase();
+    let best: { name: string; distance: number } | undefined;
+    for (const candidate of candidates) {
+      const distance = this.distance(target, candidate.toLowerCase());
+      if (!best || distance < best.distance) {
+        best = { name: candidate, distance };
+      }
+    }
+    return best && best.distance <= Math.max(2, Math.floor(target.length / 3)) ? best.name : undefined;
+  }
+
+  private static distance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+}
@@ -0,0 +1,48 @@
+import { CoreClient } from '../clients/core.js';
+import { JiraFilter } from '../types/jira.js';
+
+export interface ResolvedFilter {
+  name: string;
+  jql: string;
+  source: 'local' | 'jira';
+  id?: string;
+}
+
+/**
+ * Resolve a --filter value to JQL. Local filters from .jirarc.json win over
+ * Jira filters; a numeric value is looked up as a Jira filter ID, anything
+ * else is matched against the user's favourite filters by name.
+ */
+export class FilterResolver {
+  static async resolve(nameOrId: string, saved: Record<string, string> | undefined, client: CoreClient): Promise<ResolvedFilter> {
+    const local = saved?.[nameOrId];
+    if (local) {
+      return { name: nameOrId, jql: local, source: 'local' };
+    }
+
+    if (/^\d+$/.test(nameOrId)) {
+      const filter = await client.getFilter(nameOrId);
+      return this.fromJira(filter);
+    }
+
+    const favourites = await client.getFavouriteFilters();
+    const matches = favourites.filter(f => f.name.toLowerCase() === nameOrId.toLowerCase());
+    if (matches.length > 1) {
+      const ids = matches.map(f => f.id).join(', ');
+      throw new Error(`Several favourite filters are named "${nameOrId}" (IDs ${ids}). Use the filter ID instead.`);
+    }
+    if (matches.length === 1) {
+      return this.fromJira(matches[0]);
+    }
+
+    const available = [
+      ...Object.keys(saved || {}),
+      ...favourites.map(f => `${f.name} (${f.id})`),
+    ];
+    throw new Error(`Filter "${nameOrId}" not found. Available filters: ${available.join(', ') || 'none'}. Save one with "jira filter save <name> --jql <query>".`);
+  }
+
+  private static fromJira(filter: JiraFilter): ResolvedFilter {
+    return { name: filter.name, jql: filter.jql, source: 'jira', id: filter.id };
+  }
+}
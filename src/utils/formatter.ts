@@ -1,14 +1,70 @@
 import Table from 'cli-table3';
 import chalk from 'chalk';
-import { JiraIssue } from '../types/jira.js';
+import { JiraIssue, JiraChangelogHistory, JiraWorklog, JiraAttachment, JiraFilter } from '../types/jira.js';
 import { ADFBuilder } from './adf.js';
+import { TimeParser } from './time-parser.js';
 import { STORY_POINT_FIELDS } from '../constants.js';
 
+export interface HistoryEntry {
+  id: string;
+  created: string;
+  author: string;
+  authorAccountId?: string;
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface HistoryFilter {
+  fields?: string[];
+  author?: string;
+  since?: Date;
+}
+
+export interface WorklogEntry {
+  issueKey: string;
+  id: string;
+  author: string;
+  authorAccountId?: string;
+  started: string;
+  timeSpentSeconds: number;
+  comment: string;
+}
+
+export interface WorklogSummary {
+  totalSeconds: number;
+  byUser: Record<string, number>;
+  byDay: Record<string, number>;
+}
+
+export interface IssueTreeRollup {
+  issues: number;
+  done: number;
+  storyPoints: number;
+  doneStoryPoints: number;
+  // By story points when the subtree has any, otherwise by issue count
+  percentDone: number;
+}
+
+export interface IssueTreeNode {
+  key: string;
+  summary: string;
+  type: string;
+  status: string;
+  statusCategory: string;
+  assignee: string | null;
+  storyPoints: number | null;
+  // The issue itself and everything below it
+  rollup: IssueTreeRollup;
+  children: IssueTreeNode[];
+}
+
 export class Formatter {
   /**
    * Format issues as a table
+   * @param storyPointFields Where story points live, e.g. the client's fieldAliases.storyPointFields()
    */
-  static formatIssuesTable(issues: JiraIssue[]): string {
+  static formatIssuesTable(issues: JiraIssue[], storyPointFields: readonly string[] = STORY_POINT_FIELDS): string {
     if (issues.length === 0) {
       return 'No issues found';
     }
@@ -30,7 +86,7 @@ export class Formatter {
         fields.issuetype?.name || '-',
         this.formatStatus(fields.status),
         this.formatPriority(fields.priority),
-        this.formatStoryPoints(fields),
+        this.formatStoryPoints(fields, storyPointFields),
         this.truncate(fields.summary, 33),
         fields.assignee?.displayName || 'Unassigned',
       ]);
@@ -42,7 +98,7 @@ export class Formatter {
   /**
    * Format a single issue for detailed view
    */
-  static formatIssueDetail(issue: JiraIssue): string {
+  static formatIssueDetail(issue: JiraIssue, storyPointFields: readonly string[] = STORY_POINT_FIELDS): string {
     const fields = issue.fields;
     const lines: string[] = [];
 
@@ -53,7 +109,7 @@ export class Formatter {
     lines.push(`${chalk.bold('Status:')} ${this.formatStatus(fields.status)}`);
     lines.push(`${chalk.bold('Priority:')} ${this.formatPriority(fields.priority)}`);
     
-    const storyPoints = this.getStoryPoints(fields);
+    const storyPoints = this.getStoryPoints(fields, storyPointFields);
     if (storyPoints !== null) {
       lines.push(`${chalk.bold('Story Points:')} ${storyPoints}`);
     }
@@ -108,6 +164,353 @@ export class Formatter {
     return lines.join('\n');
   }
 
+  /**
+   * Flatten changelog histories into one entry per changed field, oldest first
+   */
+  static extractHistory(histories: JiraChangelogHistory[], filter: HistoryFilter = {}): HistoryEntry[] {
+    const entries: HistoryEntry[] = [];
+    const fields = filter.fields?.map(f => f.toLowerCase());
+    const author = filter.author?.toLowerCase();
+
+    for (const history of histories || []) {
+      if (filter.since && new Date(history.created).getTime() < filter.since.getTime()) {
+        continue;
+      }
+
+      if (author) {
+        const candidates = [
+          history.author?.displayName,
+          history.author?.emailAddress,
+          history.author?.accountId,
+        ].filter(Boolean).map(c => c!.toLowerCase());
+        if (!candidates.some(c => c.includes(author))) {
+          continue;
+        }
+      }
+
+      for (const item of history.items || []) {
+        if (fields && !fields.includes(item.field.toLowerCase()) && !fields.includes((item.fieldId || '').toLowerCase())) {
+          continue;
+        }
+
+        entries.push({
+          id: history.id,
+          created: history.created,
+          author: history.author?.displayName || 'Unknown',
+          authorAccountId: history.author?.accountId,
+          field: item.field,
+          from: item.fromString ?? item.from,
+          // toString is always sent by Jira, but guard against the inherited Object method
+          to: typeof item.toString === 'string' ? item.toString : item.to,
+        });
+      }
+    }
+
+    return entries.sort((a, b) => new Date(a.created).getTime() - new Date(b.created).getTime());
+  }
+
+  /**
+   * Format history entries as a table
+   */
+  static formatHistory(entries: HistoryEntry[]): string {
+    if (!entries || entries.length === 0) {
+      return 'No history';
+    }
+
+    const table = new Table({
+      head: ['When', 'Author', 'Field', 'From', 'To'],
+      colWidths: [20, 18, 15, 25, 25],
+      wordWrap: true,
+      style: {
+        head: ['cyan'],
+      },
+    });
+
+    for (const entry of entries) {
+      table.push([
+        new Date(entry.created).toLocaleString(),
+        entry.author,
+        chalk.bold(entry.field),
+        chalk.gray(this.truncate(entry.from || '-', 60)),
+        this.truncate(entry.to || '-', 60),
+      ]);
+    }
+
+    return table.toString();
+  }
+
+  /**
+   * Format attachments as a table
+   */
+  static formatAttachments(attachments: JiraAttachment[]): string {
+    if (!attachments || attachments.length === 0) {
+      return 'No attachments';
+    }
+
+    const table = new Table({
+      head: ['ID', 'Filename', 'Size', 'Author', 'Created'],
+      colWidths: [10, 35, 10, 18, 20],
+      wordWrap: true,
+      style: {
+        head: ['cyan'],
+      },
+    });
+
+    for (const attachment of attachments) {
+      table.push([
+        attachment.id,
+        chalk.bold(attachment.filename),
+        this.formatFileSize(attachment.size),
+        attachment.author?.displayName || '-',
+        new Date(attachment.created).toLocaleString(),
+      ]);
+    }
+
+    return table.toString();
+  }
+
+  /**
+   * Attachment metadata for JSON output
+   */
+  static formatAttachmentsJson(attachments: JiraAttachment[]) {
+    return (attachments || []).map(attachment => ({
+      id: attachment.id,
+      filename: attachment.filename,
+      size: attachment.size,
+      mimeType: attachment.mimeType,
+      author: attachment.author?.displayName,
+      created: attachment.created,
+      url: attachment.content,
+    }));
+  }
+
+  /**
+   * Human-readable file size (e.g. 12.3 KB)
+   */
+  static formatFileSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+      size /= 1024;
+      unit++;
+    }
+    return unit === 0 ? `${size} B` : `${size.toFixed(1)} ${units[unit]}`;
+  }
+
+  /**
+   * Table of saved local filters followed by the user's favourite Jira filters
+   */
+  static formatFilters(saved: Record<string, string>, favourites: JiraFilter[]): string {
+    const names = Object.keys(saved);
+    if (names.length === 0 && favourites.length === 0) {
+      return 'No saved or favourite filters';
+    }
+
+    const table = new Table({
+      head: ['Name', 'Source', 'JQL'],
+      colWidths: [25, 14, 70],
+      wordWrap: true,
+      style: {
+        head: ['cyan'],
+      },
+    });
+
+    for (const name of names) {
+      table.push([chalk.bold(name), '.jirarc.json', saved[name]]);
+    }
+    for (const filter of favourites) {
+      table.push([chalk.bold(filter.name), `Jira #${filter.id}`, filter.jql]);
+    }
+
+    return table.toString();
+  }
+
+  /**
+   * Flatten an issue's worklogs into entries, applying the same author/since filters as history
+   */
+  static extractWorklogs(issueKey: string, worklogs: JiraWorklog[], filter: HistoryFilter = {}): WorklogEntry[] {
+    const author = filter.author?.toLowerCase();
+
+    return (worklogs || [])
+      .filter(worklog => {
+        if (filter.since && new Date(worklog.started).getTime() < filter.since.getTime()) {
+          return false;
+        }
+        if (author) {
+          const candidates = [
+            worklog.author?.displayName,
+            worklog.author?.emailAddress,
+            worklog.author?.accountId,
+          ].filter(Boolean).map(c => c!.toLowerCase());
+          return candidates.some(c => c.includes(author));
+        }
+        return true;
+      })
+      .map(worklog => ({
+        issueKey,
+        id: worklog.id,
+        author: worklog.author?.displayName || 'Unknown',
+        authorAccountId: worklog.author?.accountId,
+        started: worklog.started,
+        timeSpentSeconds: worklog.timeSpentSeconds,
+        comment: worklog.comment ? ADFBuilder.adfToText(worklog.comment).trim() : '',
+      }));
+  }
+
+  /**
+   * Total logged time per user and per local calendar day
+   */
+  static summarizeWorklogs(entries: WorklogEntry[]): WorklogSummary {
+    const summary: WorklogSummary = { totalSeconds: 0, byUser: {}, byDay: {} };
+
+    for (const entry of entries) {
+      const day = TimeParser.formatDay(new Date(entry.started));
+      summary.totalSeconds += entry.timeSpentSeconds;
+      summary.byUser[entry.author] = (summary.byUser[entry.author] || 0) + entry.timeSpentSeconds;
+      summary.byDay[day] = (summary.byDay[day] || 0) + entry.timeSpentSeconds;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Format worklog entries as a table, oldest first
+   */
+  static formatWorklogs(entries: WorklogEntry[]): string {
+    if (!entries || entries.length === 0) {
+      return 'No worklogs';
+    }
+
+    const table = new Table({
+      head: ['ID', 'Issue', 'Started', 'Author', 'Time', 'Comment'],
+      colWidths: [10, 12, 20, 18, 10, 35],
+      wordWrap: true,
+      style: {
+        head: ['cyan'],
+      },
+    });
+
+    const sorted = [...entries].sort((a, b) => new Date(a.started).getTime() - new Date(b.started).getTime());
+    for (const entry of sorted) {
+      table.push([
+        entry.id,
+        entry.issueKey,
+        new Date(entry.started).toLocaleString(),
+        entry.author,
+        chalk.bold(TimeParser.formatDuration(entry.timeSpentSeconds)),
+        chalk.gray(this.truncate(entry.comment || '-', 100)),
+      ]);
+    }
+
+    return table.toString();
+  }
+
+  /**
+   * Format per-user and per-day totals as two small tables
+   */
+  static formatWorklogSummary(summary: WorklogSummary): string {
+    const byUser = new Table({
+      head: ['User', 'Time'],
+      style: { head: ['cyan'] },
+    });
+    Object.entries(summary.byUser)
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([user, seconds]) => byUser.push([user, TimeParser.formatDuration(seconds)]));
+
+    const byDay = new Table({
+      head: ['Day', 'Time'],
+      style: { head: ['cyan'] },
+    });
+    Object.entries(summary.byDay)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([day, seconds]) => byDay.push([day, TimeParser.formatDuration(seconds)]));
+
+    return [
+      chalk.bold('Per user:'),
+      byUser.toString(),
+      '',
+      chalk.bold('Per day:'),
+      byDay.toString(),
+      '',
+      `${chalk.bold('Total:')} ${TimeParser.formatDuration(summary.totalSeconds)}`,
+    ].join('\n');
+  }
+
+  /**
+   * Tree node for an issue whose children are already built, with totals rolled up
+   */
+  static toIssueTreeNode(
+    issue: JiraIssue,
+    children: IssueTreeNode[] = [],
+    storyPointFields: readonly string[] = STORY_POINT_FIELDS
+  ): IssueTreeNode {
+    const fields = issue.fields;
+    const storyPoints = this.getStoryPoints(fields, storyPointFields);
+    const done = fields.status?.statusCategory?.key === 'done';
+
+    const rollup = children.reduce(
+      (total, child) => ({
+        issues: total.issues + child.rollup.issues,
+        done: total.done + child.rollup.done,
+        storyPoints: total.storyPoints + child.rollup.storyPoints,
+        doneStoryPoints: total.doneStoryPoints + child.rollup.doneStoryPoints,
+      }),
+      { issues: 1, done: done ? 1 : 0, storyPoints: storyPoints || 0, doneStoryPoints: done ? storyPoints || 0 : 0 }
+    );
+    const percentDone = rollup.storyPoints > 0
+      ? Math.round((rollup.doneStoryPoints / rollup.storyPoints) * 100)
+      : Math.round((rollup.done / rollup.issues) * 100);
+
+    return {
+      key: issue.key,
+      summary: fields.summary,
+      type: fields.issuetype?.name || '',
+      status: fields.status?.name || '',
+      statusCategory: fields.status?.statusCategory?.key || '',
+      assignee: fields.assignee?.displayName || null,
+      storyPoints,
+      rollup: { ...rollup, percentDone },
+      children,
+    };
+  }
+
+  /**
+   * Format an issue tree with box-drawing indentation; issues with children
+   * show their rolled-up progress
+   */
+  static formatIssueTree(root: IssueTreeNode): string {
+    const lines: string[] = [];
+
+    const visit = (node: IssueTreeNode, indent: string, connector: string) => {
+      const status = node.statusCategory === 'done'
+        ? chalk.green(node.status)
+        : node.statusCategory === 'indeterminate' ? chalk.yellow(node.status) : chalk.gray(node.status);
+      const details = [status, node.assignee || chalk.gray('Unassigned')];
+      if (node.storyPoints !== null) {
+        details.push(`${node.storyPoints} pts`);
+      }
+
+      let line = `${indent}${connector}${chalk.bold(node.key)} ${chalk.cyan(`[${node.type}]`)} ${node.summary} ${chalk.gray('·')} ${details.join(chalk.gray(' · '))}`;
+      if (node.children.length > 0) {
+        const { rollup } = node;
+        const progress = rollup.storyPoints > 0
+          ? `${rollup.doneStoryPoints}/${rollup.storyPoints} pts`
+          : `${rollup.done}/${rollup.issues} issues`;
+        line += chalk.gray(`  (${progress}, ${rollup.percentDone}% done)`);
+      }
+      lines.push(line);
+
+      const childIndent = indent + (connector === '' ? '' : connector === '└── ' ? '    ' : '│   ');
+      node.children.forEach((child, index) => {
+        visit(child, childIndent, index === node.children.length - 1 ? '└── ' : '├── ');
+      });
+    };
+
+    visit(root, '', '');
+    return lines.join('\n');
+  }
+
   /**
    * Format status with color
    */
@@ -208,15 +611,15 @@ export class Formatter {
   /**
    * Format JSON output for AI consumption
    */
-  static formatJson(data: any): any {
+  static formatJson(data: any, storyPointFields: readonly string[] = STORY_POINT_FIELDS): any {
     // Clean up the data for JSON output
     if (Array.isArray(data)) {
-      return data.map(item => this.cleanJsonItem(item));
+      return data.map(item => this.cleanJsonItem(item, storyPointFields));
     }
-    return this.cleanJsonItem(data);
+    return this.cleanJsonItem(data, storyPointFields);
   }
 
-  private static cleanJsonItem(item: any): any {
+  private static cleanJsonItem(item: any, storyPointFields: readonly string[]): any {
     if (!item) return item;
     
     // If it's a Jira issue, extract key fields
@@ -227,7 +630,7 @@ export class Formatter {
         status: item.fields.status?.name,
         type: item.fields.issuetype?.name,
         priority: item.fields.priority?.name,
-        storyPoints: this.getStoryPoints(item.fields),
+        storyPoints: this.getStoryPoints(item.fields, storyPointFields),
         assignee: item.fields.assignee?.displayName,
         reporter: item.fields.reporter?.displayName,
         created: item.fields.created,
@@ -244,8 +647,8 @@ export class Formatter {
   /**
    * Get story points from issue fields
    */
-  private static getStoryPoints(fields: any): number | null {
-    for (const field of STORY_POINT_FIELDS) {
+  private static getStoryPoints(fields: any, storyPointFields: readonly string[]): number | null {
+    for (const field of storyPointFields) {
       if (fields[field] !== undefined && fields[field] !== null) {
         const value = parseFloat(fields[field]);
         if (!isNaN(value)) {
@@ -260,8 +663,8 @@ export class Formatter {
   /**
    * Format story points for table display
    */
-  private static formatStoryPoints(fields: any): string {
-    const points = this.getStoryPoints(fields);
+  private static formatStoryPoints(fields: any, storyPointFields: readonly string[]): string {
+    const points = this.getStoryPoints(fields, storyPointFields);
     if (points === null) {
       return '-';
     }
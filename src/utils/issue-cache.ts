@@ -0,0 +1,208 @@
+import { homedir } from 'os';
+import { resolve, dirname } from 'path';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { JiraIssue } from '../types/jira.js';
+
+export interface IssueCacheData {
+  host: string;
+  project: string;
+  lastSync: string | null;
+  // When cached keys were last checked against the project, to drop deleted or moved issues
+  lastPrune: string | null;
+  // Who ran the last sync, for `list --offline --mine`: accountId on Cloud, username on Server/Data Center
+  user: CachedUser | null;
+  issues: Record<string, JiraIssue>;
+}
+
+export interface CachedUser {
+  accountId?: string;
+  name?: string;
+}
+
+export interface IssueCacheFilter {
+  status?: string;
+  assignee?: string;
+  type?: string;
+  priority?: string;
+  labels?: string[];
+  limit?: number;
+}
+
+/**
+ * Local mirror of a project's issues, stored as JSON under the user's home directory.
+ * Populated by `jira sync` and read by `list --offline` / `view --offline`.
+ */
+export class IssueCache {
+  private data: IssueCacheData;
+  readonly path: string;
+
+  constructor(host: string, project: string, baseDir: string = IssueCache.defaultDir()) {
+    this.path = resolve(IssueCache.siteDir(host, baseDir), `${IssueCache.safeName(project)}.json`);
+    this.data = { host, project, lastSync: null, lastPrune: null, user: null, issues: {} };
+    this.load();
+  }
+
+  /**
+   * Cache location; JIRA_CACHE_DIR overrides the default ~/.jira-cli/cache
+   */
+  static defaultDir(): string {
+    return process.env.JIRA_CACHE_DIR || resolve(homedir(), '.jira-cli', 'cache');
+  }
+
+  /**
+   * Directory holding everything cached for one Jira site
+   */
+  static siteDir(host: string, baseDir: string = IssueCache.defaultDir()): string {
+    return resolve(baseDir, IssueCache.safeName(host));
+  }
+
+  static safeName(value: string): string {
+    return value.replace(/[^a-zA-Z0-9._-]/g, '_');
+  }
+
+  private load(): void {
+    if (!existsSync(this.path)) {
+      return;
+    }
+
+    try {
+      const content = JSON.parse(readFileSync(this.path, 'utf-8'));
+      this.data = {
+        ...this.data,
+        lastSync: content.lastSync || null,
+        lastPrune: content.lastPrune || null,
+        user: content.user || null,
+        issues: content.issues || {},
+      };
+    } catch {
+      // Corrupt cache file, start fresh on next sync
+    }
+  }
+
+  save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+
+    // Write to a temp file first so an interrupted sync never leaves a truncated cache
+    const tmpPath = `${this.path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(this.data));
+    renameSync(tmpPath, this.path);
+  }
+
+  exists(): boolean {
+    return this.data.lastSync !== null;
+  }
+
+  get lastSync(): Date | null {
+    return this.data.lastSync ? new Date(this.data.lastSync) : null;
+  }
+
+  set lastSync(date: Date | null) {
+    this.data.lastSync = date ? date.toISOString() : null;
+  }
+
+  get lastPrune(): Date | null {
+    return this.data.lastPrune ? new Date(this.data.lastPrune) : null;
+  }
+
+  set lastPrune(date: Date | null) {
+    this.data.lastPrune = date ? date.toISOString() : null;
+  }
+
+  get user(): CachedUser | null {
+    return this.data.user;
+  }
+
+  set user(user: CachedUser | null) {
+    this.data.user = user;
+  }
+
+  get size(): number {
+    return Object.keys(this.data.issues).length;
+  }
+
+  clear(): void {
+    this.data.issues = {};
+    this.data.lastSync = null;
+    this.data.lastPrune = null;
+  }
+
+  /**
+   * Drop cached issues that are no longer in the project (deleted or moved)
+   * @param liveKeys Every key the project has now
+   * @returns The keys that were dropped
+   */
+  prune(liveKeys: Iterable<string>): string[] {
+    const live = new Set(liveKeys);
+    const removed = Object.keys(this.data.issues).filter(key => !live.has(key));
+    removed.forEach(key => delete this.data.issues[key]);
+    return removed;
+  }
+
+  upsert(issues: JiraIssue[]): void {
+    for (const issue of issues) {
+      this.data.issues[issue.key] = issue;
+    }
+  }
+
+  getIssue(issueKey: string): JiraIssue | null {
+    return this.data.issues[issueKey.toUpperCase()] || null;
+  }
+
+  /**
+   * Filter cached issues the way `jira list` filters on the server, newest first
+   */
+  query(filter: IssueCacheFilter = {}): JiraIssue[] {
+    const equals = (a: string | undefined, b: string) => (a || '').toLowerCase() === b.toLowerCase();
+    // Offline there is no currentUser(), so "me" is whoever ran the last sync
+    const me = this.data.user;
+    if (filter.assignee === 'me' && !me?.accountId && !me?.name) {
+      throw new Error(`The cache for ${this.data.project} doesn't record who you are. Run "jira sync --project ${this.data.project}" again.`);
+    }
+
+    let issues = Object.values(this.data.issues).filter(issue => {
+      const fields = issue.fields;
+
+      if (filter.status && !equals(fields.status?.name, filter.status)) {
+        return false;
+      }
+      if (filter.type && !equals(fields.issuetype?.name, filter.type)) {
+        return false;
+      }
+      if (filter.priority && !equals(fields.priority?.name, filter.priority)) {
+        return false;
+      }
+      if (filter.labels && !filter.labels.every(label => fields.labels?.includes(label))) {
+        return false;
+      }
+
+      if (filter.assignee) {
+        if (filter.assignee === 'unassigned') {
+          return !fields.assignee;
+        }
+        const wanted = filter.assignee;
+        const assignee = fields.assignee;
+        if (!assignee) {
+          return false;
+        }
+        if (wanted === 'me') {
+          const isMe = me?.accountId ? assignee.accountId === me.accountId : equals(assignee.name, me?.name || '');
+          if (!isMe) {
+            return false;
+          }
+        } else if (![assignee.emailAddress, assignee.displayName, assignee.accountId].some(v => equals(v, wanted))) {
+          return false;
+        }
+      }
+
+      return true;
+    });
+
+    issues = issues.sort((a, b) => new Date(b.fields.updated).getTime() - new Date(a.fields.updated).getTime());
+
+    if (filter.limit !== undefined) {
+      issues = issues.slice(0, filter.limit);
+    }
+
+    return issues;
+  }
+}
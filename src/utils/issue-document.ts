@@ -0,0 +1,131 @@
+import { JiraIssue } from '../types/jira.js';
+import { ADFBuilder } from './adf.js';
+import { UpdateIssueOptions } from '../clients/core.js';
+
+export interface EditableIssue {
+  summary: string;
+  labels: string[];
+  priority: string;
+  assignee: string;
+  description: string;
+}
+
+export interface IssueChanges {
+  changed: string[];
+  update: UpdateIssueOptions;
+}
+
+const FRONT_MATTER_FIELDS = ['summary', 'labels', 'priority', 'assignee'] as const;
+
+/**
+ * An issue as an editable Markdown document: a front-matter header for the
+ * simple fields followed by the description. Used by `jira edit`.
+ */
+export class IssueDocument {
+  static fromIssue(issue: JiraIssue): EditableIssue {
+    const fields = issue.fields;
+    const assignee = fields.assignee;
+
+    return {
+      summary: fields.summary || '',
+      labels: fields.labels || [],
+      priority: fields.priority?.name || '',
+      assignee: assignee ? assignee.emailAddress || assignee.displayName || assignee.accountId : 'unassigned',
+      description: ADFBuilder.adfToText(fields.description),
+    };
+  }
+
+  static stringify(doc: EditableIssue): string {
+    return [
+      '---',
+      `summary: ${doc.summary}`,
+      `labels: ${doc.labels.join(', ')}`,
+      `priority: ${doc.priority}`,
+      `assignee: ${doc.assignee}`,
+      '---',
+      '',
+      doc.description,
+      '',
+    ].join('\n');
+  }
+
+  static parse(content: string): EditableIssue {
+    const normalized = content.replace(/\r\n?/g, '\n');
+    const match = normalized.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+    if (!match) {
+      throw new Error('Missing front matter. Keep the header between the two "---" lines.');
+    }
+
+    const values: Record<string, string> = {};
+    for (const line of match[1].split('\n')) {
+      if (line.trim() === '' || line.trim().startsWith('#')) {
+        continue;
+      }
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        throw new Error(`Invalid front matter line: "${line}". Use "field: value".`);
+      }
+      const key = line.slice(0, separator).trim().toLowerCase();
+      if (!(FRONT_MATTER_FIELDS as readonly string[]).includes(key)) {
+        throw new Error(`Unknown front matter field "${key}". Editable fields: ${FRONT_MATTER_FIELDS.join(', ')}.`);
+      }
+      values[key] = line.slice(separator + 1).trim();
+    }
+
+    const summary = values.summary ?? '';
+    if (!summary) {
+      throw new Error('Summary cannot be empty.');
+    }
+
+    return {
+      summary,
+      labels: (values.labels ?? '').split(',').map(l => l.trim()).filter(Boolean),
+      priority: values.priority ?? '',
+      assignee: values.assignee ?? '',
+      description: match[2].trim(),
+    };
+  }
+
+  /**
+   * Work out which fields changed, expressed as updateIssue options
+   */
+  static diff(original: EditableIssue, edited: EditableIssue): IssueChanges {
+    const changed: string[] = [];
+    const update: UpdateIssueOptions = {};
+
+    if (edited.summary !== original.summary) {
+      update.summary = edited.summary;
+      changed.push('summary');
+    }
+
+    const add = edited.labels.filter(l => !original.labels.includes(l));
+    const remove = original.labels.filter(l => !edited.labels.includes(l));
+    if (add.length > 0 || remove.length > 0) {
+      update.labels = { add, remove };
+      changed.push('labels');
+    }
+
+    if (!edited.priority && original.priority) {
+      throw new Error('Priority cannot be cleared.');
+    }
+    if (edited.priority !== original.priority) {
+      update.priority = edited.priority;
+      changed.push('priority');
+    }
+
+    const assignee = ['', 'unassigned', 'none'].includes(edited.assignee.toLowerCase()) ? 'unassigned' : edited.assignee;
+    if (assignee.toLowerCase() !== original.assignee.toLowerCase()) {
+      update.assignee = assignee === 'unassigned' ? null : assignee;
+      changed.push('assignee');
+    }
+
+    // Compare normalized Markdown so re-wrapping by the converter isn't a change
+    const description = ADFBuilder.adfToText(ADFBuilder.textToADF(edited.description));
+    if (description !== original.description) {
+      update.description = edited.description;
+      changed.push('description');
+    }
+
+    return { changed, update };
+  }
+}
@@ -0,0 +1,365 @@
+import { JiraIssue, JiraIssueFields } from '../types/jira.js';
+import { STORY_POINT_FIELDS } from '../constants.js';
+
+export interface IssueGraphNode {
+  key: string;
+  summary: string;
+  type: string;
+  status: string;
+  statusCategory: string;
+  storyPoints: number | null;
+  // Hops from the nearest starting issue
+  depth: number;
+  // Whether this issue's own links were followed (false past the depth limit)
+  expanded: boolean;
+}
+
+export interface IssueGraphEdge {
+  id: string;
+  from: string;
+  to: string;
+  type: string;
+  // Reads from → to, e.g. "blocks"
+  label: string;
+  blocks: boolean;
+}
+
+export interface ExploreOptions {
+  // Hops to follow from the starting issues
+  depth: number;
+  // Follow only the links this accepts; `issue` is the one whose links are being read
+  follow?: (edge: IssueGraphEdge, issue: JiraIssue) => boolean;
+  // Where story points live, e.g. the client's fieldAliases.storyPointFields()
+  storyPointFields?: readonly string[];
+}
+
+export interface BlockerEntry {
+  key: string;
+  summary: string;
+  status: string;
+  storyPoints: number | null;
+  // Issues in the walk this one blocks directly
+  blocks: string[];
+  // Links between this issue and the nearest target
+  distance: number;
+}
+
+export interface BlockerAnalysis {
+  targets: string[];
+  // Unresolved issues in the way of the targets, directly or through other unresolved blockers
+  blockers: BlockerEntry[];
+  // Heaviest chain of open blockers by story points, furthest blocker first, ending at a target
+  criticalPath: { keys: string[]; storyPoints: number };
+  // Resolved issues still linked as blocking an unresolved one
+  doneButBlocking: BlockerEntry[];
+  cycles: string[][];
+}
+
+const FILL_COLORS: Record<string, string> = {
+  done: '#d3f9d8',
+  indeterminate: '#fff3bf',
+  new: '#e9ecef',
+};
+const BLOCKS_COLOR = '#e03131';
+const OTHER_COLOR = '#868e96';
+
+/**
+ * Issues and the links between them, built by walking issue links breadth-first
+ * from one or more starting issues. Rendered as Graphviz DOT, Mermaid or JSON.
+ */
+export class IssueGraph {
+  readonly roots: string[] = [];
+  readonly nodes = new Map<string, IssueGraphNode>();
+  readonly edges = new Map<string, IssueGraphEdge>();
+
+  constructor(private readonly storyPointFields: readonly string[] = STORY_POINT_FIELDS) {}
+
+  /**
+   * Fetch the starting issues, then each newly linked issue one hop further,
+   * until the depth limit. Issues on the last hop are known only from the links
+   * pointing at them, so they have no story points.
+   */
+  static async explore(
+    roots: string[],
+    fetchIssue: (key: string) => Promise<JiraIssue>,
+    options: ExploreOptions
+  ): Promise<IssueGraph> {
+    const graph = new IssueGraph(options.storyPointFields);
+    const fetched = new Set<string>();
+    let frontier = [...new Set(roots.map(key => key.toUpperCase()))];
+    graph.roots.push(...frontier);
+
+    for (let depth = 0; frontier.length > 0 && depth < Math.max(options.depth, 1); depth++) {
+      frontier.forEach(key => fetched.add(key));
+      const issues = await Promise.all(frontier.map(key => fetchIssue(key)));
+
+      const next = new Set<string>();
+      for (const issue of issues) {
+        for (const neighbour of graph.addIssue(issue, depth, options.follow)) {
+          if (!fetched.has(neighbour)) {
+            next.add(neighbour);
+          }
+        }
+      }
+      frontier = [...next];
+    }
+
+    return graph;
+  }
+
+  /**
+   * Add a fetched issue and its links; returns the keys of the linked issues
+   */
+  addIssue(issue: JiraIssue, depth: number, follow?: ExploreOptions['follow']): string[] {
+    this.setNode(issue, depth, true);
+
+    const neighbours: string[] = [];
+    for (const link of issue.fields.issuelinks || []) {
+      const other = link.outwardIssue || link.inwardIssue;
+      if (!other) {
+        continue;
+      }
+      const edge: IssueGraphEdge = {
+        id: link.id,
+        from: link.outwardIssue ? issue.key : other.key,
+        to: link.outwardIssue ? other.key : issue.key,
+        type: link.type?.name || '',
+        label: link.type?.outward || link.type?.name || '',
+        blocks: IssueGraph.isBlocking(link.type),
+      };
+      if (follow && !follow(edge, issue)) {
+        continue;
+      }
+
+      this.edges.set(edge.id, edge);
+      if (!this.nodes.has(other.key)) {
+        this.setNode(other, depth + 1, false);
+      }
+      neighbours.push(other.key);
+    }
+    return neighbours;
+  }
+
+  static isBlocking(type: { name?: string; outward?: string } | undefined): boolean {
+    return type?.name?.toLowerCase() === 'blocks' || type?.outward?.toLowerCase() === 'blocks';
+  }
+
+  /**
+   * Issues that block `key` directly
+   */
+  blockersOf(key: string): string[] {
+    return [...this.edges.values()].filter(edge => edge.blocks && edge.to === key).map(edge => edge.from);
+  }
+
+  /**
+   * What is in the way of the targets: open blockers found by walking "is blocked
+   * by" links through open issues only (a resolved blocker is no longer in the
+   * way, so the walk stops there), and the chain among them carrying the most
+   * story points. Chains skip links that would close a cycle.
+   */
+  analyzeBlockers(targets: string[]): BlockerAnalysis {
+    const targetSet = new Set(targets);
+    const isOpen = (key: string) => this.nodes.get(key)?.statusCategory !== 'done';
+    const entry = (key: string, distance: number): BlockerEntry => {
+      const node = this.nodes.get(key);
+      return {
+        key,
+        summary: node?.summary || '',
+        status: node?.status || '',
+        storyPoints: node?.storyPoints ?? null,
+        blocks: [...this.edges.values()].filter(edge => edge.blocks && edge.from === key).map(edge => edge.to),
+        distance,
+      };
+    };
+
+    // Breadth-first from the targets so each blocker gets its shortest distance
+    const distances = new Map<string, number>(targets.map(key => [key, 0]));
+    let frontier = [...targets];
+    while (frontier.length > 0) {
+      const next: string[] = [];
+      for (const key of frontier) {
+        for (const blocker of this.blockersOf(key)) {
+          if (!distances.has(blocker) && isOpen(blocker)) {
+            distances.set(blocker, distances.get(key)! + 1);
+            next.push(blocker);
+          }
+        }
+      }
+      frontier = next;
+    }
+    const blockers = [...distances.entries()]
+      .filter(([key]) => !targetSet.has(key))
+      .map(([key, distance]) => entry(key, distance))
+      .sort((a, b) => a.distance - b.distance || a.key.localeCompare(b.key));
+
+    // Heaviest chain ending at each issue, following open blockers only
+    const memo = new Map<string, { keys: string[]; storyPoints: number }>();
+    const onPath = new Set<string>();
+    const heaviest = (key: string): { keys: string[]; storyPoints: number } => {
+      const known = memo.get(key);
+      if (known) {
+        return known;
+      }
+      onPath.add(key);
+      const own = targetSet.has(key) ? 0 : this.nodes.get(key)?.storyPoints || 0;
+      let best = { keys: [key], storyPoints: own };
+      for (const blocker of this.blockersOf(key)) {
+        if (onPath.has(blocker) || targetSet.has(blocker) || !isOpen(blocker)) {
+          continue;
+        }
+        const chain = heaviest(blocker);
+        const weight = chain.storyPoints + own;
+        if (weight > best.storyPoints || (weight === best.storyPoints && chain.keys.length + 1 > best.keys.length)) {
+          best = { keys: [...chain.keys, key], storyPoints: weight };
+        }
+      }
+      onPath.delete(key);
+      memo.set(key, best);
+      return best;
+    };
+    const criticalPath = targets
+      .map(key => heaviest(key))
+      .reduce((a, b) => (b.storyPoints > a.storyPoints || (b.storyPoints === a.storyPoints && b.keys.length > a.keys.length) ? b : a));
+
+    // Resolved issues still linked as blocking a target or an open blocker
+    const doneButBlocking = [...this.nodes.keys()]
+      .filter(key => !isOpen(key))
+      .map(key => {
+        const blocked = entry(key, 0).blocks.filter(other => distances.has(other));
+        return { ...entry(key, Math.min(...blocked.map(other => distances.get(other)!)) + 1), blocks: blocked };
+      })
+      .filter(blocker => blocker.blocks.length > 0);
+
+    return {
+      targets,
+      blockers,
+      criticalPath: criticalPath.keys.length > 1 ? criticalPath : { keys: [], storyPoints: 0 },
+      doneButBlocking,
+      cycles: this.findCycles(),
+    };
+  }
+
+  /**
+   * Cycles of "blocks" links, each listed once starting from its lowest key
+   */
+  findCycles(): string[][] {
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    const cycles = new Map<string, string[]>();
+
+    const visit = (key: string) => {
+      state.set(key, 'visiting');
+      stack.push(key);
+      for (const next of this.successors(key)) {
+        if (state.get(next) === 'visiting') {
+          const cycle = stack.slice(stack.indexOf(next));
+          const start = cycle.indexOf([...cycle].sort()[0]);
+          const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+          cycles.set(normalized.join(' '), normalized);
+        } else if (!state.has(next)) {
+          visit(next);
+        }
+      }
+      stack.pop();
+      state.set(key, 'done');
+    };
+
+    for (const key of [...this.nodes.keys()].sort()) {
+      if (!state.has(key)) {
+        visit(key);
+      }
+    }
+    return [...cycles.values()];
+  }
+
+  toDot(): string {
+    const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const lines = ['digraph issues {', '  rankdir=LR;', '  node [shape=box, style="rounded,filled", fontname="Helvetica"];'];
+
+    for (const cycle of this.findCycles()) {
+      lines.push(`  // Cycle: ${[...cycle, cycle[0]].join(' -> ')}`);
+    }
+    for (const node of this.nodes.values()) {
+      const attributes = [
+        // \n inside a DOT string is a centred line break
+        `label=${quote(`${node.key}\n${node.summary}\n(${node.status})`).replace(/\n/g, '\\n')}`,
+        `fillcolor=${quote(FILL_COLORS[node.statusCategory] || FILL_COLORS.new)}`,
+      ];
+      if (this.roots.includes(node.key)) {
+        attributes.push('peripheries=2');
+      }
+      lines.push(`  ${quote(node.key)} [${attributes.join(', ')}];`);
+    }
+    for (const edge of this.edges.values()) {
+      const style = edge.blocks ? `color=${quote(BLOCKS_COLOR)}, penwidth=2` : `color=${quote(OTHER_COLOR)}`;
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edge.label)}, ${style}];`);
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  toMermaid(): string {
+    const id = (key: string) => key.replace(/[^A-Za-z0-9_]/g, '_');
+    const text = (value: string) => value.replace(/"/g, '#quot;');
+    const lines = ['flowchart LR'];
+
+    for (const cycle of this.findCycles()) {
+      lines.push(`  %% Cycle: ${[...cycle, cycle[0]].join(' -> ')}`);
+    }
+    for (const node of this.nodes.values()) {
+      lines.push(`  ${id(node.key)}["${text(`${node.key}: ${node.summary}`)}<br/>${text(node.status)}"]`);
+    }
+
+    const blocking: number[] = [];
+    [...this.edges.values()].forEach((edge, index) => {
+      lines.push(`  ${id(edge.from)} ${edge.blocks ? '==>' : '-->'}|${text(edge.label)}| ${id(edge.to)}`);
+      if (edge.blocks) {
+        blocking.push(index);
+      }
+    });
+    if (blocking.length > 0) {
+      lines.push(`  linkStyle ${blocking.join(',')} stroke:${BLOCKS_COLOR},stroke-width:2px`);
+    }
+
+    for (const [category, color] of Object.entries(FILL_COLORS)) {
+      const members = [...this.nodes.values()].filter(node => (FILL_COLORS[node.statusCategory] ? node.statusCategory : 'new') === category);
+      if (members.length > 0) {
+        lines.push(`  classDef ${category} fill:${color}`);
+        lines.push(`  class ${members.map(node => id(node.key)).join(',')} ${category}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  toJSON() {
+    return {
+      roots: this.roots,
+      nodes: [...this.nodes.values()],
+      edges: [...this.edges.values()],
+      cycles: this.findCycles(),
+    };
+  }
+
+  private successors(key: string): string[] {
+    return [...this.edges.values()].filter(edge => edge.blocks && edge.from === key).map(edge => edge.to);
+  }
+
+  private setNode(issue: { key: string; fields?: Partial<JiraIssueFields> }, depth: number, expanded: boolean): void {
+    const existing = this.nodes.get(issue.key);
+    const fields = issue.fields || {};
+    const points = this.storyPointFields.map(field => parseFloat(fields[field])).find(value => !isNaN(value));
+
+    this.nodes.set(issue.key, {
+      key: issue.key,
+      summary: fields.summary || '',
+      type: fields.issuetype?.name || '',
+      status: fields.status?.name || '',
+      statusCategory: fields.status?.statusCategory?.key || '',
+      storyPoints: points ?? existing?.storyPoints ?? null,
+      depth: Math.min(depth, existing?.depth ?? depth),
+      expanded: expanded || existing?.expanded === true,
+    });
+  }
+}
@@ -72,6 +72,12 @@ export class Logger {
     }
   }
 
+  static updateSpinner(message: string): void {
+    if (this.spinner) {
+      this.spinner.text = message;
+    }
+  }
+
   static stopSpinner(success: boolean = true, message?: string): void {
     if (this.spinner) {
       if (success) {
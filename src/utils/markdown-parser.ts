@@ -10,9 +10,17 @@ export interface ParsedIssue {
   assignee?: string;
   parent?: string;
   storyPoints?: number;
+  // Other fields by display name or ID, e.g. { Team: 'Platform' }
+  fields?: Record<string, string>;
   originalText?: string;
 }
 
+export interface PlanItem extends ParsedIssue {
+  line: number;       // 0-based line index of the checkbox in the file
+  checked: boolean;
+  key?: string;       // Issue key written back after creation, e.g. [PROJ-123]
+}
+
 export interface MarkdownParseOptions {
   // Patterns to identify issues
   taskPattern?: RegExp;
@@ -45,6 +53,118 @@ export class MarkdownParser {
     lowest: /(?:TRIVIAL|P4|🔵)/i,
   };
 
+  private static readonly PLAN_ITEM_PATTERN = /^(\s*)[-*]\s*\[([ xX]?)\]\s*(.+)$/;
+  private static readonly ISSUE_KEY_SUFFIX = /\s*\[([A-Z][A-Z0-9_]*-\d+)\]\s*$/;
+  // Indented under an item: "Field: Team=Platform"
+  private static readonly FIELD_LINE = /^\s+Field:\s*([^=]*?)\s*=\s*(.*)$/i;
+
+  /**
+   * Parse a markdown plan file into checklist items for `batch apply`
+   */
+  static parsePlanFile(filePath: string, options: MarkdownParseOptions = {}): PlanItem[] {
+    const content = readFileSync(filePath, 'utf-8');
+    return this.parsePlan(content, options);
+  }
+
+  /**
+   * Parse markdown checklist items with their line numbers, checked state and
+   * any issue key suffix. Indented lines under an item become its description,
+   * except `Field: Name=value` lines, which set other fields.
+   */
+  static parsePlan(content: string, options: MarkdownParseOptions = {}): PlanItem[] {
+    const items: PlanItem[] = [];
+    const lines = content.split('\n');
+    let header = '';
+    let current: { item: PlanItem; indent: number; description: string[] } | null = null;
+
+    const finish = () => {
+      if (current) {
+        const description = current.description.join('\n').trim();
+        if (description) {
+          current.item.description = description;
+        }
+        items.push(current.item);
+        current = null;
+      }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const headerMatch = line.match(/^(#{1,6})\s+(.+)$/);
+      if (headerMatch) {
+        finish();
+        header = headerMatch[2].trim();
+        continue;
+      }
+
+      const itemMatch = line.match(this.PLAN_ITEM_PATTERN);
+      if (itemMatch) {
+        finish();
+
+        let text = itemMatch[3].trim();
+        let key: string | undefined;
+        const keyMatch = text.match(this.ISSUE_KEY_SUFFIX);
+        if (keyMatch) {
+          key = keyMatch[1];
+          text = text.slice(0, keyMatch.index).trim();
+        }
+
+        if (!text) {
+          continue;
+        }
+
+        current = {
+          indent: itemMatch[1].length,
+          description: [],
+          item: {
+            summary: this.cleanSummary(text),
+            description: '',
+            issueType: header ? this.determineIssueType(header, options) : 'Task',
+            labels: this.extractLabels(text, header || undefined),
+            // Only explicit markers, so re-runs don't reset priorities set in Jira
+            priority: this.matchPriority(text),
+            originalText: line,
+            line: i,
+            checked: itemMatch[2].toLowerCase() === 'x',
+            key,
+          },
+        };
+        continue;
+      }
+
+      // Indented continuation lines (or blank lines between them) belong to the current item
+      if (current) {
+        const indent = line.match(/^\s*/)![0].length;
+        const field = indent > current.indent ? line.match(this.FIELD_LINE) : null;
+        if (field && field[1]) {
+          current.item.fields = { ...current.item.fields, [field[1]]: field[2].trim() };
+          continue;
+        }
+        if (line.trim() === '' || indent > current.indent) {
+          current.description.push(line.trim() === '' ? '' : line.slice(Math.min(indent, current.indent + 2)));
+          continue;
+        }
+        finish();
+      }
+    }
+
+    finish();
+    return items;
+  }
+
+  /**
+   * Append an issue key suffix to a plan item's line, replacing any existing key
+   */
+  static setPlanItemKey(content: string, line: number, key: string): string {
+    const lines = content.split('\n');
+    if (line < 0 || line >= lines.length) {
+      throw new Error(`Line ${line + 1} is out of range`);
+    }
+    lines[line] = `${lines[line].replace(this.ISSUE_KEY_SUFFIX, '').trimEnd()} [${key}]`;
+    return lines.join('\n');
+  }
+
   /**
    * Parse a markdown file and extract potential Jira issues
    */
@@ -129,6 +249,7 @@ export class MarkdownParser {
           issueType,
           labels: this.extractLabels(summary, section.header),
           priority: this.extractPriority(summary),
+          fields: this.fieldsAfter(section.content, match.index + match[0].length),
           originalText: match[0],
         });
       }
@@ -146,6 +267,7 @@ export class MarkdownParser {
           issueType,
           labels: this.extractLabels(text, section.header),
           priority: this.extractPriority(text),
+          fields: this.fieldsAfter(section.content, match.index + match[0].length),
           originalText: match[0],
         });
       }
@@ -181,6 +303,7 @@ export class MarkdownParser {
             issueType,
             labels: this.extractLabels(summary),
             priority: this.extractPriority(summary),
+            fields: this.fieldsAfter(content, match.index + match[0].length),
             originalText: match[0],
           });
         }
@@ -190,6 +313,23 @@ export class MarkdownParser {
     return issues;
   }
 
+  /**
+   * `Field: Name=value` lines indented right below an item, ending at `end`
+   */
+  private static fieldsAfter(content: string, end: number): Record<string, string> | undefined {
+    let fields: Record<string, string> | undefined;
+    for (const line of content.slice(end).split('\n').slice(1)) {
+      const field = line.match(this.FIELD_LINE);
+      if (!field) {
+        break;
+      }
+      if (field[1]) {
+        fields = { ...fields, [field[1]]: field[2].trim() };
+      }
+    }
+    return fields;
+  }
+
   /**
    * Determine issue type based on section header
    */
@@ -300,12 +440,19 @@ export class MarkdownParser {
    * Extract priority from text
    */
   private static extractPriority(text: string): string {
+    return this.matchPriority(text) || 'Medium'; // Default
+  }
+
+  /**
+   * Find an explicit priority marker in text
+   */
+  private static matchPriority(text: string): string | undefined {
     for (const [priority, pattern] of Object.entries(this.PRIORITY_PATTERNS)) {
       if (pattern.test(text)) {
         return priority.charAt(0).toUpperCase() + priority.slice(1);
       }
     }
-    return 'Medium'; // Default
+    return undefined;
   }
 
   /**
@@ -0,0 +1,118 @@
+import { resolve, dirname } from 'path';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { IssueCache } from './issue-cache.js';
+import { DEFAULTS } from '../constants.js';
+
+interface MetaCacheEntry {
+  fetchedAt: string;
+  // As load() returned it; fetch() hands it back as the caller's type
+  value: unknown;
+}
+
+export interface MetaCacheOptions {
+  baseDir?: string;
+  // 0 turns the cache off
+  ttlMinutes?: number;
+}
+
+// Next to the issue caches; "_meta" can't clash with a project key
+const META_DIR = '_meta';
+
+/**
+ * Site and project metadata (create screens, issue types, link types, field IDs)
+ * kept on disk between runs, so repeated commands don't refetch it every time.
+ * Stored per site and user under the cache directory: `_site.json` for site-wide
+ * entries and `<project>.json` for a project's.
+ */
+export class MetaCache {
+  readonly path: string;
+  private readonly ttlMs: number;
+  private entries: Record<string, MetaCacheEntry>;
+  // Keys already refetched by this process under --refresh-meta
+  private refreshed = new Set<string>();
+
+  /**
+   * @param user Account the metadata was fetched as (email, or profile name)
+   */
+  constructor(host: string, user: string, project?: string, options: MetaCacheOptions = {}) {
+    const dir = resolve(IssueCache.siteDir(host, options.baseDir), META_DIR, IssueCache.safeName(user));
+    this.path = resolve(dir, `${project ? IssueCache.safeName(project) : '_site'}.json`);
+    this.ttlMs = (options.ttlMinutes ?? MetaCache.ttlMinutes()) * 60_000;
+    this.entries = this.read();
+  }
+
+  /**
+   * How long entries stay fresh; JIRA_META_CACHE_TTL (minutes) overrides the default
+   */
+  static ttlMinutes(): number {
+    const minutes = parseFloat(process.env.JIRA_META_CACHE_TTL || '');
+    return isNaN(minutes) || minutes < 0 ? DEFAULTS.META_CACHE_TTL_MINUTES : minutes;
+  }
+
+  /**
+   * Remove cached metadata for a site (every user's), or for every site when no host is given
+   * @returns Number of sites whose metadata was removed
+   */
+  static clear(host?: string, baseDir: string = IssueCache.defaultDir()): number {
+    const sites = host
+      ? [IssueCache.siteDir(host, baseDir)]
+      : existsSync(baseDir) ? readdirSync(baseDir).map(name => resolve(baseDir, name)) : [];
+    let cleared = 0;
+    for (const site of sites) {
+      const dir = resolve(site, META_DIR);
+      if (existsSync(dir)) {
+        rmSync(dir, { recursive: true, force: true });
+        cleared++;
+      }
+    }
+    return cleared;
+  }
+
+  /**
+   * The cached value for a key, or the result of load() which is then cached.
+   * Empty results (null, undefined, []) aren't stored, so a lookup that found
+   * nothing is tried again next time.
+   */
+  async fetch<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const entry = this.entries[key];
+    const refresh = process.env.JIRA_REFRESH_META === 'true' && !this.refreshed.has(key);
+    if (entry && !refresh && this.ttlMs > 0 && Date.now() - Date.parse(entry.fetchedAt) < this.ttlMs) {
+      return entry.value as T;
+    }
+
+    const value = await load();
+    this.refreshed.add(key);
+    if (this.ttlMs > 0 && value != null && !(Array.isArray(value) && value.length === 0)) {
+      this.entries[key] = { fetchedAt: new Date().toISOString(), value };
+      this.save(key);
+    }
+    return value;
+  }
+
+  private read(): Record<string, MetaCacheEntry> {
+    if (!existsSync(this.path)) {
+      return {};
+    }
+    try {
+      return JSON.parse(readFileSync(this.path, 'utf-8')).entries || {};
+    } catch {
+      // Corrupt cache file, refetch everything
+      return {};
+    }
+  }
+
+  /**
+   * Merge one entry into the file as it is now, since other runs may have added theirs
+   */
+  private save(key: string): void {
+    try {
+      const entries = { ...this.read(), [key]: this.entries[key] };
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tmpPath = `${this.path}.${process.pid}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify({ entries }));
+      renameSync(tmpPath, this.path);
+    } catch {
+      // A cache that can't be written only costs the next run a refetch
+    }
+  }
+}
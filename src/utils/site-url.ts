@@ -0,0 +1,15 @@
+/**
+ * Build URLs for a configured Jira host. The host may be a bare hostname
+ * (yourcompany.atlassian.net, assumed https) or a full URL, which lets
+ * self-hosted instances use http or a context path (https://jira.example.com/jira).
+ */
+export class SiteUrl {
+  static base(host: string): string {
+    const trimmed = host.trim().replace(/\/+$/, '');
+    return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  }
+
+  static browse(host: string, issueKey: string): string {
+    return `${this.base(host)}/browse/${issueKey}`;
+  }
+}
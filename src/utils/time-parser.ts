@@ -0,0 +1,111 @@
+/**
+ * Helpers for parsing user-supplied dates and time windows
+ */
+
+const RELATIVE_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface DurationOptions {
+  hoursPerDay?: number;
+  daysPerWeek?: number;
+}
+
+// Jira's default time tracking settings: 1d = 8h, 1w = 5d
+const DEFAULT_HOURS_PER_DAY = 8;
+const DEFAULT_DAYS_PER_WEEK = 5;
+
+export class TimeParser {
+  /**
+   * Parse a --since value into an absolute date.
+   * Accepts relative windows (30m, 12h, 7d, 2w) or any date Date can parse (2024-05-01).
+   */
+  static parseSince(value: string, now: Date = new Date()): Date {
+    const trimmed = value.trim();
+
+    const relativeMatch = trimmed.match(/^(\d+)\s*([mhdw])$/i);
+    if (relativeMatch) {
+      const amount = parseInt(relativeMatch[1], 10);
+      const unit = relativeMatch[2].toLowerCase();
+      return new Date(now.getTime() - amount * RELATIVE_UNITS[unit]);
+    }
+
+    const date = new Date(trimmed);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date "${value}". Use a relative window (e.g. 24h, 7d, 2w) or a date (e.g. 2024-05-01).`);
+    }
+
+    return date;
+  }
+
+  /**
+   * Parse a Jira duration (e.g. 2h30m, 1d 4h, 1.5h, 45m, 1w) into seconds
+   */
+  static parseDuration(value: string, options: DurationOptions = {}): number {
+    const hoursPerDay = options.hoursPerDay ?? DEFAULT_HOURS_PER_DAY;
+    const daysPerWeek = options.daysPerWeek ?? DEFAULT_DAYS_PER_WEEK;
+    const unitSeconds: Record<string, number> = {
+      w: daysPerWeek * hoursPerDay * 3600,
+      d: hoursPerDay * 3600,
+      h: 3600,
+      m: 60,
+    };
+
+    const compact = value.trim().toLowerCase().replace(/\s+/g, '');
+    if (!compact || !/^(\d+(\.\d+)?[wdhm])+$/.test(compact)) {
+      throw new Error(`Invalid duration "${value}". Use Jira syntax such as 2h30m, 1d, 45m or 1w 2d.`);
+    }
+
+    let seconds = 0;
+    for (const match of compact.matchAll(/(\d+(?:\.\d+)?)([wdhm])/g)) {
+      seconds += parseFloat(match[1]) * unitSeconds[match[2]];
+    }
+
+    seconds = Math.round(seconds);
+    if (seconds < 60) {
+      throw new Error(`Duration "${value}" is too short. Jira requires at least 1m.`);
+    }
+
+    return seconds;
+  }
+
+  /**
+   * Format seconds as a compact duration (e.g. 2h 30m), using hours rather than days
+   * so totals stay comparable across instances with different working-day settings
+   */
+  static formatDuration(seconds: number): string {
+    const totalMinutes = Math.round(seconds / 60);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+
+    if (hours === 0) {
+      return `${minutes}m`;
+    }
+    return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+  }
+
+  /**
+   * Format a date the way Jira expects for worklog timestamps: 2024-05-01T09:30:00.000+0200
+   */
+  static formatJiraDateTime(date: Date): string {
+    const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+    const offset = -date.getTimezoneOffset();
+    const sign = offset >= 0 ? '+' : '-';
+    const absOffset = Math.abs(offset);
+
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}` +
+      `${sign}${pad(Math.floor(absOffset / 60))}${pad(absOffset % 60)}`;
+  }
+
+  /**
+   * Local calendar day (YYYY-MM-DD) for grouping
+   */
+  static formatDay(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+}
@@ -0,0 +1,660 @@
+/**
+ * Jira wiki markup utilities for Server/Data Center (REST API v2), which takes
+ * and returns rich text as wiki markup instead of ADF. Converting through ADF
+ * lets the rest of the CLI work with one format regardless of API version.
+ *
+ *   h1. Heading          *bold*  _italic_  -strike-  +underline+  {{code}}
+ *   * bullet / # number  [text|https://...]  [~username]  \\ (line break)
+ *   ||head||head||       {code:java}...{code}  {quote}...{quote}  {info}...{info}
+ */
+
+import { ADFDocument, ADFNode, ADFMark } from './adf.js';
+
+const PANEL_MACROS: Record<string, string> = {
+  info: 'info',
+  note: 'note',
+  tip: 'tip',
+  warning: 'warning',
+  panel: 'info',
+};
+
+// ADF panel types without a wiki macro of their own
+const PANEL_FALLBACK: Record<string, string> = {
+  error: 'warning',
+  success: 'tip',
+};
+
+const INLINE_MARKS: Record<string, string> = {
+  '*': 'strong',
+  '_': 'em',
+  '-': 'strike',
+  '+': 'underline',
+  '^': 'sup',
+  '~': 'sub',
+};
+
+// Characters a backslash escapes. "\\" is a line break, so a literal backslash
+// that would run into one of these (or another backslash) is written as &#92;
+const ESCAPABLE = '{}[]|!#*_-+^~';
+const ENTITY = /^&#(92|38);/;
+
+const HEADING = /^h([1-6])\.\s+(.*)$/;
+const BLOCK_QUOTE = /^bq\.\s+(.*)$/;
+const RULE = /^-{4,}\s*$/;
+const LIST_ITEM = /^([*#]+|-)\s+(.*)$/;
+const TABLE_ROW = /^\s*\|/;
+const MACRO_OPEN = /^\{(code|noformat|quote|panel|info|note|tip|warning)(?::([^}]*))?\}\s*(.*)$/;
+const IMAGE_LINE = /^\s*!([^!\s|]+)(?:\|[^!]*)?!\s*$/;
+
+export class WikiMarkup {
+  /**
+   * Convert an ADF document to wiki markup
+   */
+  static fromADF(adf: ADFDocument | undefined): string {
+    if (!adf || !adf.content) {
+      return '';
+    }
+    return this.serializeBlocks(adf.content);
+  }
+
+  /**
+   * Convert wiki markup to an ADF document
+   */
+  static toADF(wiki: string | null | undefined): ADFDocument {
+    const content = wiki ? this.parseBlocks(wiki.replace(/\r\n?/g, '\n').split('\n')) : [];
+    return {
+      version: 1,
+      type: 'doc',
+      content,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // ADF -> wiki markup
+
+  private static serializeBlocks(nodes: ADFNode[]): string {
+    return nodes
+      .map(node => this.serializeBlock(node))
+      .filter(block => block !== '')
+      .join('\n\n');
+  }
+
+  private static serializeBlock(node: ADFNode): string {
+    switch (node.type) {
+      case 'paragraph':
+        return this.serializeInline(node.content || []);
+      case 'heading':
+        return `h${node.attrs?.level || 1}. ${this.serializeInline(node.content || [])}`;
+      case 'bulletList':
+      case 'orderedList':
+      case 'taskList':
+        return this.serializeList(node, '');
+      case 'codeBlock': {
+        const code = (node.content || []).map(n => n.text || '').join('');
+        const language = node.attrs?.language;
+        return `{code${language ? `:${language}` : ''}}\n${code}\n{code}`;
+      }
+      case 'blockquote':
+        return `{quote}\n${this.serializeBlocks(node.content || [])}\n{quote}`;
+      case 'panel': {
+        const type = node.attrs?.panelType || 'info';
+        const macro = PANEL_MACROS[type] ? type : PANEL_FALLBACK[type] || 'info';
+        return `{${macro}}\n${this.serializeBlocks(node.content || [])}\n{${macro}}`;
+      }
+      case 'rule':
+        return '----';
+      case 'table':
+        return (node.content || []).map(row => this.serializeTableRow(row)).join('\n');
+      case 'mediaSingle':
+      case 'mediaGroup':
+        return (node.content || []).map(media => `!${media.attrs?.url || media.attrs?.alt || media.attrs?.id}!`).join(' ');
+      default:
+        return node.content ? this.serializeBlocks(node.content) : this.serializeInline([node]);
+    }
+  }
+
+  private static serializeList(list: ADFNode, parentPrefix: string): string {
+    const prefix = parentPrefix + (list.type === 'orderedList' ? '#' : '*');
+    const lines: string[] = [];
+
+    for (const item of list.content || []) {
+      // taskList nests sibling taskLists directly rather than inside items
+      if (item.type === 'taskList' || item.type === 'bulletList' || item.type === 'orderedList') {
+        lines.push(this.serializeList(item, prefix));
+        continue;
+      }
+
+      // Wiki markup has no task lists; keep the state as literal text
+      const checkbox = item.type === 'taskItem' ? (item.attrs?.state === 'DONE' ? '\\[x\\] ' : '\\[ \\] ') : '';
+      const children = item.type === 'taskItem' ? [{ type: 'paragraph', content: item.content }] : item.content || [];
+      let text = '';
+      const nested: string[] = [];
+
+      for (const child of children) {
+        if (child.type === 'bulletList' || child.type === 'orderedList' || child.type === 'taskList') {
+          nested.push(this.serializeList(child, prefix));
+        } else {
+          // Item text must stay on one line
+          const block = this.serializeBlock(child).replace(/\n/g, ' \\\\ ');
+          text = text ? `${text} \\\\ ${block}` : block;
+        }
+      }
+
+      lines.push(`${prefix} ${checkbox}${text}`.trimEnd());
+      lines.push(...nested);
+    }
+
+    return lines.join('\n');
+  }
+
+  private static serializeTableRow(row: ADFNode): string {
+    const cells = (row.content || []).map(cell => {
+      const separator = cell.type === 'tableHeader' ? '||' : '|';
+      const text = (cell.content || [])
+        .map(block => this.serializeBlock(block).replace(/\n/g, ' \\\\ '))
+        .join(' \\\\ ');
+      return { separator, text: text || ' ' };
+    });
+
+    if (cells.length === 0) {
+      return '';
+    }
+    return cells.map(c => `${c.separator}${c.text}`).join('') + cells[cells.length - 1].separator;
+  }
+
+  private static serializeInline(nodes: ADFNode[]): string {
+    return nodes.map(node => {
+      switch (node.type) {
+        case 'text': {
+          const marks = node.marks || [];
+          // Code spans are literal apart from the braces that would end them
+          const text = marks.some(m => m.type === 'code') ? this.escapeCode(node.text || '') : this.escape(node.text || '');
+          return this.applyMarks(text, marks);
+        }
+        case 'hardBreak':
+          return '\n';
+        case 'mention':
+          return `[~${node.attrs?.id}]`;
+        case 'emoji':
+          return node.attrs?.text || node.attrs?.shortName || '';
+        case 'inlineCard':
+          return `[${node.attrs?.url}]`;
+        case 'status':
+          return `*${this.escape(node.attrs?.text || '')}*`;
+        default:
+          return node.content ? this.serializeInline(node.content) : node.text || '';
+      }
+    }).join('');
+  }
+
+  private static applyMarks(text: string, marks: ADFMark[]): string {
+    if (!text) {
+      return text;
+    }
+
+    let result = text;
+    let link: ADFMark | undefined;
+
+    for (const mark of marks) {
+      switch (mark.type) {
+        case 'strong': result = `*${result}*`; break;
+        case 'em': result = `_${result}_`; break;
+        case 'strike': result = `-${result}-`; break;
+        case 'underline': result = `+${result}+`; break;
+        case 'code': result = `{{${result}}}`; break;
+        case 'subsup': result = mark.attrs?.type === 'sub' ? `~${result}~` : `^${result}^`; break;
+        case 'textColor': result = `{color:${mark.attrs?.color}}${result}{color}`; break;
+        case 'link': link = mark; break;
+      }
+    }
+
+    if (link) {
+      const href = link.attrs?.href || '';
+      result = result === href ? `[${href}]` : `[${result}|${href}]`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Escape characters that would otherwise start markup
+   */
+  private static escape(text: string): string {
+    let result = '';
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const prev = text[i - 1];
+      const next = text[i + 1];
+
+      if (i === 0 || prev === '\n') {
+        // Would start a list item
+        if (char === '#' || ((char === '*' || char === '-') && next === ' ')) {
+          result += `\\${char}`;
+          continue;
+        }
+      }
+
+      if (char === '\\' || char === '&') {
+        result += this.literal(text, i, ESCAPABLE);
+      } else if ('{}[]|!'.includes(char)) {
+        result += `\\${char}`;
+      } else if (char in INLINE_MARKS) {
+        // Only escape where the character could open or close formatting
+        const canOpen = (prev === undefined || !/\w/.test(prev)) && next !== undefined && !/\s/.test(next);
+        const canClose = (next === undefined || !/\w/.test(next)) && prev !== undefined && !/\s/.test(prev);
+        result += canOpen || canClose ? `\\${char}` : char;
+      } else {
+        result += char;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Escape code span text: only braces, so "}" can't close the span early
+   */
+  private static escapeCode(text: string): string {
+    let result = '';
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '{' || char === '}') {
+        result += `\\${char}`;
+      } else if (char === '\\' || char === '&') {
+        result += this.literal(text, i, '{}');
+      } else {
+        result += char;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * A backslash or ampersand at text[i], as an entity where it would otherwise
+   * read back as a line break, an escape or an entity
+   */
+  private static literal(text: string, i: number, escapable: string): string {
+    if (text[i] === '&') {
+      return ENTITY.test(text.slice(i)) ? '&#38;' : '&';
+    }
+    const next = text[i + 1];
+    return next === undefined || next === '\\' || escapable.includes(next) ? '&#92;' : '\\';
+  }
+
+  /**
+   * Undo escapeCode
+   */
+  private static unescapeCode(text: string): string {
+    return text.replace(/\\([{}])|&#(92|38);/g, (_, brace, code) => brace ?? String.fromCharCode(Number(code)));
+  }
+
+  // ---------------------------------------------------------------------------
+  // wiki markup -> ADF
+
+  private static parseBlocks(lines: string[]): ADFNode[] {
+    const blocks: ADFNode[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (line.trim() === '') {
+        i++;
+        continue;
+      }
+
+      const macro = line.match(MACRO_OPEN);
+      if (macro) {
+        const [, name, params, rest] = macro;
+        const close = `{${name}}`;
+        const body: string[] = [];
+        let current = rest;
+        let isFirst = true;
+        i++;
+
+        // The body may start on the opening line and end on the closing one;
+        // an unterminated macro runs to the end of the text
+        for (;;) {
+          const end = current.indexOf(close);
+          if (end !== -1) {
+            if (end > 0) {
+              body.push(current.slice(0, end));
+            }
+            break;
+          }
+          if (current || !isFirst) {
+            body.push(current);
+          }
+          if (i >= lines.length) {
+            break;
+          }
+          current = lines[i++];
+          isFirst = false;
+        }
+
+        blocks.push(this.buildMacro(name, params, body));
+        continue;
+      }
+
+      const heading = line.match(HEADING);
+      if (heading) {
+        blocks.push({
+          type: 'heading',
+          attrs: { level: parseInt(heading[1], 10) },
+          content: this.parseInline(heading[2].trim()),
+        });
+        i++;
+        continue;
+      }
+
+      const quote = line.match(BLOCK_QUOTE);
+      if (quote) {
+        blocks.push({ type: 'blockquote', content: [{ type: 'paragraph', content: this.parseInline(quote[1]) }] });
+        i++;
+        continue;
+      }
+
+      if (RULE.test(line)) {
+        blocks.push({ type: 'rule' });
+        i++;
+        continue;
+      }
+
+      if (TABLE_ROW.test(line)) {
+        const rows: string[] = [];
+        while (i < lines.length && TABLE_ROW.test(lines[i])) {
+          rows.push(lines[i++]);
+        }
+        blocks.push(this.buildTable(rows));
+        continue;
+      }
+
+      if (LIST_ITEM.test(line)) {
+        const items: string[] = [];
+        while (i < lines.length && LIST_ITEM.test(lines[i])) {
+          items.push(lines[i++]);
+        }
+        blocks.push(...this.buildLists(items));
+        continue;
+      }
+
+      const image = line.match(IMAGE_LINE);
+      if (image) {
+        blocks.push({
+          type: 'mediaSingle',
+          attrs: { layout: 'center' },
+          content: [{ type: 'media', attrs: { type: 'external', url: image[1] } }],
+        });
+        i++;
+        continue;
+      }
+
+      // Paragraph: consecutive plain lines, joined with line breaks
+      const paragraph: string[] = [];
+      while (i < lines.length && lines[i].trim() !== '' && !this.startsBlock(lines[i])) {
+        paragraph.push(lines[i++]);
+      }
+      const content: ADFNode[] = [];
+      paragraph.forEach((text, index) => {
+        if (index > 0) {
+          content.push({ type: 'hardBreak' });
+        }
+        content.push(...this.parseInline(text));
+      });
+      blocks.push({ type: 'paragraph', content });
+    }
+
+    return blocks;
+  }
+
+  private static startsBlock(line: string): boolean {
+    return MACRO_OPEN.test(line) || HEADING.test(line) || BLOCK_QUOTE.test(line) || RULE.test(line) ||
+      TABLE_ROW.test(line) || LIST_ITEM.test(line) || IMAGE_LINE.test(line);
+  }
+
+  private static buildMacro(name: string, params: string | undefined, body: string[]): ADFNode {
+    if (name === 'code' || name === 'noformat') {
+      // {code:java} or {code:language=java|title=...}
+      const language = params?.split('|')
+        .map(p => p.trim())
+        .map(p => (p.startsWith('language=') ? p.slice('language='.length) : p))
+        .find(p => p && !p.includes('='));
+      const node: ADFNode = { type: 'codeBlock', content: body.length > 0 ? [{ type: 'text', text: body.join('\n') }] : [] };
+      if (name === 'code' && language) {
+        node.attrs = { language };
+      }
+      return node;
+    }
+
+    const content = this.parseBlocks(body);
+    if (name === 'quote') {
+      return { type: 'blockquote', content };
+    }
+    return { type: 'panel', attrs: { panelType: PANEL_MACROS[name] }, content };
+  }
+
+  private static buildTable(rows: string[]): ADFNode {
+    return {
+      type: 'table',
+      attrs: { isNumberColumnEnabled: false, layout: 'default' },
+      content: rows.map(row => ({
+        type: 'tableRow',
+        content: this.splitCells(row.trim()).map(cell => ({
+          type: cell.header ? 'tableHeader' : 'tableCell',
+          attrs: {},
+          content: [{ type: 'paragraph', content: this.parseInline(cell.text.trim()) }],
+        })),
+      })),
+    };
+  }
+
+  private static splitCells(row: string): Array<{ header: boolean; text: string }> {
+    const cells: Array<{ header: boolean; text: string }> = [];
+    let i = 0;
+    let current: { header: boolean; text: string } | null = null;
+    // Pipes inside links ([text|url]) and escapes don't separate cells
+    let bracketDepth = 0;
+
+    while (i < row.length) {
+      const char = row[i];
+      if (char === '\\' && i + 1 < row.length) {
+        if (current) {
+          current.text += row.slice(i, i + 2);
+        }
+        i += 2;
+        continue;
+      }
+      if (char === '[') bracketDepth++;
+      if (char === ']' && bracketDepth > 0) bracketDepth--;
+
+      if (char === '|' && bracketDepth === 0) {
+        const header = row[i + 1] === '|';
+        if (current) {
+          cells.push(current);
+        }
+        current = { header, text: '' };
+        i += header ? 2 : 1;
+        continue;
+      }
+
+      if (current) {
+        current.text += char;
+      }
+      i++;
+    }
+
+    // A trailing separator leaves an empty, unterminated cell behind
+    if (current && current.text.trim() !== '') {
+      cells.push(current);
+    }
+    return cells;
+  }
+
+  private static buildLists(lines: string[]): ADFNode[] {
+    const roots: ADFNode[] = [];
+    // Stack of open lists with their marker prefix, e.g. "*", "*#"
+    const stack: Array<{ prefix: string; list: ADFNode }> = [];
+
+    for (const line of lines) {
+      const match = line.match(LIST_ITEM)!;
+      const prefix = match[1] === '-' ? '*' : match[1];
+      const type = prefix.endsWith('#') ? 'orderedList' : 'bulletList';
+
+      while (stack.length > 0 && !prefix.startsWith(stack[stack.length - 1].prefix)) {
+        stack.pop();
+      }
+
+      let top = stack[stack.length - 1];
+      if (!top || top.prefix !== prefix) {
+        const list: ADFNode = { type, content: [] };
+        if (top) {
+          // Nest under the last item of the parent list
+          const parentItems = top.list.content!;
+          let parentItem = parentItems[parentItems.length - 1];
+          if (!parentItem) {
+            parentItem = { type: 'listItem', content: [] };
+            parentItems.push(parentItem);
+          }
+          parentItem.content!.push(list);
+        } else {
+          roots.push(list);
+        }
+        top = { prefix, list };
+        stack.push(top);
+      }
+
+      top.list.content!.push({
+        type: 'listItem',
+        content: [{ type: 'paragraph', content: this.parseInline(match[2]) }],
+      });
+    }
+
+    return roots;
+  }
+
+  private static parseInline(text: string, marks: ADFMark[] = []): ADFNode[] {
+    const nodes: ADFNode[] = [];
+    let buffer = '';
+
+    const flush = () => {
+      if (buffer) {
+        this.pushText(nodes, buffer, marks);
+        buffer = '';
+      }
+    };
+
+    let i = 0;
+    while (i < text.length) {
+      const char = text[i];
+      const rest = text.slice(i);
+
+      if (rest.startsWith('\\\\')) {
+        flush();
+        nodes.push({ type: 'hardBreak' });
+        i += 2;
+        continue;
+      }
+
+      if (char === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+        buffer += text[i + 1];
+        i += 2;
+        continue;
+      }
+
+      const entity = rest.match(ENTITY);
+      if (entity) {
+        buffer += String.fromCharCode(Number(entity[1]));
+        i += entity[0].length;
+        continue;
+      }
+
+      const code = rest.match(/^\{\{((?:\\[{}]|[^\\]|\\(?![{}]))+?)\}\}/);
+      if (code) {
+        flush();
+        this.pushText(nodes, this.unescapeCode(code[1]), [...marks, { type: 'code' }]);
+        i += code[0].length;
+        continue;
+      }
+
+      const color = rest.match(/^\{color:([^}]+)\}(.*?)\{color\}/);
+      if (color) {
+        flush();
+        nodes.push(...this.parseInline(color[2], [...marks, { type: 'textColor', attrs: { color: color[1] } }]));
+        i += color[0].length;
+        continue;
+      }
+
+      const link = rest.match(/^\[([^\]|]*?)(?:\|([^\]]+))?\]/);
+      if (link) {
+        flush();
+        const [whole, first, second] = link;
+        if (!second && first.startsWith('~')) {
+          const id = first.slice(1).replace(/^accountid:/, '');
+          nodes.push({ type: 'mention', attrs: { id, text: `@${id}`, userType: 'DEFAULT' } });
+        } else {
+          const href = second || first;
+          const label = second ? first : href;
+          nodes.push(...this.parseInline(label, [...marks, { type: 'link', attrs: { href } }]));
+        }
+        i += whole.length;
+        continue;
+      }
+
+      const markType = INLINE_MARKS[char];
+      if (markType) {
+        const end = this.findClosing(text, i, char);
+        if (end !== -1) {
+          flush();
+          const mark: ADFMark = markType === 'sup' || markType === 'sub'
+            ? { type: 'subsup', attrs: { type: markType } }
+            : { type: markType };
+          nodes.push(...this.parseInline(text.slice(i + 1, end), [...marks, mark]));
+          i = end + 1;
+          continue;
+        }
+      }
+
+      buffer += char;
+      i++;
+    }
+
+    flush();
+    return nodes;
+  }
+
+  /**
+   * Find where formatting opened at `start` closes: the opener must follow a
+   * non-word character and precede a non-space, and the closer the reverse
+   */
+  private static findClosing(text: string, start: number, char: string): number {
+    const prev = text[start - 1];
+    const next = text[start + 1];
+    if ((prev !== undefined && /\w/.test(prev)) || next === undefined || /\s/.test(next) || next === char) {
+      return -1;
+    }
+
+    for (let j = start + 2; j < text.length; j++) {
+      if (text[j] === '\\') {
+        j++;
+        continue;
+      }
+      if (text[j] === char && !/\s/.test(text[j - 1]) && (j + 1 >= text.length || !/\w/.test(text[j + 1]))) {
+        return j;
+      }
+    }
+    return -1;
+  }
+
+  private static pushText(nodes: ADFNode[], text: string, marks: ADFMark[]): void {
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text' && JSON.stringify(last.marks || []) === JSON.stringify(marks)) {
+      last.text += text;
+      return;
+    }
+
+    const node: ADFNode = { type: 'text', text };
+    if (marks.length > 0) {
+      node.marks = marks;
+    }
+    nodes.push(node);
+  }
+}
@@ -0,0 +1,96 @@
+import { JiraStatus, JiraTransition } from '../types/jira.js';
+
+export interface TransitionStep {
+  id: string;
+  name: string;
+  from: string;
+  to: string;
+}
+
+export interface TransitionPlan {
+  // Shortest chain of transitions, empty when already in the target status; null when none was found
+  steps: TransitionStep[] | null;
+  // The transitions behind the steps, as the lookup gave them (with their screen fields)
+  transitions?: JiraTransition[];
+  // Statuses the search could get to, for error messages
+  reachable: string[];
+  // Statuses whose outgoing transitions couldn't be learnt
+  unexplored: string[];
+}
+
+/**
+ * Transitions out of a status, or null when they can't be found out
+ */
+export type TransitionLookup = (status: JiraStatus) => Promise<JiraTransition[] | null>;
+
+/**
+ * Finds a chain of transitions to a status through the workflow. Jira only
+ * lists the transitions out of an issue's current status, so the others come
+ * from a lookup (the client asks issues that are in those statuses now).
+ */
+export class WorkflowPath {
+  /**
+   * Breadth-first search, so the plan has the fewest steps
+   * @param transitions Transitions available from the current status
+   */
+  static async find(
+    current: string,
+    transitions: JiraTransition[],
+    target: string,
+    lookup: TransitionLookup,
+    maxSteps: number
+  ): Promise<TransitionPlan> {
+    const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    // How each status is reached, by lower-case name
+    const routes = new Map<string, Array<{ step: TransitionStep; transition: JiraTransition }>>([[current.toLowerCase(), []]]);
+    const reachable: string[] = [];
+    const unexplored: string[] = [];
+
+    if (same(current, target)) {
+      return { steps: [], transitions: [], reachable, unexplored };
+    }
+
+    let frontier: Array<{ status: JiraStatus | null; name: string }> = [{ status: null, name: current }];
+    for (let depth = 0; depth < maxSteps && frontier.length > 0; depth++) {
+      // Look up a whole level at once
+      const outgoing = await Promise.all(frontier.map(({ status }) => status ? lookup(status) : Promise.resolve(transitions)));
+      const next: typeof frontier = [];
+
+      for (let i = 0; i < frontier.length; i++) {
+        const from = frontier[i].name;
+        if (!outgoing[i]) {
+          unexplored.push(from);
+          continue;
+        }
+        for (const transition of outgoing[i]!) {
+          const to = transition.to.name;
+          if (routes.has(to.toLowerCase())) {
+            continue;
+          }
+          const route = [...routes.get(from.toLowerCase())!, { step: { id: transition.id, name: transition.name, from, to }, transition }];
+          if (same(to, target)) {
+            return {
+              steps: route.map(hop => hop.step),
+              transitions: route.map(hop => hop.transition),
+              reachable: [...reachable, to],
+              unexplored,
+            };
+          }
+          routes.set(to.toLowerCase(), route);
+          reachable.push(to);
+          next.push({ status: transition.to, name: to });
+        }
+      }
+      frontier = next;
+    }
+
+    return { steps: null, reachable, unexplored };
+  }
+
+  /**
+   * "To Do → In Progress → Done"
+   */
+  static describe(steps: TransitionStep[]): string {
+    return steps.length > 0 ? [steps[0].from, ...steps.map(step => step.to)].join(' → ') : '';
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AgileClient } from '../../../src/clients/agile.js';
+
+const config = {
+  host: 'example.atlassian.net',
+  email: 'user@example.com',
+  apiToken: 'token',
+  project: 'PROJ',
+};
+
+const boards = [
+  { id: 1, name: 'PROJ board', type: 'scrum' },
+  { id: 2, name: 'PROJ kanban', type: 'kanban' },
+] as any[];
+
+const sprints = [
+  { id: 10, name: 'Sprint 1', state: 'closed' },
+  { id: 11, name: 'Sprint 2', state: 'active' },
+  { id: 12, name: 'Sprint 3', state: 'future' },
+] as any[];
+
+describe('AgileClient', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getBoards', () => {
+    it('should follow pagination until the last page', async () => {
+      const client = new AgileClient(config);
+      const request = vi.spyOn(client as any, 'request')
+        .mockResolvedValueOnce({ values: [boards[0]], startAt: 0, maxResults: 1, isLast: false })
+        .mockResolvedValueOnce({ values: [boards[1]], startAt: 1, maxResults: 1, isLast: true });
+
+      const result = await client.getBoards('PROJ');
+
+      expect(result.map(b => b.id)).toEqual([1, 2]);
+      expect(request.mock.calls[0][0]).toContain('projectKeyOrId=PROJ');
+      expect(request.mock.calls[1][0]).toContain('startAt=1');
+    });
+  });
+
+  describe('resolveBoard', () => {
+    it('should match a board by name case-insensitively', async () => {
+      const client = new AgileClient(config);
+      vi.spyOn(client, 'getBoards').mockResolvedValue(boards);
+      expect((await client.resolveBoard('proj KANBAN', 'PROJ')).id).toBe(2);
+    });
+
+    it('should fetch numeric IDs directly', async () => {
+      const client = new AgileClient(config);
+      const getBoard = vi.spyOn(client, 'getBoard').mockResolvedValue(boards[1]);
+      expect((await client.resolveBoard('2', 'PROJ')).id).toBe(2);
+      expect(getBoard).toHaveBeenCalledWith(2);
+    });
+
+    it('should use the only board when none is configured', async () => {
+      const client = new AgileClient(config);
+      vi.spyOn(client, 'getBoards').mockResolvedValue([boards[0]]);
+      expect((await client.resolveBoard(undefined, 'PROJ')).id).toBe(1);
+    });
+
+    it('should refuse to guess between several boards', async () => {
+      const client = new AgileClient(config);
+      vi.spyOn(client, 'getBoards').mockResolvedValue(boards);
+      await expect(client.resolveBoard(undefined, 'PROJ')).rejects.toThrow('several boards');
+    });
+
+    it('should list available boards when the name is unknown', async () => {
+      const client = new AgileClient(config);
+      vi.spyOn(client, 'getBoards').mockResolvedValue(boards);
+      await expect(client.resolveBoard('Nope', 'PROJ')).rejects.toThrow('"PROJ board" (1)');
+    });
+  });
+
+  describe('findSprint', () => {
+    it('should match a sprint by name', async () => {
+      const client = new AgileClient(config);
+      vi.spyOn(client, 'getSprints').mockResolvedValue(sprints);
+      expect((await client.findSprint(1, 'sprint 3')).id).toBe(12);
+    });
+
+    it('should list open sprints when the name is unknown', async () => {
+      const client = new AgileClient(config);
+      vi.spyOn(client, 'getSprints').mockResolvedValue(sprints);
+      await expect(client.findSprint(1, 'Sprint 9')).rejects.toThrow('"Sprint 2", "Sprint 3"');
+    });
+  });
+
+  describe('moveIssuesToSprint', () => {
+    it('should send issues in batches of 50', async () => {
+      const client = new AgileClient(config);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue(undefined);
+      const keys = Array.from({ length: 120 }, (_, i) => `PROJ-${i + 1}`);
+
+      await client.moveIssuesToSprint(11, keys);
+
+      expect(request).toHaveBeenCalledTimes(3);
+      expect((request.mock.calls[2][1] as any).json.issues).toHaveLength(20);
+    });
+  });
+});
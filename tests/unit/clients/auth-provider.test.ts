@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createAuthProvider, OAuthProvider } from '../../../src/clients/auth-provider.js';
+import { TokenStore } from '../../../src/config/token-store.js';
+import { OAuthFlow } from '../../../src/clients/oauth.js';
+
+const base = {
+  host: 'example.atlassian.net',
+  email: 'user@example.com',
+  apiToken: 'token',
+  project: 'PROJ',
+};
+
+describe('auth providers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should default to basic auth against https', async () => {
+    const provider = createAuthProvider(base);
+
+    expect(provider.type).toBe('basic');
+    expect(provider.baseUrl()).toBe('https://example.atlassian.net');
+    expect(await provider.authorization()).toBe(`Basic ${Buffer.from('user@example.com:token').toString('base64')}`);
+  });
+
+  it('should send personal access tokens as bearer tokens and keep a full host URL', async () => {
+    const provider = createAuthProvider({ ...base, authType: 'pat', host: 'http://jira.internal:8080/jira/' });
+
+    expect(provider.baseUrl()).toBe('http://jira.internal:8080/jira');
+    expect(await provider.authorization()).toBe('Bearer token');
+  });
+
+  it('should require a client and cloud ID for OAuth', () => {
+    expect(() => createAuthProvider({ ...base, authType: 'oauth' })).toThrow('jira auth set');
+  });
+
+  describe('OAuth', () => {
+    const oauth = { clientId: 'client', cloudId: 'cloud-1' };
+    const stored = { clientSecret: 'secret', accessToken: 'old', refreshToken: 'r1', expiresAt: Date.now() + 3600_000 };
+
+    it('should call the API through api.atlassian.com with the stored access token', async () => {
+      vi.spyOn(TokenStore, 'load').mockResolvedValue({ ...stored });
+      const provider = createAuthProvider({ ...base, authType: 'oauth', oauth });
+
+      expect(provider.baseUrl()).toBe('https://api.atlassian.com/ex/jira/cloud-1');
+      expect(await provider.authorization()).toBe('Bearer old');
+    });
+
+    it('should refresh an expired token and persist the rotated refresh token', async () => {
+      vi.spyOn(TokenStore, 'load').mockResolvedValue({ ...stored, expiresAt: Date.now() - 1000 });
+      const save = vi.spyOn(TokenStore, 'save').mockResolvedValue();
+      const refresh = vi.spyOn(OAuthFlow, 'refresh')
+        .mockResolvedValue({ accessToken: 'new', refreshToken: 'r2', expiresAt: Date.now() + 3600_000 });
+      const provider = new OAuthProvider(oauth);
+
+      expect(await provider.authorization()).toBe('Bearer new');
+      expect(refresh).toHaveBeenCalledWith('client', 'secret', 'r1');
+      expect(save).toHaveBeenCalledWith('client', expect.objectContaining({ accessToken: 'new', refreshToken: 'r2', clientSecret: 'secret' }), undefined);
+    });
+
+    it('should share a single refresh between concurrent callers', async () => {
+      vi.spyOn(TokenStore, 'load').mockResolvedValue({ ...stored });
+      vi.spyOn(TokenStore, 'save').mockResolvedValue();
+      const refresh = vi.spyOn(OAuthFlow, 'refresh')
+        .mockResolvedValue({ accessToken: 'new', refreshToken: 'r2', expiresAt: Date.now() + 3600_000 });
+      const provider = new OAuthProvider(oauth);
+
+      await Promise.all([provider.refresh(), provider.refresh()]);
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('should load tokens stored for the active profile', async () => {
+      const load = vi.spyOn(TokenStore, 'load').mockResolvedValue({ ...stored });
+      const provider = createAuthProvider({ ...base, authType: 'oauth', oauth, profile: 'client' });
+
+      await provider.authorization();
+
+      expect(load).toHaveBeenCalledWith('client', 'client');
+    });
+
+    it('should ask the user to sign in when no tokens are stored', async () => {
+      vi.spyOn(TokenStore, 'load').mockResolvedValue(null);
+      const provider = new OAuthProvider(oauth);
+
+      await expect(provider.authorization()).rejects.toThrow('Run "jira auth set" to sign in');
+    });
+  });
+});
@@ -0,0 +1,472 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CoreClient } from '../../../src/clients/core.js';
+
+const config = {
+  host: 'example.atlassian.net',
+  email: 'user@example.com',
+  apiToken: 'token',
+  project: 'PROJ',
+};
+
+function issues(...keys: string[]) {
+  return keys.map(key => ({ key, fields: {} })) as any[];
+}
+
+async function collect<T>(iterator: AsyncGenerator<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('CoreClient', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('searchAll', () => {
+    it('should follow nextPageToken until the last page', async () => {
+      const client = new CoreClient(config);
+      const search = vi.spyOn(client, 'searchIssues')
+        .mockResolvedValueOnce({ total: 3, issues: issues('P-1', 'P-2'), nextPageToken: 'abc' })
+        .mockResolvedValueOnce({ total: 3, issues: issues('P-3') });
+
+      const result = await collect(client.searchAll({ jql: 'project = P', maxResults: 2 }));
+
+      expect(result.map(i => i.key)).toEqual(['P-1', 'P-2', 'P-3']);
+      expect(search).toHaveBeenCalledTimes(2);
+      expect(search.mock.calls[1][0]).toMatchObject({ jql: 'project = P', nextPageToken: 'abc' });
+    });
+
+    it('should stop at the max cap without fetching further pages', async () => {
+      const client = new CoreClient(config);
+      const search = vi.spyOn(client, 'searchIssues')
+        .mockResolvedValueOnce({ total: 10, issues: issues('P-1', 'P-2'), nextPageToken: 'abc' })
+        .mockResolvedValueOnce({ total: 10, issues: issues('P-3'), nextPageToken: 'def' });
+
+      const result = await collect(client.searchAll({ maxResults: 2, max: 3 }));
+
+      expect(result.map(i => i.key)).toEqual(['P-1', 'P-2', 'P-3']);
+      expect(search).toHaveBeenCalledTimes(2);
+      expect(search.mock.calls[1][0].maxResults).toBe(1);
+    });
+
+    it('should stop on an empty page', async () => {
+      const client = new CoreClient(config);
+      vi.spyOn(client, 'searchIssues')
+        .mockResolvedValueOnce({ total: 0, issues: [], nextPageToken: 'abc' });
+
+      expect(await collect(client.searchAll())).toEqual([]);
+    });
+  });
+
+  describe('updateIssue', () => {
+    it('should clear the assignee and description when asked to', async () => {
+      const client = new CoreClient(config);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue(undefined);
+
+      await client.updateIssue('PROJ-1', { assignee: null, description: '' });
+
+      const [path, options] = request.mock.calls[0] as [string, any];
+      expect(path).toBe('rest/api/3/issue/PROJ-1');
+      expect(options.json.fields).toEqual({ assignee: null, description: null });
+    });
+  });
+
+  describe('planTransitions', () => {
+    it('should learn transitions out of other statuses from issues in them', async () => {
+      const client = new CoreClient(config);
+      const issue = { key: 'PROJ-1', fields: { project: { id: '100' }, issuetype: { id: '7' }, status: { name: 'To Do' } } } as any;
+      const search = vi.spyOn(client, 'searchIssues').mockResolvedValue({ total: 1, issues: issues('PROJ-2') });
+      vi.spyOn(client, 'getTransitions').mockImplementation(async (key) => key === 'PROJ-1'
+        ? [{ id: '11', name: 'Start', to: { id: '3', name: 'In Progress' } }] as any
+        : [{ id: '31', name: 'Finish', to: { id: '10001', name: 'Done' } }] as any);
+
+      const plan = await client.planTransitions(issue, 'Done', 5);
+
+      expect(search).toHaveBeenCalledWith(expect.objectContaining({
+        jql: 'project = 100 AND issuetype = 7 AND status = 3 AND key != PROJ-1',
+        maxResults: 1,
+      }));
+      expect(plan.steps?.map(step => step.name)).toEqual(['Start', 'Finish']);
+    });
+  });
+
+  describe('transition screens', () => {
+    const done = {
+      id: '31',
+      name: 'Done',
+      to: { name: 'Done' },
+      fields: {
+        resolution: { required: true, name: 'Resolution', schema: { type: 'resolution', system: 'resolution' }, allowedValues: [{ id: '1', name: 'Fixed' }, { id: '2', name: "Won't Do" }] },
+        fixVersions: { required: false, name: 'Fix versions', schema: { type: 'array', items: 'version' }, allowedValues: [{ id: '10', name: '2.0' }] },
+      },
+    } as any;
+
+    it('should read transitions with their screen fields', async () => {
+      const client = new CoreClient(config);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue({ transitions: [done] });
+
+      const transitions = await client.getTransitions('PROJ-1');
+
+      expect(request.mock.calls[0][0]).toBe('rest/api/3/issue/PROJ-1/transitions?expand=transitions.fields');
+      expect(client.transitionFields(transitions[0]).map(field => field.fieldId)).toEqual(['resolution', 'fixVersions']);
+    });
+
+    it('should send resolved screen values with the transition', async () => {
+      const client = new CoreClient(config);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue(undefined);
+
+      const fields = await client.resolveTransitionFields(done, { resolution: "won't do", 'Fix versions': '2.0' });
+      await client.transitionIssue('PROJ-1', '31', undefined, fields);
+
+      expect((request.mock.calls[0][1] as any).json).toEqual({
+        transition: { id: '31' },
+        fields: { resolution: { id: '2' }, fixVersions: [{ id: '10' }] },
+      });
+      await expect(client.resolveTransitionFields(done, { Resolutoin: 'Fixed' })).rejects.toThrow('Unknown field "Resolutoin" for the "Done" transition. Did you mean "Resolution"?');
+    });
+  });
+
+  describe('getChildren', () => {
+    it('should include Epic Link children for epics', async () => {
+      const client = new CoreClient(config);
+      const search = vi.spyOn(client, 'searchIssues').mockResolvedValue({ total: 2, issues: issues('P-2', 'P-3') });
+
+      const children = await client.getChildren('P-1', ['summary'], true);
+
+      expect(children.map(c => c.key)).toEqual(['P-2', 'P-3']);
+      expect(search.mock.calls[0][0].jql).toBe('parent = P-1 OR "Epic Link" = P-1 ORDER BY key ASC');
+    });
+
+    it('should fall back to parent when the instance has no Epic Link field', async () => {
+      const client = new CoreClient(config);
+      const search = vi.spyOn(client, 'searchIssues')
+        .mockRejectedValueOnce(Object.assign(new Error('Bad Request'), { response: { statusCode: 400 } }))
+        .mockResolvedValueOnce({ total: 1, issues: issues('P-2') });
+
+      const children = await client.getChildren('P-1', ['summary'], true);
+
+      expect(children.map(c => c.key)).toEqual(['P-2']);
+      expect(search.mock.calls[1][0].jql).toBe('parent = P-1 ORDER BY key ASC');
+    });
+  });
+
+  describe('fields by name', () => {
+    const team = { fieldId: 'customfield_10050', name: 'Team', schema: { type: 'option' }, allowedValues: [{ id: '7', value: 'Platform' }] };
+
+    it('should resolve --field values against the create screen', async () => {
+      const client = new CoreClient(config);
+      const request = vi.spyOn(client as any, 'request').mockImplementation(async (path: any) => {
+        if (path === 'rest/api/3/issue/createmeta/PROJ/issuetypes?maxResults=200') {
+          return { issueTypes: [{ id: '10001', name: 'Story' }] };
+        }
+        if (path === 'rest/api/3/issue/createmeta/PROJ/issuetypes/10001?maxResults=200') {
+          return { fields: [team] };
+        }
+        return { id: '1', key: 'PROJ-1', self: '' };
+      });
+
+      await client.createIssue({ summary: 'With team', issueType: 'story', fields: { team: 'platform' } });
+      await client.createIssue({ summary: 'Again', issueType: 'Story', fields: { Team: 'Platform' } });
+
+      const creates = request.mock.calls.filter(call => call[0] === 'rest/api/3/issue');
+      expect((creates[0][1] as any).json.fields.customfield_10050).toEqual({ id: '7' });
+      // The create screen is fetched once per client
+      expect(request.mock.calls.filter(call => String(call[0]).startsWith('rest/api/3/issue/createmeta'))).toHaveLength(2);
+    });
+
+    it('should fall back to the expanded createmeta on older instances', async () => {
+      const client = new CoreClient(config);
+      vi.spyOn(client as any, 'request').mockImplementation(async (path: any) => {
+        if (String(path).startsWith('rest/api/3/issue/createmeta/')) {
+          throw Object.assign(new Error('Not Found'), { response: { statusCode: 404 } });
+        }
+        return { projects: [{ issuetypes: [{ name: 'Bug', fields: { customfield_10050: { ...team, fieldId: undefined } } }] }] };
+      });
+
+      expect(await client.getCreateFields('PROJ', 'Bug')).toEqual([{ ...team }]);
+      await expect(client.getCreateFields('PROJ', 'Epic')).rejects.toThrow('Issue type "Epic" not found in project PROJ');
+    });
+  });
+
+  describe('field aliases', () => {
+    const aliased = { ...config, fieldAliases: { storyPoints: 'customfield_10106', epicLink: 'customfield_10200', team: 'customfield_10050' } };
+
+    it('should write story points and Epic Link to the aliased fields without probing', async () => {
+      const client = new CoreClient(aliased);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue({ id: '1', key: 'PROJ-1', self: '' });
+
+      await client.createIssue({ summary: 'Pointed', issueType: 'Story', storyPoints: 5, epic: 'PROJ-9' });
+      await client.updateIssue('PROJ-1', { storyPoints: 8 });
+
+      expect(request.mock.calls.map(call => call[0])).toEqual(['rest/api/3/issue', 'rest/api/3/issue/PROJ-1']);
+      expect((request.mock.calls[0][1] as any).json.fields).toMatchObject({ customfield_10106: 5, customfield_10200: 'PROJ-9' });
+      expect((request.mock.calls[1][1] as any).json.fields).toEqual({ customfield_10106: 8 });
+    });
+
+    it('should accept an alias as a --field name', async () => {
+      const client = new CoreClient(aliased);
+      vi.spyOn(client, 'getEditFields').mockResolvedValue([{ fieldId: 'customfield_10050', name: 'Squad', schema: { type: 'string' } }]);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue(undefined);
+
+      await client.updateIssue('PROJ-1', { fields: { Team: 'Platform' } });
+
+      expect((request.mock.calls[0][1] as any).json.fields).toEqual({ customfield_10050: 'Platform' });
+    });
+  });
+
+  describe('createIssues', () => {
+    const rows = (n: number) => Array.from({ length: n }, (_, i) => ({ summary: `Issue ${i + 1}`, issueType: 'Task' }));
+    const created = (...keys: string[]) => keys.map(key => ({ id: key, key, self: `https://x/${key}` }));
+    const httpError = (body: any) => Object.assign(new Error('Response code 400 (Bad Request)'), { response: { statusCode: 400, body } });
+
+    it('should send at most 50 issues per bulk call and keep input order', async () => {
+      const client = new CoreClient(config);
+      const request = vi.spyOn(client as any, 'request').mockImplementation(async (_path: any, options: any) => ({
+        issues: options.json.issueUpdates.map((u: any) => ({ id: '1', key: u.fields.summary, self: '' })),
+        errors: [],
+      }));
+
+      const results = await client.createIssues(rows(120));
+
+      expect(request.mock.calls.map(call => (call[1] as any).json.issueUpdates.length).sort()).toEqual([20, 50, 50]);
+      expect(request.mock.calls[0][0]).toBe('rest/api/3/issue/bulk');
+      expect(results.map(r => r.issue?.key)).toEqual(rows(120).map(r => r.summary));
+    });
+
+    it('should report each row as soon as it settles', async () => {
+      const client = new CoreClient(config);
+      vi.spyOn(client as any, 'request').mockResolvedValue({
+        issues: created('P-1'),
+        errors: [{ status: 400, failedElementNumber: 0, elementErrors: { errorMessages: ['Summary is too long'], errors: {} } }],
+      });
+      const seen: Array<[number, string | undefined]> = [];
+
+      await client.createIssues(rows(2), (index, result) => seen.push([index, result.issue?.key ?? result.error]));
+
+      expect(seen.sort()).toEqual([[0, 'Summary is too long'], [1, 'P-1']]);
+    });
+
+    it('should map per-element errors back onto their rows', async () => {
+      const client = new CoreClient(config);
+      vi.spyOn(client as any, 'request').mockResolvedValue({
+        issues: created('P-1', 'P-2'),
+        errors: [{ status: 400, failedElementNumber: 1, elementErrors: { errorMessages: [], errors: { issuetype: 'Specify a valid issue type' } } }],
+      });
+
+      const results = await client.createIssues(rows(3));
+
+      expect(results).toEqual([
+        { issue: created('P-1')[0] },
+        { error: 'issuetype: Specify a valid issue type' },
+        { issue: created('P-2')[0] },
+      ]);
+    });
+
+    it('should read row errors from a 400 when every row failed', async () => {
+      const client = new CoreClient(config);
+      vi.spyOn(client as any, 'request').mockRejectedValue(httpError({
+        issues: [],
+        errors: [0, 1].map(n => ({ failedElementNumber: n, elementErrors: { errorMessages: ['Project is archived'] } })),
+      }));
+
+      const results = await client.createIssues(rows(2));
+
+      expect(results).toEqual([{ error: 'Project is archived' }, { error: 'Project is archived' }]);
+    });
+
+    it('should retry rows rejected for project-specific fields one at a time', async () => {
+      const client = new CoreClient(config);
+      vi.spyOn(client as any, 'request').mockResolvedValue({
+        issues: [],
+        errors: [{ failedElementNumber: 0, elementErrors: { errors: { customfield_10016: 'Field cannot be set' } } }],
+      });
+      const single = vi.spyOn(client, 'createIssue').mockResolvedValue({ id: '9', key: 'P-9', self: 's' } as any);
+
+      const results = await client.createIssues([{ summary: 'Pointed', issueType: 'Story', storyPoints: 3 }]);
+
+      expect(single).toHaveBeenCalledWith(expect.objectContaining({ summary: 'Pointed' }));
+      expect(results).toEqual([{ issue: { id: '9', key: 'P-9', self: 's' } }]);
+    });
+
+    it('should look up each assignee once', async () => {
+      const client = new CoreClient(config);
+      const findUser = vi.spyOn(client, 'findUser').mockResolvedValue({ accountId: 'abc' } as any);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue({ issues: created('P-1', 'P-2'), errors: [] });
+
+      await client.createIssues(rows(2).map(r => ({ ...r, assignee: 'dev@example.com' })));
+
+      expect(findUser).toHaveBeenCalledTimes(1);
+      expect((request.mock.calls[0][1] as any).json.issueUpdates[1].fields.assignee).toEqual({ accountId: 'abc' });
+    });
+  });
+
+  describe('Server/Data Center (API v2)', () => {
+    const serverConfig = { ...config, host: 'https://jira.example.com', apiVersion: '2' as const };
+
+    it('should page searches by startAt and convert wiki descriptions to ADF', async () => {
+      const client = new CoreClient(serverConfig);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue({
+        startAt: 50,
+        maxResults: 50,
+        total: 120,
+        issues: [{ key: 'P-51', fields: { description: 'h2. Steps\n\n* *one*' } }],
+      });
+
+      const result = await client.searchIssues({ jql: 'project = P', maxResults: 50, nextPageToken: '50' });
+
+      expect(request.mock.calls[0][0]).toMatch(/^rest\/api\/2\/search\?.*startAt=50/);
+      expect(result.nextPageToken).toBe('51');
+      expect(result.issues[0].fields.description.type).toBe('doc');
+      expect(result.issues[0].fields.description.content[0]).toMatchObject({ type: 'heading', attrs: { level: 2 } });
+    });
+
+    it('should stop paging at the last page', async () => {
+      const client = new CoreClient(serverConfig);
+      vi.spyOn(client as any, 'request').mockResolvedValue({ startAt: 119, maxResults: 50, total: 120, issues: issues('P-120') });
+
+      const result = await client.searchIssues({ nextPageToken: '119' });
+
+      expect(result.nextPageToken).toBeUndefined();
+    });
+
+    it('should send comments and transition comments as wiki markup', async () => {
+      const client = new CoreClient(serverConfig);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue({ id: '1', body: 'Looks *good*' });
+
+      const comment = await client.addComment('P-1', 'Looks **good**');
+      await client.transitionIssue('P-1', '31', 'Done in `main`');
+
+      expect((request.mock.calls[0][1] as any).json).toEqual({ body: 'Looks *good*' });
+      expect(comment.body.type).toBe('doc');
+      expect((request.mock.calls[1][1] as any).json.update.comment[0].add.body).toBe('Done in {{main}}');
+    });
+
+    it('should assign by username', async () => {
+      const client = new CoreClient(serverConfig);
+      const request = vi.spyOn(client as any, 'request')
+        .mockResolvedValueOnce([{ name: 'jdoe', displayName: 'Jane Doe' }])
+        .mockResolvedValueOnce(undefined);
+
+      await client.updateIssue('P-1', { assignee: 'jdoe' });
+
+      expect(request.mock.calls[0][0]).toContain('username=jdoe');
+      expect((request.mock.calls[1][1] as any).json.fields.assignee).toEqual({ name: 'jdoe' });
+    });
+
+    it('should read the changelog from the expanded issue', async () => {
+      const client = new CoreClient(serverConfig);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue({
+        key: 'P-1',
+        changelog: { histories: [{ id: '100', created: '2024-01-01T00:00:00.000+0000', items: [] }] },
+      });
+
+      const histories = await client.getChangelog('P-1');
+
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(request.mock.calls[0][0]).toBe('rest/api/3/issue/P-1?expand=changelog&fields=summary');
+      expect(histories.map(history => history.id)).toEqual(['100']);
+    });
+
+    it('should download attachments from their content URL', async () => {
+      const client = new CoreClient({ ...serverConfig, host: 'https://jira.example.com/jira' });
+      vi.spyOn(client as any, 'request').mockResolvedValue({
+        id: '10',
+        content: 'https://jira.example.com/jira/secure/attachment/10/build.log',
+      });
+      const download = vi.fn().mockResolvedValue(Buffer.from('log'));
+      (client as any).client = download;
+
+      const buffer = await client.downloadAttachment('10');
+
+      expect(download.mock.calls[0][0]).toBe('secure/attachment/10/build.log');
+      expect(buffer.toString()).toBe('log');
+    });
+  });
+
+  describe('worklogs', () => {
+    it('should page through every worklog', async () => {
+      const client = new CoreClient(config);
+      const request = vi.spyOn(client as any, 'request')
+        .mockResolvedValueOnce({ total: 3, worklogs: [{ id: '1' }, { id: '2' }] })
+        .mockResolvedValueOnce({ total: 3, worklogs: [{ id: '3' }] });
+
+      const worklogs = await client.getWorklogs('PROJ-1');
+
+      expect(worklogs.map(w => w.id)).toEqual(['1', '2', '3']);
+      expect(request.mock.calls[1][0]).toContain('startAt=2');
+    });
+
+    it('should send seconds, start and an ADF comment when adding', async () => {
+      const client = new CoreClient(config);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue({ id: '10' });
+
+      await client.addWorklog('PROJ-1', {
+        timeSpentSeconds: 5400,
+        started: '2024-05-01T09:00:00.000+0000',
+        comment: 'Pairing',
+      });
+
+      const [path, options] = request.mock.calls[0] as [string, any];
+      expect(path).toBe('rest/api/3/issue/PROJ-1/worklog');
+      expect(options.method).toBe('POST');
+      expect(options.json).toMatchObject({ timeSpentSeconds: 5400, started: '2024-05-01T09:00:00.000+0000' });
+      expect(options.json.comment.type).toBe('doc');
+    });
+
+    it('should only send changed fields when updating', async () => {
+      const client = new CoreClient(config);
+      const request = vi.spyOn(client as any, 'request').mockResolvedValue({ id: '10' });
+
+      await client.updateWorklog('PROJ-1', '10', { timeSpentSeconds: 3600 });
+
+      const [path, options] = request.mock.calls[0] as [string, any];
+      expect(path).toBe('rest/api/3/issue/PROJ-1/worklog/10');
+      expect(options).toEqual({ method: 'PUT', json: { timeSpentSeconds: 3600 } });
+    });
+  });
+
+  describe('attachments', () => {
+    it('should upload every file in one multipart request with the XSRF header', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'jira-attach-'));
+      try {
+        writeFileSync(join(dir, 'test.log'), 'FAILED');
+        writeFileSync(join(dir, 'screen.png'), Buffer.from([0x89, 0x50]));
+
+        const client = new CoreClient(config);
+        const request = vi.spyOn(client as any, 'request').mockResolvedValue([{ id: '1' }, { id: '2' }]);
+
+        await client.addAttachments('PROJ-1', [join(dir, 'test.log'), join(dir, 'screen.png')]);
+
+        const [path, options] = request.mock.calls[0] as [string, any];
+        expect(path).toBe('rest/api/3/issue/PROJ-1/attachments');
+        expect(options.method).toBe('POST');
+        expect(options.headers['X-Atlassian-Token']).toBe('no-check');
+        expect(options.headers).toHaveProperty('Content-Type', undefined);
+        expect((options.body as FormData).getAll('file').map((f: any) => f.name)).toEqual(['test.log', 'screen.png']);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should refuse missing files before uploading', async () => {
+      const client = new CoreClient(config);
+      const request = vi.spyOn(client as any, 'request');
+
+      await expect(client.addAttachments('PROJ-1', ['/nonexistent/file.log'])).rejects.toThrow('File not found');
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should read attachments from the issue fields', async () => {
+      const client = new CoreClient(config);
+      vi.spyOn(client as any, 'request').mockResolvedValue({ fields: { attachment: [{ id: '5', filename: 'a.txt' }] } });
+
+      expect((await client.getAttachments('PROJ-1')).map(a => a.id)).toEqual(['5']);
+    });
+  });
+});
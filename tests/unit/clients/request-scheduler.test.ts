@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RequestScheduler } from '../../../src/clients/request-scheduler.js';
+import { BaseClient } from '../../../src/clients/base.js';
+
+function httpError(statusCode: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${statusCode}`), { response: { statusCode, headers } });
+}
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should never run more requests at once than the concurrency limit', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 2, requestsPerSecond: 1000, burst: 100 });
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+    };
+
+    const all = Promise.all(Array.from({ length: 6 }, () => scheduler.schedule(task, true)));
+    await vi.runAllTimersAsync();
+    await all;
+
+    expect(peak).toBe(2);
+  });
+
+  it('should space requests out once the burst is used up', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 10, requestsPerSecond: 10, burst: 2 });
+    const started: number[] = [];
+    const start = Date.now();
+
+    const all = Promise.all(Array.from({ length: 4 }, () => scheduler.schedule(async () => {
+      started.push(Date.now() - start);
+    }, true)));
+    await vi.runAllTimersAsync();
+    await all;
+
+    expect(started.slice(0, 2)).toEqual([0, 0]);
+    expect(started[2]).toBeGreaterThanOrEqual(100);
+    expect(started[3]).toBeGreaterThanOrEqual(200);
+  });
+
+  it('should retry a throttled request after Retry-After, even for non-idempotent calls', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const scheduler = new RequestScheduler();
+    const start = Date.now();
+    const task = vi.fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '3' }))
+      .mockImplementation(async () => Date.now() - start);
+
+    const result = scheduler.schedule(task, false);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBeGreaterThanOrEqual(3000);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only retry server errors for idempotent requests', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 2 });
+    const failing = () => vi.fn().mockRejectedValueOnce(httpError(502)).mockResolvedValue('ok');
+
+    const post = failing();
+    await expect(scheduler.schedule(post, false)).rejects.toThrow('HTTP 502');
+    expect(post).toHaveBeenCalledTimes(1);
+
+    const get = failing();
+    const result = scheduler.schedule(get, true);
+    await vi.runAllTimersAsync();
+    expect(await result).toBe('ok');
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after maxRetries', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 2 });
+    const task = vi.fn().mockRejectedValue(Object.assign(new Error('reset'), { code: 'ECONNRESET' }));
+
+    const result = scheduler.schedule(task, true);
+    const assertion = expect(result).rejects.toThrow('reset');
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('should hold requests until the quota resets when X-RateLimit-Remaining hits zero', async () => {
+    const scheduler = new RequestScheduler();
+    const start = Date.now();
+    scheduler.observe({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': new Date(start + 5000).toISOString() });
+
+    const result = scheduler.schedule(async () => Date.now() - start, true);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBeGreaterThanOrEqual(5000);
+  });
+
+  it('should parse Retry-After as seconds or an HTTP date', () => {
+    vi.setSystemTime(new Date('2024-05-01T12:00:00Z'));
+
+    expect(RequestScheduler.parseRetryAfter('2')).toBe(2000);
+    expect(RequestScheduler.parseRetryAfter('Wed, 01 May 2024 12:00:04 GMT')).toBe(4000);
+    expect(RequestScheduler.parseRetryAfter('soon')).toBeUndefined();
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new RequestScheduler({ concurrency: NaN })).toThrow('Invalid rate limit settings');
+  });
+});
+
+describe('BaseClient scheduling', () => {
+  class TestClient extends BaseClient {
+    call(path: string, options?: any) {
+      return this.request(path, options);
+    }
+  }
+
+  it('should treat read-only POSTs like search as safe to retry', async () => {
+    const client = new TestClient({ host: 'sched.atlassian.net', email: 'a@b.c', apiToken: 't', project: 'P' });
+    (client as any).client = vi.fn().mockResolvedValue({});
+    const schedule = vi.spyOn((client as any).scheduler, 'schedule');
+
+    await client.call('rest/api/3/search/jql', { method: 'POST', json: {} });
+    await client.call('rest/api/3/issue', { method: 'POST', json: {} });
+    await client.call('rest/api/3/issue/P-1');
+
+    expect(schedule.mock.calls.map(call => call[1])).toEqual([true, false, true]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The commands load ConfigManager, which needs the keychain module
+vi.mock('keytar', () => ({}));
+
+import { applyAll, parseLabels, JqlBatchOperation } from '../../../src/commands/batch-jql.js';
+
+function issue(key: string, status = 'To Do') {
+  return { key, fields: { summary: `Summary ${key}`, status: { name: status } } } as any;
+}
+
+describe('batch JQL commands', () => {
+  describe('parseLabels', () => {
+    it('should parse add, remove and set operations', () => {
+      expect(parseLabels('add:a, b')).toEqual({ add: ['a', 'b'] });
+      expect(parseLabels('remove:old')).toEqual({ remove: ['old'] });
+      expect(parseLabels('set:')).toEqual({ set: [] });
+    });
+
+    it('should reject values without an operation', () => {
+      expect(() => parseLabels('a,b')).toThrow('add:<labels>, remove:<labels> or set:<labels>');
+      expect(() => parseLabels('add:')).toThrow('No labels given to add');
+    });
+  });
+
+  describe('applyAll', () => {
+    const client = { concurrency: 2 } as any;
+
+    it('should report an outcome per issue in search order and keep going after failures', async () => {
+      const operation: JqlBatchOperation = {
+        name: 'transition',
+        describe: () => '',
+        apply: async (_client, target) => {
+          if (target.key === 'P-2') {
+            throw new Error('No transition from "To Do" to "Done"');
+          }
+          if (target.fields.status.name === 'Done') {
+            return { outcome: 'skipped', detail: 'already Done' };
+          }
+          await new Promise(resolve => setTimeout(resolve, target.key === 'P-1' ? 5 : 0));
+          return { outcome: 'transitioned' };
+        },
+      };
+
+      const results = await applyAll(client, [issue('P-1'), issue('P-2'), issue('P-3', 'Done'), issue('P-4')], operation);
+
+      expect(results).toEqual([
+        { key: 'P-1', summary: 'Summary P-1', outcome: 'transitioned' },
+        { key: 'P-2', summary: 'Summary P-2', outcome: 'failed', error: 'No transition from "To Do" to "Done"' },
+        { key: 'P-3', summary: 'Summary P-3', outcome: 'skipped', detail: 'already Done' },
+        { key: 'P-4', summary: 'Summary P-4', outcome: 'transitioned' },
+      ]);
+    });
+
+    it('should not run more issues at once than the client allows', async () => {
+      let active = 0;
+      let peak = 0;
+      const operation: JqlBatchOperation = {
+        name: 'delete',
+        describe: () => 'delete',
+        apply: async () => {
+          peak = Math.max(peak, ++active);
+          await new Promise(resolve => setTimeout(resolve, 2));
+          active--;
+          return { outcome: 'deleted' };
+        },
+      };
+
+      await applyAll(client, ['P-1', 'P-2', 'P-3', 'P-4', 'P-5'].map(key => issue(key)), operation);
+
+      expect(peak).toBe(2);
+    });
+  });
+});
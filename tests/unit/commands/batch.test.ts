@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The commands load ConfigManager, which needs the keychain module
+vi.mock('keytar', () => ({}));
+
+import { fetchPlanIssues } from '../../../src/commands/batch.js';
+
+const httpError = (statusCode: number) => Object.assign(new Error(`HTTP ${statusCode}`), { response: { statusCode } });
+
+describe('batch apply', () => {
+  describe('fetchPlanIssues', () => {
+    it('should look keys up one by one when Jira rejects the query, skipping missing ones', async () => {
+      const client = {
+        searchAll: vi.fn(async function* () {
+          throw httpError(400);
+        }),
+        getIssue: vi.fn(async (key: string) => {
+          if (key === 'P-2') {
+            throw httpError(404);
+          }
+          return { key, fields: {} };
+        }),
+      } as any;
+
+      const issues = await fetchPlanIssues(client, ['P-1', 'P-2', 'P-3']);
+
+      expect([...issues.keys()]).toEqual(['P-1', 'P-3']);
+      expect(client.getIssue).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not hide other errors', async () => {
+      const client = {
+        searchAll: vi.fn(async function* () {
+          throw httpError(401);
+        }),
+      } as any;
+
+      await expect(fetchPlanIssues(client, ['P-1'])).rejects.toThrow('HTTP 401');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// The commands load ConfigManager, which needs the keychain module
+vi.mock('keytar', () => ({}));
+
+import { createListCommand } from '../../../src/commands/list.js';
+import { ConfigManager } from '../../../src/config/jira.js';
+import { CoreClient } from '../../../src/clients/core.js';
+import { Logger } from '../../../src/utils/logger.js';
+import { ErrorHandler } from '../../../src/utils/error-handler.js';
+import { JiraIssue } from '../../../src/types/jira.js';
+
+function issues(count: number): JiraIssue[] {
+  return Array.from({ length: count }, (_, i) => ({
+    key: `PROJ-${i + 1}`,
+    fields: { summary: `Issue ${i + 1}`, status: { name: 'To Do' }, issuetype: { name: 'Task' }, updated: '2024-01-01T00:00:00.000Z' },
+  }) as JiraIssue);
+}
+
+describe('list command', () => {
+  let json: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    Logger.setJsonMode(true);
+    json = vi.spyOn(Logger, 'json').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    vi.spyOn(ConfigManager.prototype, 'getConfig').mockResolvedValue({ host: 'example.atlassian.net', email: '', project: 'PROJ' } as never);
+  });
+
+  afterEach(() => {
+    Logger.setJsonMode(false);
+    vi.restoreAllMocks();
+  });
+
+  function matching(found: JiraIssue[]) {
+    return vi.spyOn(CoreClient.prototype, 'searchAll').mockImplementation(async function* (options = {}) {
+      yield* found.slice(0, options.max);
+    });
+  }
+
+  async function run(...args: string[]) {
+    await createListCommand().parseAsync(args, { from: 'user' });
+    return json.mock.calls[0][0] as { data: { total: number; truncated: boolean } };
+  }
+
+  it('should not report truncation when exactly --max issues match', async () => {
+    matching(issues(2));
+
+    expect((await run('--max', '2')).data).toMatchObject({ total: 2, truncated: false });
+  });
+
+  it('should report truncation only when more issues match than --max', async () => {
+    const search = matching(issues(3));
+
+    expect((await run('--max', '2')).data).toMatchObject({ total: 2, truncated: true });
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ max: 3 }));
+  });
+
+  it('should reject a --limit that is not a number when offline', async () => {
+    vi.spyOn(ErrorHandler, 'handle').mockImplementation((error) => {
+      throw error;
+    });
+
+    await expect(run('--offline', '--limit', 'abc')).rejects.toThrow('--limit must be a positive number');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+// The commands load ConfigManager, which needs the keychain module
+vi.mock('keytar', () => ({}));
+
+import { createLogCommand } from '../../../src/commands/log.js';
+import { ConfigManager } from '../../../src/config/jira.js';
+import { CoreClient } from '../../../src/clients/core.js';
+
+describe('log command', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function setup() {
+    const getConfig = vi.spyOn(ConfigManager.prototype, 'getConfig').mockResolvedValue({ host: 'example.atlassian.net', email: '', project: 'PROJ' } as any);
+    const worklog = { id: '123', timeSpent: '1h', timeSpentSeconds: 3600, started: '' };
+    const update = vi.spyOn(CoreClient.prototype, 'updateWorklog').mockResolvedValue(worklog as any);
+    const add = vi.spyOn(CoreClient.prototype, 'addWorklog').mockResolvedValue(worklog as any);
+    return { getConfig, update, add };
+  }
+
+  it('should give options after "update" to the update subcommand', async () => {
+    const { getConfig, update } = setup();
+
+    await createLogCommand().parseAsync(['update', 'PROJ-1', '123', '--comment', 'Pairing', '--started', '2024-05-01 09:00', '--project', 'OPS'], { from: 'user' });
+
+    expect(getConfig).toHaveBeenCalledWith(expect.objectContaining({ project: 'OPS' }));
+    expect(update).toHaveBeenCalledWith('PROJ-1', '123', expect.objectContaining({ comment: 'Pairing', started: expect.stringMatching(/^2024-05-01T09:00/) }));
+  });
+
+  it('should still log time with options after the duration', async () => {
+    const { add } = setup();
+
+    await createLogCommand().parseAsync(['PROJ-1', '2h', '--comment', 'Review'], { from: 'user' });
+
+    expect(add).toHaveBeenCalledWith('PROJ-1', expect.objectContaining({ timeSpentSeconds: 7200, comment: 'Review' }));
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// The commands load ConfigManager, which needs the keychain module
+vi.mock('keytar', () => ({}));
+
+import { createTransitionCommand } from '../../../src/commands/transition.js';
+import { ConfigManager } from '../../../src/config/jira.js';
+import { CoreClient } from '../../../src/clients/core.js';
+import { Logger } from '../../../src/utils/logger.js';
+import { JiraTransition } from '../../../src/types/jira.js';
+
+function transition(id: string, name: string, to: string, fields: JiraTransition['fields'] = {}): JiraTransition {
+  return { id, name, to: { id: `s-${to}`, name: to }, fields } as JiraTransition;
+}
+
+const start = transition('11', 'Start', 'In Progress');
+const close = transition('31', 'Close', 'Done', {
+  resolution: { name: 'Resolution', required: true, schema: { type: 'resolution' }, allowedValues: [{ id: '1', name: 'Done' }] },
+});
+
+describe('transition command', () => {
+  let json: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    Logger.setJsonMode(true);
+    json = vi.spyOn(Logger, 'json').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    vi.spyOn(ConfigManager.prototype, 'getConfig').mockResolvedValue({ host: 'example.atlassian.net', email: '', project: 'PROJ' } as any);
+    vi.spyOn(CoreClient.prototype, 'getIssue').mockResolvedValue({ key: 'PROJ-1', fields: { status: { name: 'To Do' } } } as any);
+    vi.spyOn(CoreClient.prototype, 'getTransitions').mockResolvedValue([start]);
+    vi.spyOn(CoreClient.prototype, 'planTransitions').mockResolvedValue({
+      steps: [
+        { id: '11', name: 'Start', from: 'To Do', to: 'In Progress' },
+        { id: '31', name: 'Close', from: 'In Progress', to: 'Done' },
+      ],
+      transitions: [start, close],
+      reachable: ['In Progress', 'Done'],
+      unexplored: [],
+    });
+  });
+
+  afterEach(() => {
+    Logger.setJsonMode(false);
+    vi.restoreAllMocks();
+  });
+
+  function output() {
+    return json.mock.calls[0][0] as any;
+  }
+
+  it('should list the fields each planned step still needs in a dry run', async () => {
+    await createTransitionCommand().parseAsync(['PROJ-1', '--to', 'Done', '--dry-run'], { from: 'user' });
+
+    const steps = output().data.steps;
+    expect(steps[0].requiredFields).toEqual([]);
+    expect(steps[1].requiredFields).toEqual([{ fieldId: 'resolution', name: 'Resolution', type: 'resolution', allowedValues: ['Done'] }]);
+  });
+
+  it('should fail before the first transition when a later one needs a field', async () => {
+    const run = vi.spyOn(CoreClient.prototype, 'transitionIssue').mockResolvedValue();
+
+    await createTransitionCommand().parseAsync(['PROJ-1', '--to', 'Done'], { from: 'user' });
+
+    expect(run).not.toHaveBeenCalled();
+    expect(output().error.details).toMatchObject({
+      transition: 'Close',
+      requiredFields: [{ fieldId: 'resolution' }],
+      completedSteps: [],
+      currentStatus: 'To Do',
+    });
+  });
+
+  it('should report the steps already run when a transition fails part-way', async () => {
+    vi.mocked(CoreClient.prototype.getTransitions).mockResolvedValueOnce([start]).mockResolvedValueOnce([close]);
+    vi.spyOn(CoreClient.prototype, 'transitionIssue')
+      .mockResolvedValueOnce()
+      .mockRejectedValueOnce(new Error('Workflow validator failed'));
+
+    await createTransitionCommand().parseAsync(['PROJ-1', '--to', 'Done', '--resolution', 'Done'], { from: 'user' });
+
+    expect(output().error).toMatchObject({
+      message: 'Workflow validator failed',
+      details: { completedSteps: [{ name: 'Start' }], currentStatus: 'In Progress' },
+    });
+  });
+
+  it('should reject a resolution given both ways', async () => {
+    await createTransitionCommand().parseAsync(['PROJ-1', 'Start', '--resolution', 'Done', '--field', 'Resolution=Fixed'], { from: 'user' });
+
+    expect(output().error.message).toMatch(/either --resolution or --field/);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { readFileSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+
+const { home, keychain } = vi.hoisted(() => {
+  const { mkdtempSync } = require('fs') as typeof import('fs');
+  const { tmpdir } = require('os') as typeof import('os');
+  const home = mkdtempSync(require('path').join(tmpdir(), 'jira-home-'));
+  // ~/.jirarc.json is resolved when the module loads
+  process.env.HOME = home;
+  return { home, keychain: new Map<string, string>() };
+});
+
+vi.mock('keytar', () => ({
+  getPassword: async (service: string, account: string) => keychain.get(`${service}/${account}`) ?? null,
+  setPassword: async (service: string, account: string, password: string) => {
+    keychain.set(`${service}/${account}`, password);
+  },
+  deletePassword: async (service: string, account: string) => keychain.delete(`${service}/${account}`),
+}));
+
+import { ConfigManager } from '../../../src/config/config-manager.js';
+
+const configPath = join(home, '.jirarc.json');
+
+function writeGlobal(content: any) {
+  writeFileSync(configPath, JSON.stringify(content));
+}
+
+describe('ConfigManager profiles', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(process.env).filter(k => k.startsWith('JIRA_'))) {
+      delete process.env[key];
+    }
+    rmSync(configPath, { force: true });
+    keychain.clear();
+  });
+
+  afterAll(() => {
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('should read the default profile from the top level of ~/.jirarc.json', () => {
+    writeGlobal({ host: 'prod.atlassian.net', email: 'me@example.com', profiles: { sandbox: { host: 'sandbox.atlassian.net' } } });
+
+    const manager = new ConfigManager();
+
+    expect(manager.profile).toBe('default');
+    expect(manager.getPartialConfig().host).toBe('prod.atlassian.net');
+  });
+
+  it('should select a named profile from the argument or JIRA_PROFILE', () => {
+    writeGlobal({ host: 'prod.atlassian.net', profiles: { sandbox: { host: 'sandbox.atlassian.net', authType: 'pat' } } });
+    process.env.JIRA_PROFILE = 'sandbox';
+
+    expect(new ConfigManager().getPartialConfig()).toMatchObject({ host: 'sandbox.atlassian.net', authType: 'pat', profile: 'sandbox' });
+    expect(new ConfigManager('default').getPartialConfig().host).toBe('prod.atlassian.net');
+  });
+
+  it('should report a missing profile instead of falling back to the default one', () => {
+    writeGlobal({ host: 'prod.atlassian.net', email: 'me@example.com' });
+
+    const manager = new ConfigManager('client');
+
+    expect(manager.getPartialConfig().host).toBeUndefined();
+    expect(manager.validateGlobal()).toEqual(['Profile "client" is not configured. Run "jira auth set --profile client"']);
+  });
+
+  it('should pass the profile\'s field aliases through to the client config', async () => {
+    writeGlobal({ host: 'prod.atlassian.net', email: 'me@example.com', apiToken: 't', fieldAliases: { storyPoints: 'customfield_10106' } });
+
+    const config = await new ConfigManager().getConfig();
+
+    expect(config.fieldAliases).toEqual({ storyPoints: 'customfield_10106' });
+  });
+
+  it('should reject profile names that are not safe keychain or JSON keys', () => {
+    expect(() => new ConfigManager('../prod')).toThrow('Invalid profile name');
+  });
+
+  it('should save a profile without touching the others and keep its token separate', async () => {
+    writeGlobal({ host: 'prod.atlassian.net', email: 'me@example.com' });
+
+    await new ConfigManager('client').saveGlobalConfig({ host: 'client.atlassian.net', email: 'me@example.com', apiToken: 'client-token' });
+    await new ConfigManager().saveGlobalConfig({ host: 'prod.atlassian.net', email: 'me@example.com', apiToken: 'prod-token' });
+
+    const file = JSON.parse(readFileSync(configPath, 'utf-8'));
+    expect(file.host).toBe('prod.atlassian.net');
+    expect(file.profiles.client).toEqual({ host: 'client.atlassian.net', email: 'me@example.com', authType: 'basic' });
+    expect(keychain.get('jira-cli/me@example.com')).toBe('prod-token');
+    expect(keychain.get('jira-cli:client/me@example.com')).toBe('client-token');
+
+    expect((await new ConfigManager('client').getConfig()).apiToken).toBe('client-token');
+    expect(new ConfigManager().listProfiles()).toEqual(['default', 'client']);
+  });
+});
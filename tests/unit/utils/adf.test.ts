@@ -1,6 +1,28 @@
 import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
 import { ADFBuilder } from '../../../src/utils/adf.js';
 
+const FIXTURES = join(__dirname, '../../fixtures/adf');
+
+// localIds are generated fresh on every parse
+function withoutLocalIds(value: any): any {
+  return JSON.parse(JSON.stringify(value, (key, v) => key === 'localId' ? undefined : v));
+}
+
+function collectTypes(node: any, types = new Set<string>()): Set<string> {
+  if (node?.type) {
+    types.add(node.type);
+  }
+  for (const child of node?.content || []) {
+    collectTypes(child, types);
+  }
+  for (const mark of node?.marks || []) {
+    types.add(`mark:${mark.type}`);
+  }
+  return types;
+}
+
 describe('ADF Builder', () => {
   describe('textToADF', () => {
     it('should convert plain text to ADF', () => {
@@ -172,8 +194,8 @@ describe('ADF Builder', () => {
       };
       
       const text = ADFBuilder.adfToText(adf);
-      expect(text).toContain('• Item 1');
-      expect(text).toContain('• Item 2');
+      expect(text).toContain('- Item 1');
+      expect(text).toContain('- Item 2');
     });
 
     it('should handle empty ADF', () => {
@@ -217,4 +239,66 @@ describe('ADF Builder', () => {
       expect(link.attrs.title).toBe('Example Site');
     });
   });
-});
\ No newline at end of file
+
+  describe('round trip', () => {
+    const fixtures = readdirSync(FIXTURES).filter(file => file.endsWith('.md'));
+
+    it.each(fixtures)('should reproduce %s exactly', (file) => {
+      const markdown = readFileSync(join(FIXTURES, file), 'utf-8').trim();
+
+      expect(ADFBuilder.adfToText(ADFBuilder.textToADF(markdown))).toBe(markdown);
+    });
+
+    it.each(fixtures)('should parse the Markdown of %s back to the same ADF', (file) => {
+      const adf = ADFBuilder.textToADF(readFileSync(join(FIXTURES, file), 'utf-8'));
+
+      expect(withoutLocalIds(ADFBuilder.textToADF(ADFBuilder.adfToText(adf)))).toEqual(withoutLocalIds(adf));
+    });
+
+    it('should keep every node and mark of a document written in the browser', () => {
+      const adf = JSON.parse(readFileSync(join(FIXTURES, 'browser-description.json'), 'utf-8'));
+      const markdown = ADFBuilder.adfToText(adf);
+      const reparsed = ADFBuilder.textToADF(markdown);
+
+      expect(ADFBuilder.adfToText(reparsed)).toBe(markdown);
+      expect([...collectTypes(reparsed)].sort()).toEqual([...collectTypes(adf)].sort());
+    });
+
+    it('should be stable after one pass for loosely written Markdown', () => {
+      const markdown = '* one\n+ two\n\n1) first\n\nSome __bold__ and _em_ text  \n\n***';
+      const once = ADFBuilder.adfToText(ADFBuilder.textToADF(markdown));
+
+      expect(once).toBe('- one\n- two\n\n1. first\n\nSome **bold** and *em* text\n\n---');
+      expect(ADFBuilder.adfToText(ADFBuilder.textToADF(once))).toBe(once);
+    });
+  });
+
+  describe('Markdown extensions', () => {
+    it('should parse panels, status lozenges, mentions and emoji', () => {
+      const adf = ADFBuilder.textToADF(':::warning\nPing @[Jane](accountid:42) :fire: {status:red}BLOCKED{status}\n:::');
+      const panel = adf.content[0];
+      const inline = panel.content![0].content!;
+
+      expect(panel).toMatchObject({ type: 'panel', attrs: { panelType: 'warning' } });
+      expect(inline.find(n => n.type === 'mention')?.attrs).toMatchObject({ id: '42', text: '@Jane' });
+      expect(inline.find(n => n.type === 'emoji')?.attrs).toEqual({ shortName: ':fire:' });
+      expect(inline.find(n => n.type === 'status')?.attrs).toEqual({ text: 'BLOCKED', color: 'red' });
+    });
+
+    it('should not treat times or paths as emoji or strike', () => {
+      const adf = ADFBuilder.textToADF('Meet at 10:30:45 in ~/work');
+
+      expect(adf.content[0].content).toEqual([{ type: 'text', text: 'Meet at 10:30:45 in ~/work' }]);
+    });
+
+    it('should turn raw newlines from older documents into separate lines', () => {
+      const adf = {
+        type: 'doc',
+        version: 1,
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Line 1\nLine 2' }] }],
+      };
+
+      expect(ADFBuilder.adfToText(adf)).toBe('Line 1\nLine 2');
+    });
+  });
+});
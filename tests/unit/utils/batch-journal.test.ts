@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BatchJournal } from '../../../src/utils/batch-journal.js';
+
+const rows = [
+  { id: BatchJournal.fingerprint({ summary: 'One' }), summary: 'One' },
+  { id: BatchJournal.fingerprint({ summary: 'Two' }), summary: 'Two' },
+  { id: BatchJournal.fingerprint({ summary: 'Three' }), summary: 'Three' },
+];
+
+describe('BatchJournal', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jira-journal-'));
+    path = join(dir, 'create.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write every row as pending when started', () => {
+    const journal = BatchJournal.start('batch create', 'issues.csv', rows, path);
+
+    expect(existsSync(path)).toBe(true);
+    expect(journal.remaining().map(e => e.row)).toEqual([1, 2, 3]);
+    expect(JSON.parse(readFileSync(path, 'utf-8')).entries[0]).toEqual({ row: 1, id: rows[0].id, summary: 'One', status: 'pending' });
+  });
+
+  it('should save each recorded row so a resumed run skips finished ones', () => {
+    const journal = BatchJournal.start('batch create', 'issues.csv', rows, path);
+    journal.record(1, { status: 'done', key: 'PROJ-1' });
+    journal.record(2, { status: 'failed', error: 'Priority is invalid' });
+
+    const resumed = BatchJournal.resume(path, 'batch create', rows.map(r => r.id));
+
+    expect(resumed.source).toBe('issues.csv');
+    expect(resumed.entries[0]).toMatchObject({ status: 'done', key: 'PROJ-1' });
+    expect(resumed.remaining().map(e => [e.row, e.status, e.error])).toEqual([
+      [2, 'failed', 'Priority is invalid'],
+      [3, 'pending', undefined],
+    ]);
+  });
+
+  it('should clear the error once a failed row succeeds', () => {
+    const journal = BatchJournal.start('batch create', 'issues.csv', rows, path);
+    journal.record(2, { status: 'failed', error: 'Timeout' });
+    journal.record(2, { status: 'done', key: 'PROJ-2' });
+
+    expect(journal.entries[1]).toEqual({ row: 2, id: rows[1].id, summary: 'Two', status: 'done', key: 'PROJ-2', error: undefined });
+  });
+
+  it('should refuse to resume with different input', () => {
+    BatchJournal.start('batch create', 'issues.csv', rows, path);
+
+    expect(() => BatchJournal.resume(path, 'batch create', rows.slice(0, 2).map(r => r.id)))
+      .toThrow('The input has 2 rows but the journal has 3');
+    expect(() => BatchJournal.resume(path, 'batch create', [rows[0].id, 'changed', rows[2].id]))
+      .toThrow('Row 2 ("Two") differs from the journal');
+  });
+
+  it('should refuse a journal written by another operation or a missing file', () => {
+    BatchJournal.start('batch create', 'issues.csv', rows, path);
+
+    expect(() => BatchJournal.resume(path, 'batch delete')).toThrow('was written by "jira batch create"');
+    expect(() => BatchJournal.resume(join(dir, 'missing.json'), 'batch create')).toThrow('Journal not found');
+  });
+});
@@ -87,6 +87,15 @@ Fix bug,Bug,"frontend,backend"`;
       expect(result[0].components).toEqual(['frontend', 'backend']);
     });
 
+    it('should collect "Field:" columns as fields by name', () => {
+      const csv = `Summary,Field: Team,Field:customfield_10051
+Fix bug,Platform,3
+Other,,`;
+      const result = CSVParser.parseContent(csv);
+      expect(result[0].fields).toEqual({ Team: 'Platform', customfield_10051: '3' });
+      expect(result[1].fields).toBeUndefined();
+    });
+
     it('should use defaults for missing fields', () => {
       const csv = `Summary
 Just a title`;
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { ErrorHandler, ErrorCode, EXIT_CODES } from '../../../src/utils/error-handler.js';
+import { ErrorHandler, ErrorCode, EXIT_CODES, DetailedError } from '../../../src/utils/error-handler.js';
 import { Logger } from '../../../src/utils/logger.js';
 
 describe('ErrorHandler', () => {
@@ -29,6 +29,14 @@ describe('ErrorHandler', () => {
     });
   });
 
+  describe('statusOf', () => {
+    it('should read the status of a failed request and nothing else', () => {
+      expect(ErrorHandler.statusOf({ response: { statusCode: 404, body: null } })).toBe(404);
+      expect(ErrorHandler.statusOf(new Error('socket hang up'))).toBeUndefined();
+      expect(ErrorHandler.statusOf(undefined)).toBeUndefined();
+    });
+  });
+
   describe('handle', () => {
     it('should handle 400 errors as INVALID_ARGS', () => {
       const error = { response: { statusCode: 400, body: null } };
@@ -141,6 +149,17 @@ describe('ErrorHandler', () => {
         }),
       );
     });
+
+    it('should include details the error carries in JSON mode', () => {
+      vi.mocked(Logger.isJsonMode).mockReturnValue(true);
+      ErrorHandler.handle(new DetailedError('Needs a resolution', { requiredFields: [{ fieldId: 'resolution' }] }));
+      expect(Logger.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({
+          message: 'Needs a resolution',
+          details: { requiredFields: [{ fieldId: 'resolution' }] },
+        }),
+      }));
+    });
   });
 
   describe('success', () => {
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FieldMeta, FieldValues } from '../../../src/utils/field-values.js';
+
+const fields: FieldMeta[] = [
+  { fieldId: 'customfield_10050', name: 'Team', schema: { type: 'option', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:select' }, allowedValues: [{ id: '1', value: 'Platform' }, { id: '2', value: 'Mobile' }] },
+  { fieldId: 'customfield_10051', name: 'Estimate Days', schema: { type: 'number' } },
+  { fieldId: 'duedate', name: 'Due date', schema: { type: 'date', system: 'duedate' } },
+  { fieldId: 'customfield_10052', name: 'Reviewers', schema: { type: 'array', items: 'user' } },
+  { fieldId: 'customfield_10053', name: 'Region', schema: { type: 'option-with-child' }, allowedValues: [{ id: '10', value: 'EMEA', children: [{ id: '11', value: 'Germany' }] }] },
+  { fieldId: 'customfield_10054', name: 'Notes', schema: { type: 'string', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:textarea' } },
+  { fieldId: 'fixVersions', name: 'Fix versions', schema: { type: 'array', items: 'version' }, allowedValues: [{ id: '100', name: '2.3' }] },
+];
+
+const context = {
+  findUser: vi.fn(async (query: string) => (query === 'nobody' ? null : { accountId: `id-${query}` })),
+  toRichText: vi.fn(async (text: string) => ({ type: 'doc', text })),
+};
+
+describe('FieldValues', () => {
+  it('should parse repeated name=value options', () => {
+    expect(FieldValues.parse(['Team=Platform', 'customfield_10051 = 3', 'Formula=a=b'])).toEqual({
+      Team: 'Platform',
+      customfield_10051: '3',
+      Formula: 'a=b',
+    });
+    expect(() => FieldValues.parse(['Team'])).toThrow('Invalid --field "Team"');
+    expect(() => FieldValues.parse(['Team=A', 'Team=B'])).toThrow('given more than once');
+  });
+
+  it('should resolve fields by ID or display name and coerce each type', async () => {
+    const resolved = await FieldValues.resolve({
+      team: 'platform',
+      customfield_10051: '2.5',
+      'Due date': '2024-06-30',
+      Reviewers: 'ann@example.com, bob@example.com',
+      Region: 'EMEA > Germany',
+      Notes: '**Important**',
+      'Fix versions': '2.3',
+    }, fields, context, 'Story in PROJ');
+
+    expect(resolved).toEqual({
+      customfield_10050: { id: '1' },
+      customfield_10051: 2.5,
+      duedate: '2024-06-30',
+      customfield_10052: [{ accountId: 'id-ann@example.com' }, { accountId: 'id-bob@example.com' }],
+      customfield_10053: { id: '10', child: { id: '11' } },
+      customfield_10054: { type: 'doc', text: '**Important**' },
+      fixVersions: [{ id: '100' }],
+    });
+  });
+
+  it('should suggest the closest name for a mistyped field', () => {
+    expect(() => FieldValues.find('Teem', fields, 'Story in PROJ'))
+      .toThrow('Unknown field "Teem" for Story in PROJ. Did you mean "Team"?');
+    expect(() => FieldValues.find('Completely different', fields, 'PROJ-1'))
+      .toThrow(/^Unknown field "Completely different" for PROJ-1\. Only fields/);
+  });
+
+  it('should reject values the field does not allow', async () => {
+    await expect(FieldValues.coerce(fields[0], 'Web', context)).rejects.toThrow('"Web" is not an allowed value for Team. Allowed: Platform, Mobile');
+    await expect(FieldValues.coerce(fields[1], 'three', context)).rejects.toThrow('Estimate Days expects a number, got "three"');
+    await expect(FieldValues.coerce(fields[2], '30/06/2024', context)).rejects.toThrow('Due date expects a date as YYYY-MM-DD');
+    await expect(FieldValues.coerce(fields[3], 'nobody', context)).rejects.toThrow('No user found for "nobody" in Reviewers');
+    await expect(FieldValues.coerce(fields[4], 'EMEA > France', context)).rejects.toThrow('"France" is not an allowed value for Region > EMEA. Allowed: Germany');
+  });
+
+  it('should clear a field given an empty value', async () => {
+    expect(await FieldValues.coerce(fields[0], '', context)).toBeNull();
+    expect(await FieldValues.coerce(fields[3], '', context)).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FilterResolver } from '../../../src/utils/filter-resolver.js';
+
+function mockClient(favourites: any[] = []) {
+  return {
+    getFavouriteFilters: vi.fn().mockResolvedValue(favourites),
+    getFilter: vi.fn().mockImplementation(async (id: string) => ({ id, name: `Filter ${id}`, jql: `filter = ${id}` })),
+  } as any;
+}
+
+describe('FilterResolver', () => {
+  const saved = { 'my-bugs': 'assignee = currentUser() AND type = Bug' };
+
+  it('should prefer saved local filters without calling Jira', async () => {
+    const client = mockClient();
+
+    const filter = await FilterResolver.resolve('my-bugs', saved, client);
+
+    expect(filter).toEqual({ name: 'my-bugs', jql: saved['my-bugs'], source: 'local' });
+    expect(client.getFavouriteFilters).not.toHaveBeenCalled();
+  });
+
+  it('should look up numeric values as Jira filter IDs', async () => {
+    const client = mockClient();
+
+    const filter = await FilterResolver.resolve('10042', saved, client);
+
+    expect(client.getFilter).toHaveBeenCalledWith('10042');
+    expect(filter).toEqual({ name: 'Filter 10042', jql: 'filter = 10042', source: 'jira', id: '10042' });
+  });
+
+  it('should match favourite filters by name case-insensitively', async () => {
+    const client = mockClient([{ id: '7', name: 'Team Board', jql: 'project = TEAM' }]);
+
+    const filter = await FilterResolver.resolve('team board', saved, client);
+
+    expect(filter).toMatchObject({ id: '7', jql: 'project = TEAM', source: 'jira' });
+  });
+
+  it('should reject ambiguous favourite names', async () => {
+    const client = mockClient([
+      { id: '7', name: 'Mine', jql: 'a = 1' },
+      { id: '8', name: 'Mine', jql: 'b = 2' },
+    ]);
+
+    await expect(FilterResolver.resolve('Mine', undefined, client)).rejects.toThrow('IDs 7, 8');
+  });
+
+  it('should list available filters when nothing matches', async () => {
+    const client = mockClient([{ id: '7', name: 'Team Board', jql: 'project = TEAM' }]);
+
+    await expect(FilterResolver.resolve('nope', saved, client))
+      .rejects.toThrow('Available filters: my-bugs, Team Board (7)');
+  });
+});
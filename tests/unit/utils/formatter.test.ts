@@ -186,6 +186,13 @@ describe('Formatter', () => {
       expect(result[1].key).toBe('P-2');
     });
 
+    it('should read story points from the given fields', () => {
+      const issue = { key: 'P-1', fields: { summary: 'A', customfield_10016: 8, customfield_10106: 5 } };
+
+      expect(Formatter.formatJson(issue).storyPoints).toBe(8);
+      expect(Formatter.formatJson(issue, ['customfield_10106']).storyPoints).toBe(5);
+    });
+
     it('should pass through non-issue objects', () => {
       expect(Formatter.formatJson({ custom: 'data' })).toEqual({ custom: 'data' });
     });
@@ -194,4 +201,214 @@ describe('Formatter', () => {
       expect(Formatter.formatJson(null)).toBeNull();
     });
   });
+
+  describe('extractHistory', () => {
+    const histories = [
+      {
+        id: '2',
+        created: '2024-03-02T10:00:00.000Z',
+        author: { displayName: 'Bob', emailAddress: 'bob@example.com', accountId: 'acc-bob' },
+        items: [
+          { field: 'assignee', fieldtype: 'jira', fromString: null, toString: 'Alice', from: null, to: 'acc-alice' },
+        ],
+      },
+      {
+        id: '1',
+        created: '2024-03-01T10:00:00.000Z',
+        author: { displayName: 'Alice', emailAddress: 'alice@example.com', accountId: 'acc-alice' },
+        items: [
+          { field: 'status', fieldtype: 'jira', fromString: 'To Do', toString: 'In Progress', from: '1', to: '3' },
+          { field: 'priority', fieldtype: 'jira', fromString: 'Low', toString: 'High', from: '4', to: '2' },
+        ],
+      },
+    ] as any;
+
+    it('should flatten histories into one entry per field, oldest first', () => {
+      const result = Formatter.extractHistory(histories);
+      expect(result).toHaveLength(3);
+      expect(result[0]).toMatchObject({ field: 'status', from: 'To Do', to: 'In Progress', author: 'Alice' });
+      expect(result[2]).toMatchObject({ field: 'assignee', from: null, to: 'Alice', author: 'Bob' });
+    });
+
+    it('should filter by field name', () => {
+      const result = Formatter.extractHistory(histories, { fields: ['Status'] });
+      expect(result).toHaveLength(1);
+      expect(result[0].field).toBe('status');
+    });
+
+    it('should filter by author name or email', () => {
+      expect(Formatter.extractHistory(histories, { author: 'bob' })).toHaveLength(1);
+      expect(Formatter.extractHistory(histories, { author: 'alice@example.com' })).toHaveLength(2);
+    });
+
+    it('should filter by since date', () => {
+      const result = Formatter.extractHistory(histories, { since: new Date('2024-03-02T00:00:00.000Z') });
+      expect(result).toHaveLength(1);
+      expect(result[0].field).toBe('assignee');
+    });
+
+    it('should handle missing histories', () => {
+      expect(Formatter.extractHistory(undefined as any)).toEqual([]);
+    });
+  });
+
+  describe('formatHistory', () => {
+    it('should return "No history" for empty array', () => {
+      expect(Formatter.formatHistory([])).toBe('No history');
+    });
+
+    it('should render field changes', () => {
+      const result = Formatter.formatHistory([
+        { id: '1', created: '2024-03-01T10:00:00.000Z', author: 'Alice', field: 'status', from: 'To Do', to: 'Done' },
+      ]);
+      expect(result).toContain('Alice');
+      expect(result).toContain('status');
+      expect(result).toContain('To Do');
+      expect(result).toContain('Done');
+    });
+  });
+
+  describe('worklogs', () => {
+    const worklogs = [
+      {
+        id: '1',
+        author: { displayName: 'Alice', accountId: 'a1' },
+        started: '2024-05-01T09:00:00.000',
+        timeSpent: '2h',
+        timeSpentSeconds: 7200,
+        comment: { type: 'doc', version: 1, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Review' }] }] },
+      },
+      {
+        id: '2',
+        author: { displayName: 'Bob', accountId: 'b1' },
+        started: '2024-05-01T14:00:00.000',
+        timeSpent: '30m',
+        timeSpentSeconds: 1800,
+      },
+      {
+        id: '3',
+        author: { displayName: 'Alice', accountId: 'a1' },
+        started: '2024-05-02T10:00:00.000',
+        timeSpent: '1h',
+        timeSpentSeconds: 3600,
+      },
+    ] as any[];
+
+    it('should extract entries with plain text comments', () => {
+      const entries = Formatter.extractWorklogs('PROJ-1', worklogs);
+
+      expect(entries).toHaveLength(3);
+      expect(entries[0]).toMatchObject({ issueKey: 'PROJ-1', id: '1', author: 'Alice', comment: 'Review' });
+      expect(entries[1].comment).toBe('');
+    });
+
+    it('should filter by author and since', () => {
+      expect(Formatter.extractWorklogs('PROJ-1', worklogs, { author: 'bob' }).map(e => e.id)).toEqual(['2']);
+      expect(Formatter.extractWorklogs('PROJ-1', worklogs, { since: new Date('2024-05-02T00:00:00.000') }).map(e => e.id)).toEqual(['3']);
+    });
+
+    it('should total time per user and per day', () => {
+      const summary = Formatter.summarizeWorklogs(Formatter.extractWorklogs('PROJ-1', worklogs));
+
+      expect(summary.totalSeconds).toBe(12600);
+      expect(summary.byUser).toEqual({ Alice: 10800, Bob: 1800 });
+      expect(summary.byDay).toEqual({ '2024-05-01': 9000, '2024-05-02': 3600 });
+    });
+
+    it('should render a table and totals', () => {
+      const entries = Formatter.extractWorklogs('PROJ-1', worklogs);
+
+      expect(Formatter.formatWorklogs([])).toBe('No worklogs');
+      expect(Formatter.formatWorklogs(entries)).toContain('2h');
+      expect(Formatter.formatWorklogSummary(Formatter.summarizeWorklogs(entries))).toContain('3h 30m');
+    });
+  });
+
+  describe('attachments', () => {
+    const attachments = [
+      {
+        id: '10001',
+        filename: 'test-output.log',
+        author: { displayName: 'CI Bot' },
+        created: '2024-05-01T10:00:00.000+0000',
+        size: 2048,
+        mimeType: 'text/plain',
+        content: 'https://example.atlassian.net/rest/api/3/attachment/content/10001',
+      },
+    ] as any[];
+
+    it('should render a table of attachments', () => {
+      const result = Formatter.formatAttachments(attachments);
+
+      expect(result).toContain('test-output.log');
+      expect(result).toContain('2.0 KB');
+      expect(Formatter.formatAttachments([])).toBe('No attachments');
+    });
+
+    it('should produce JSON metadata with the download URL', () => {
+      expect(Formatter.formatAttachmentsJson(attachments)).toEqual([{
+        id: '10001',
+        filename: 'test-output.log',
+        size: 2048,
+        mimeType: 'text/plain',
+        author: 'CI Bot',
+        created: '2024-05-01T10:00:00.000+0000',
+        url: 'https://example.atlassian.net/rest/api/3/attachment/content/10001',
+      }]);
+    });
+
+    it('should format file sizes', () => {
+      expect(Formatter.formatFileSize(512)).toBe('512 B');
+      expect(Formatter.formatFileSize(1536)).toBe('1.5 KB');
+      expect(Formatter.formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB');
+    });
+  });
+
+  describe('issue tree', () => {
+    const issue = (key: string, type: string, category: string, points?: number) => ({
+      key,
+      fields: {
+        summary: `Summary ${key}`,
+        issuetype: { name: type },
+        status: { name: category === 'done' ? 'Done' : 'To Do', statusCategory: { key: category } },
+        assignee: { displayName: 'Alice' },
+        customfield_10016: points,
+      },
+    }) as any;
+
+    it('should roll up story points and percent done through every level', () => {
+      const subtask = Formatter.toIssueTreeNode(issue('P-4', 'Sub-task', 'done'));
+      const storyA = Formatter.toIssueTreeNode(issue('P-2', 'Story', 'done', 5), [subtask]);
+      const storyB = Formatter.toIssueTreeNode(issue('P-3', 'Story', 'new', 3));
+      const epic = Formatter.toIssueTreeNode(issue('P-1', 'Epic', 'indeterminate'), [storyA, storyB]);
+
+      expect(storyA.rollup).toEqual({ issues: 2, done: 2, storyPoints: 5, doneStoryPoints: 5, percentDone: 100 });
+      expect(epic.rollup).toEqual({ issues: 4, done: 2, storyPoints: 8, doneStoryPoints: 5, percentDone: 63 });
+      expect(epic.children.map(c => c.key)).toEqual(['P-2', 'P-3']);
+    });
+
+    it('should fall back to issue counts when nothing is pointed', () => {
+      const epic = Formatter.toIssueTreeNode(issue('P-1', 'Epic', 'new'), [
+        Formatter.toIssueTreeNode(issue('P-2', 'Task', 'done')),
+      ]);
+
+      expect(epic.rollup.percentDone).toBe(50);
+      expect(epic.storyPoints).toBeNull();
+    });
+
+    it('should render nested children with connectors and progress', () => {
+      const epic = Formatter.toIssueTreeNode(issue('P-1', 'Epic', 'new'), [
+        Formatter.toIssueTreeNode(issue('P-2', 'Story', 'done', 5), [Formatter.toIssueTreeNode(issue('P-4', 'Sub-task', 'done'))]),
+        Formatter.toIssueTreeNode(issue('P-3', 'Story', 'new', 3)),
+      ]);
+
+      const lines = Formatter.formatIssueTree(epic).split('\n');
+
+      expect(lines).toHaveLength(4);
+      expect(lines[0]).toMatch(/^P-1 \[Epic\] Summary P-1 .*\(5\/8 pts, 63% done\)/);
+      expect(lines[1]).toMatch(/^├── P-2 \[Story\]/);
+      expect(lines[2]).toMatch(/^│   └── P-4 \[Sub-task\]/);
+      expect(lines[3]).toMatch(/^└── P-3 .* 3 pts$/);
+    });
+  });
 });
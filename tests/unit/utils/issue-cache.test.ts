@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { IssueCache } from '../../../src/utils/issue-cache.js';
+
+function issue(key: string, overrides: any = {}) {
+  return {
+    key,
+    fields: {
+      summary: `Summary ${key}`,
+      status: { name: 'To Do' },
+      issuetype: { name: 'Task' },
+      priority: { name: 'Medium' },
+      labels: [],
+      updated: '2024-01-01T00:00:00.000Z',
+      ...overrides,
+    },
+  } as any;
+}
+
+describe('IssueCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jira-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty and report no sync', () => {
+    const cache = new IssueCache('example.atlassian.net', 'PROJ', dir);
+    expect(cache.exists()).toBe(false);
+    expect(cache.size).toBe(0);
+    expect(cache.lastSync).toBeNull();
+  });
+
+  it('should persist issues and last sync time', () => {
+    const cache = new IssueCache('example.atlassian.net', 'PROJ', dir);
+    cache.upsert([issue('PROJ-1'), issue('PROJ-2')]);
+    cache.lastSync = new Date('2024-02-01T00:00:00.000Z');
+    cache.save();
+
+    expect(existsSync(cache.path)).toBe(true);
+
+    const reloaded = new IssueCache('example.atlassian.net', 'PROJ', dir);
+    expect(reloaded.size).toBe(2);
+    expect(reloaded.lastSync?.toISOString()).toBe('2024-02-01T00:00:00.000Z');
+    expect(reloaded.getIssue('proj-1')?.key).toBe('PROJ-1');
+  });
+
+  it('should replace existing issues on upsert', () => {
+    const cache = new IssueCache('example.atlassian.net', 'PROJ', dir);
+    cache.upsert([issue('PROJ-1')]);
+    cache.upsert([issue('PROJ-1', { summary: 'Changed' })]);
+    expect(cache.size).toBe(1);
+    expect(cache.getIssue('PROJ-1')?.fields.summary).toBe('Changed');
+  });
+
+  it('should prune issues that are no longer in the project', () => {
+    const cache = new IssueCache('example.atlassian.net', 'PROJ', dir);
+    cache.upsert([issue('PROJ-1'), issue('PROJ-2'), issue('PROJ-3')]);
+    cache.lastPrune = new Date('2024-02-01T00:00:00.000Z');
+
+    expect(cache.prune(['PROJ-1', 'PROJ-3', 'PROJ-4'])).toEqual(['PROJ-2']);
+    expect(cache.getIssue('PROJ-2')).toBeNull();
+    cache.save();
+    expect(new IssueCache('example.atlassian.net', 'PROJ', dir).lastPrune?.toISOString()).toBe('2024-02-01T00:00:00.000Z');
+  });
+
+  describe('query', () => {
+    let cache: IssueCache;
+
+    beforeEach(() => {
+      cache = new IssueCache('example.atlassian.net', 'PROJ', dir);
+      cache.upsert([
+        issue('PROJ-1', { status: { name: 'Done' }, updated: '2024-01-01T00:00:00.000Z' }),
+        issue('PROJ-2', {
+          assignee: { displayName: 'Alice', emailAddress: 'alice@example.com', accountId: 'a1' },
+          labels: ['backend', 'api'],
+          updated: '2024-01-03T00:00:00.000Z',
+        }),
+        issue('PROJ-3', { issuetype: { name: 'Bug' }, updated: '2024-01-02T00:00:00.000Z' }),
+      ]);
+    });
+
+    it('should return issues newest first', () => {
+      expect(cache.query().map(i => i.key)).toEqual(['PROJ-2', 'PROJ-3', 'PROJ-1']);
+    });
+
+    it('should filter by status, type and labels case-insensitively', () => {
+      expect(cache.query({ status: 'done' }).map(i => i.key)).toEqual(['PROJ-1']);
+      expect(cache.query({ type: 'bug' }).map(i => i.key)).toEqual(['PROJ-3']);
+      expect(cache.query({ labels: ['backend'] }).map(i => i.key)).toEqual(['PROJ-2']);
+    });
+
+    it('should filter by assignee, me and unassigned', () => {
+      cache.user = { accountId: 'a1' };
+
+      expect(cache.query({ assignee: 'Alice' }).map(i => i.key)).toEqual(['PROJ-2']);
+      expect(cache.query({ assignee: 'me' }).map(i => i.key)).toEqual(['PROJ-2']);
+      expect(cache.query({ assignee: 'unassigned' })).toHaveLength(2);
+    });
+
+    it('should match me by username on Server/Data Center and keep the user across loads', () => {
+      cache.upsert([issue('PROJ-4', { assignee: { displayName: 'Bob', name: 'bob' } })]);
+      cache.user = { name: 'bob' };
+      cache.lastSync = new Date();
+      cache.save();
+
+      expect(new IssueCache('example.atlassian.net', 'PROJ', dir).query({ assignee: 'me' }).map(i => i.key)).toEqual(['PROJ-4']);
+    });
+
+    it('should refuse to guess who "me" is when the sync did not record it', () => {
+      expect(() => cache.query({ assignee: 'me' })).toThrow(/doesn't record who you are/);
+    });
+
+    it('should apply the limit', () => {
+      expect(cache.query({ limit: 1 })).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { IssueDocument, EditableIssue } from '../../../src/utils/issue-document.js';
+import { ADFBuilder } from '../../../src/utils/adf.js';
+
+describe('IssueDocument', () => {
+  const original: EditableIssue = {
+    summary: 'Fix login',
+    labels: ['auth', 'backend'],
+    priority: 'High',
+    assignee: 'jane@example.com',
+    description: '## Steps\n\n- Open the page\n- Click **Login**',
+  };
+
+  describe('fromIssue', () => {
+    it('should build an editable document from an issue', () => {
+      const doc = IssueDocument.fromIssue({
+        id: '1',
+        key: 'PROJ-1',
+        self: '',
+        fields: {
+          summary: 'Fix login',
+          labels: ['auth'],
+          priority: { name: 'High' },
+          assignee: null,
+          description: ADFBuilder.textToADF('Some **bold** text'),
+        },
+      } as any);
+
+      expect(doc).toEqual({
+        summary: 'Fix login',
+        labels: ['auth'],
+        priority: 'High',
+        assignee: 'unassigned',
+        description: 'Some **bold** text',
+      });
+    });
+  });
+
+  describe('stringify and parse', () => {
+    it('should round-trip a document', () => {
+      const content = IssueDocument.stringify(original);
+
+      expect(content.startsWith('---\nsummary: Fix login\nlabels: auth, backend\n')).toBe(true);
+      expect(IssueDocument.parse(content)).toEqual(original);
+    });
+
+    it('should keep colons in values and ignore blank lines', () => {
+      const doc = IssueDocument.parse('---\nsummary: Fix: login\n\nlabels:\n---\nBody');
+
+      expect(doc.summary).toBe('Fix: login');
+      expect(doc.labels).toEqual([]);
+      expect(doc.description).toBe('Body');
+    });
+
+    it('should reject documents without front matter', () => {
+      expect(() => IssueDocument.parse('Just a description')).toThrow('Missing front matter');
+    });
+
+    it('should reject unknown fields and empty summaries', () => {
+      expect(() => IssueDocument.parse('---\nsummary: A\nstatus: Done\n---\n')).toThrow('Unknown front matter field "status"');
+      expect(() => IssueDocument.parse('---\nsummary:\n---\n')).toThrow('Summary cannot be empty');
+    });
+  });
+
+  describe('diff', () => {
+    it('should report no changes for an untouched document', () => {
+      const edited = IssueDocument.parse(IssueDocument.stringify(original));
+
+      expect(IssueDocument.diff(original, edited)).toEqual({ changed: [], update: {} });
+    });
+
+    it('should only include fields that changed', () => {
+      const edited = { ...original, summary: 'Fix login on Safari', labels: ['auth', 'frontend'] };
+
+      expect(IssueDocument.diff(original, edited)).toEqual({
+        changed: ['summary', 'labels'],
+        update: {
+          summary: 'Fix login on Safari',
+          labels: { add: ['frontend'], remove: ['backend'] },
+        },
+      });
+    });
+
+    it('should unassign when the assignee is cleared', () => {
+      const { changed, update } = IssueDocument.diff(original, { ...original, assignee: '' });
+
+      expect(changed).toEqual(['assignee']);
+      expect(update.assignee).toBeNull();
+    });
+
+    it('should reject a cleared priority', () => {
+      const edited = IssueDocument.parse(IssueDocument.stringify(original).replace('priority: High', 'priority:'));
+
+      expect(() => IssueDocument.diff(original, edited)).toThrow('Priority cannot be cleared');
+    });
+
+    it('should ignore Markdown differences that convert to the same content', () => {
+      const edited = { ...original, description: '## Steps\n\n* Open the page\n* Click __Login__' };
+
+      expect(IssueDocument.diff(original, edited).changed).toEqual([]);
+    });
+
+    it('should send the description when it changed', () => {
+      const { changed, update } = IssueDocument.diff(original, { ...original, description: 'New text' });
+
+      expect(changed).toEqual(['description']);
+      expect(update.description).toBe('New text');
+    });
+  });
+});
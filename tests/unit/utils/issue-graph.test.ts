@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IssueGraph } from '../../../src/utils/issue-graph.js';
+import { JiraIssue } from '../../../src/types/jira.js';
+
+const BLOCKS = { name: 'Blocks', inward: 'is blocked by', outward: 'blocks' };
+const RELATES = { name: 'Relates', inward: 'relates to', outward: 'relates to' };
+
+function ref(key: string, category = 'new') {
+  return { key, fields: { summary: `Summary ${key}`, status: { name: category === 'done' ? 'Done' : 'To Do', statusCategory: { key: category } }, issuetype: { name: 'Story' } } } as JiraIssue;
+}
+
+// Links as Jira returns them on each issue: outwardIssue means "this issue <outward> other"
+const issues: Record<string, JiraIssue> = {
+  'P-1': { ...ref('P-1'), fields: { ...ref('P-1').fields, customfield_10016: 3, issuelinks: [
+    { id: '1', type: BLOCKS, inwardIssue: ref('P-2') },
+    { id: '2', type: RELATES, outwardIssue: ref('P-4') },
+  ] } },
+  'P-2': { ...ref('P-2'), fields: { ...ref('P-2').fields, issuelinks: [
+    { id: '1', type: BLOCKS, outwardIssue: ref('P-1') },
+    { id: '3', type: BLOCKS, inwardIssue: ref('P-3', 'done') },
+  ] } },
+  'P-3': { ...ref('P-3', 'done'), fields: { ...ref('P-3', 'done').fields, issuelinks: [
+    { id: '3', type: BLOCKS, outwardIssue: ref('P-2') },
+    { id: '4', type: BLOCKS, inwardIssue: ref('P-1') },
+  ] } },
+  'P-4': { ...ref('P-4'), fields: { ...ref('P-4').fields, issuelinks: [{ id: '2', type: RELATES, inwardIssue: ref('P-1') }] } },
+};
+const fetchIssue = vi.fn(async (key: string) => issues[key]);
+
+describe('IssueGraph', () => {
+  it('should walk links breadth-first up to the depth limit', async () => {
+    fetchIssue.mockClear();
+    const graph = await IssueGraph.explore(['p-1'], fetchIssue, { depth: 1 });
+
+    expect(fetchIssue.mock.calls.map(call => call[0])).toEqual(['P-1']);
+    expect([...graph.nodes.keys()].sort()).toEqual(['P-1', 'P-2', 'P-4']);
+    expect(graph.nodes.get('P-1')).toMatchObject({ depth: 0, expanded: true, storyPoints: 3 });
+    expect(graph.nodes.get('P-2')).toMatchObject({ depth: 1, expanded: false, storyPoints: null });
+    expect(graph.edges.get('1')).toEqual({ id: '1', from: 'P-2', to: 'P-1', type: 'Blocks', label: 'blocks', blocks: true });
+  });
+
+  it('should read story points from the given fields', async () => {
+    const graph = await IssueGraph.explore(['P-1'], fetchIssue, { depth: 1, storyPointFields: ['customfield_10106'] });
+
+    expect(graph.nodes.get('P-1')?.storyPoints).toBeNull();
+  });
+
+  it('should record each link once and report blocking cycles', async () => {
+    const graph = await IssueGraph.explore(['P-1'], fetchIssue, { depth: 5, follow: edge => edge.blocks });
+
+    expect([...graph.edges.keys()].sort()).toEqual(['1', '3', '4']);
+    expect(graph.nodes.has('P-4')).toBe(false);
+    expect(graph.findCycles()).toEqual([['P-1', 'P-3', 'P-2']]);
+  });
+
+  it('should render DOT with blocks links highlighted', async () => {
+    const graph = await IssueGraph.explore(['P-1'], fetchIssue, { depth: 1 });
+    const dot = graph.toDot();
+
+    expect(dot).toMatch(/^digraph issues \{/);
+    expect(dot).toContain('"P-1" [label="P-1\\nSummary P-1\\n(To Do)", fillcolor="#e9ecef", peripheries=2];');
+    expect(dot).toContain('"P-2" -> "P-1" [label="blocks", color="#e03131", penwidth=2];');
+    expect(dot).toContain('"P-1" -> "P-4" [label="relates to", color="#868e96"];');
+  });
+
+  it('should render Mermaid with safe ids and styled blocks links', async () => {
+    const graph = await IssueGraph.explore(['P-1'], fetchIssue, { depth: 5 });
+    const mermaid = graph.toMermaid();
+
+    expect(mermaid).toMatch(/^flowchart LR/);
+    expect(mermaid).toContain('%% Cycle: P-1 -> P-3 -> P-2 -> P-1');
+    expect(mermaid).toContain('P_2 ==>|blocks| P_1');
+    expect(mermaid).toContain('P_1 -->|relates to| P_4');
+    expect(mermaid).toMatch(/linkStyle [\d,]+ stroke:#e03131/);
+    expect(mermaid).toContain('class P_3 done');
+  });
+});
+
+describe('IssueGraph.analyzeBlockers', () => {
+  // T is blocked by A and B; A by C; C and E block each other; B by the resolved D
+  const blockedBy = (key: string, category: string, points: number | null, blockers: Array<[string, string]>, blocks: string[] = []) => ({
+    ...ref(key, category),
+    fields: {
+      ...ref(key, category).fields,
+      customfield_10016: points,
+      issuelinks: [
+        ...blockers.map(([other, otherCategory]) => ({ id: `${other}>${key}`, type: BLOCKS, inwardIssue: ref(other, otherCategory) })),
+        ...blocks.map(other => ({ id: `${key}>${other}`, type: BLOCKS, outwardIssue: ref(other) })),
+      ],
+    },
+  });
+  const blockerIssues: Record<string, JiraIssue> = {
+    T: blockedBy('T', 'indeterminate', null, [['A', 'new'], ['B', 'new']]),
+    A: blockedBy('A', 'new', 3, [['C', 'new']], ['T']),
+    B: blockedBy('B', 'new', 5, [['D', 'done']], ['T']),
+    C: blockedBy('C', 'new', 8, [['E', 'new']], ['A', 'E']),
+    D: blockedBy('D', 'done', 2, [['X', 'new']], ['B']),
+    E: blockedBy('E', 'new', 1, [['C', 'new']], ['C']),
+  };
+  const fetchBlocker = vi.fn(async (key: string) => blockerIssues[key]);
+
+  async function analyze() {
+    const graph = await IssueGraph.explore(['T'], fetchBlocker, {
+      depth: 10,
+      follow: (edge, issue) => edge.blocks && edge.to === issue.key && (issue.key === 'T' || issue.fields.status.statusCategory.key !== 'done'),
+    });
+    return graph.analyzeBlockers(['T']);
+  }
+
+  it('should list open blockers transitively with their distance', async () => {
+    const analysis = await analyze();
+
+    expect(analysis.blockers.map(b => [b.key, b.distance])).toEqual([['A', 1], ['B', 1], ['C', 2], ['E', 3]]);
+    expect(analysis.blockers[0]).toMatchObject({ summary: 'Summary A', storyPoints: 3, blocks: ['T'] });
+    // What blocks a resolved blocker is never fetched
+    expect(fetchBlocker.mock.calls.map(call => call[0])).not.toContain('X');
+  });
+
+  it('should find the heaviest chain of open blockers by story points', async () => {
+    const analysis = await analyze();
+
+    expect(analysis.criticalPath).toEqual({ keys: ['E', 'C', 'A', 'T'], storyPoints: 12 });
+  });
+
+  it('should flag resolved blockers and circular links', async () => {
+    const analysis = await analyze();
+
+    expect(analysis.doneButBlocking).toEqual([expect.objectContaining({ key: 'D', status: 'Done', blocks: ['B'], distance: 2 })]);
+    expect(analysis.cycles).toEqual([['C', 'E']]);
+  });
+});
@@ -126,6 +126,17 @@ This is a project description with no actionable items.`;
         expect(item.labels).toContain('backend');
       }
     });
+
+    it('should read Field lines indented under an item', () => {
+      const md = `## Tasks
+- [ ] Add cache warmup
+  Field: Team=Platform
+  Field: Due date = 2024-06-30
+- [ ] Fix login page`;
+      const result = MarkdownParser.parseContent(md);
+      expect(result.find(r => r.summary === 'Add cache warmup')?.fields).toEqual({ Team: 'Platform', 'Due date': '2024-06-30' });
+      expect(result.find(r => r.summary === 'Fix login page')?.fields).toBeUndefined();
+    });
   });
 
   describe('toJiraFormat', () => {
@@ -158,4 +169,65 @@ This is a project description with no actionable items.`;
       expect(result[0].fields.labels).toBeUndefined();
     });
   });
+
+  describe('parsePlan', () => {
+    const plan = [
+      '# Release plan',
+      '',
+      '## Bugs',
+      '- [ ] Fix login redirect [PROJ-12]',
+      '- [x] URGENT: Crash on save',
+      '  Happens when the disk is full.',
+      '',
+      '  Needs a retry.',
+      '## Features',
+      '- [ ] Add dark mode',
+    ].join('\n');
+
+    it('should extract checklist items with line numbers and checked state', () => {
+      const items = MarkdownParser.parsePlan(plan);
+      expect(items).toHaveLength(3);
+      expect(items[0]).toMatchObject({ line: 3, checked: false, key: 'PROJ-12', summary: 'Fix login redirect', issueType: 'Bug' });
+      expect(items[1]).toMatchObject({ line: 4, checked: true, summary: 'Crash on save', priority: 'Highest' });
+      expect(items[2]).toMatchObject({ line: 9, issueType: 'Story' });
+    });
+
+    it('should not treat the key suffix as a label', () => {
+      const items = MarkdownParser.parsePlan(plan);
+      expect(items[0].labels).not.toContain('proj-12');
+    });
+
+    it('should use indented lines as the description', () => {
+      const items = MarkdownParser.parsePlan(plan);
+      expect(items[1].description).toBe('Happens when the disk is full.\n\nNeeds a retry.');
+      expect(items[0].description).toBe('');
+    });
+
+    it('should take Field lines out of the description', () => {
+      const items = MarkdownParser.parsePlan('- [ ] Add dark mode\n  Field: Team=Web\n  Follows the OS setting.');
+      expect(items[0].fields).toEqual({ Team: 'Web' });
+      expect(items[0].description).toBe('Follows the OS setting.');
+    });
+
+    it('should leave priority unset without an explicit marker', () => {
+      const items = MarkdownParser.parsePlan(plan);
+      expect(items[2].priority).toBeUndefined();
+    });
+  });
+
+  describe('setPlanItemKey', () => {
+    it('should append the key to the given line', () => {
+      const content = '- [ ] First\n- [ ] Second';
+      expect(MarkdownParser.setPlanItemKey(content, 1, 'PROJ-7')).toBe('- [ ] First\n- [ ] Second [PROJ-7]');
+    });
+
+    it('should replace an existing key', () => {
+      expect(MarkdownParser.setPlanItemKey('- [ ] Task [PROJ-1]', 0, 'PROJ-2')).toBe('- [ ] Task [PROJ-2]');
+    });
+
+    it('should round-trip through parsePlan', () => {
+      const content = MarkdownParser.setPlanItemKey('## Tasks\n- [ ] Write docs', 1, 'PROJ-9');
+      expect(MarkdownParser.parsePlan(content)[0].key).toBe('PROJ-9');
+    });
+  });
 });
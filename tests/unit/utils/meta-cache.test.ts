@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MetaCache } from '../../../src/utils/meta-cache.js';
+
+describe('MetaCache', () => {
+  let dir: string;
+  const options = () => ({ baseDir: dir, ttlMinutes: 60 });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jira-meta-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.JIRA_REFRESH_META;
+    vi.useRealTimers();
+  });
+
+  it('should answer later runs from disk until the entry expires', async () => {
+    const load = vi.fn().mockResolvedValue([{ name: 'Blocks' }]);
+
+    expect(await new MetaCache('example.atlassian.net', 'jane@example.com', undefined, options()).fetch('linkTypes', load)).toEqual([{ name: 'Blocks' }]);
+    expect(await new MetaCache('example.atlassian.net', 'jane@example.com', undefined, options()).fetch('linkTypes', load)).toEqual([{ name: 'Blocks' }]);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    vi.useFakeTimers({ now: Date.now() + 61 * 60_000 });
+    await new MetaCache('example.atlassian.net', 'jane@example.com', undefined, options()).fetch('linkTypes', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep projects and sites apart', async () => {
+    await new MetaCache('a.atlassian.net', 'jane@example.com', 'PROJ', options()).fetch('issueTypes', async () => ['Story']);
+
+    expect(await new MetaCache('a.atlassian.net', 'jane@example.com', 'OTHER', options()).fetch('issueTypes', async () => ['Bug'])).toEqual(['Bug']);
+    expect(await new MetaCache('b.atlassian.net', 'jane@example.com', 'PROJ', options()).fetch('issueTypes', async () => ['Task'])).toEqual(['Task']);
+    expect(await new MetaCache('a.atlassian.net', 'jane@example.com', 'PROJ', options()).fetch('issueTypes', async () => ['Epic'])).toEqual(['Story']);
+  });
+
+  it('should not store empty results or anything when the TTL is 0', async () => {
+    await new MetaCache('example.atlassian.net', 'jane@example.com', 'PROJ', options()).fetch('epicLinkField', async () => null);
+    await new MetaCache('example.atlassian.net', 'jane@example.com', 'PROJ', options()).fetch('issueTypes', async () => []);
+    const off = new MetaCache('example.atlassian.net', 'jane@example.com', 'PROJ', { baseDir: dir, ttlMinutes: 0 });
+    await off.fetch('createmeta', async () => ({ projects: [] }));
+
+    expect(existsSync(off.path)).toBe(false);
+  });
+
+  it('should refetch each key once per run with JIRA_REFRESH_META', async () => {
+    await new MetaCache('example.atlassian.net', 'jane@example.com', undefined, options()).fetch('fields', async () => ['old']);
+    process.env.JIRA_REFRESH_META = 'true';
+    const cache = new MetaCache('example.atlassian.net', 'jane@example.com', undefined, options());
+    const load = vi.fn().mockResolvedValue(['new']);
+
+    expect(await cache.fetch('fields', load)).toEqual(['new']);
+    expect(await cache.fetch('fields', load)).toEqual(['new']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep users of a site apart', async () => {
+    await new MetaCache('a.atlassian.net', 'jane@example.com', 'PROJ', options()).fetch('createmeta', async () => ({ projects: ['PROJ'] }));
+
+    expect(await new MetaCache('a.atlassian.net', 'bot@example.com', 'PROJ', options()).fetch('createmeta', async () => ({ projects: [] })))
+      .toEqual({ projects: [] });
+  });
+
+  it('should clear one site\'s metadata and leave synced issues alone', async () => {
+    const a = new MetaCache('a.atlassian.net', 'jane@example.com', 'PROJ', options());
+    await a.fetch('issueTypes', async () => ['Story']);
+    await new MetaCache('b.atlassian.net', 'jane@example.com', undefined, options()).fetch('fields', async () => ['x']);
+    const issues = join(dir, 'a.atlassian.net', 'PROJ.json');
+    writeFileSync(issues, '{}');
+
+    expect(MetaCache.clear('a.atlassian.net', dir)).toBe(1);
+    expect(existsSync(a.path)).toBe(false);
+    expect(existsSync(issues)).toBe(true);
+    expect(MetaCache.clear(undefined, dir)).toBe(1);
+  });
+});
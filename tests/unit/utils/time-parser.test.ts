@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { TimeParser } from '../../../src/utils/time-parser.js';
+
+describe('TimeParser', () => {
+  describe('parseSince', () => {
+    const now = new Date('2024-03-10T12:00:00.000Z');
+
+    it('should parse relative windows', () => {
+      expect(TimeParser.parseSince('30m', now).toISOString()).toBe('2024-03-10T11:30:00.000Z');
+      expect(TimeParser.parseSince('24h', now).toISOString()).toBe('2024-03-09T12:00:00.000Z');
+      expect(TimeParser.parseSince('7d', now).toISOString()).toBe('2024-03-03T12:00:00.000Z');
+      expect(TimeParser.parseSince('2w', now).toISOString()).toBe('2024-02-25T12:00:00.000Z');
+    });
+
+    it('should parse absolute dates', () => {
+      expect(TimeParser.parseSince('2024-03-01T00:00:00Z', now).toISOString()).toBe('2024-03-01T00:00:00.000Z');
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => TimeParser.parseSince('yesterday-ish', now)).toThrow('Invalid date');
+    });
+  });
+
+  describe('parseDuration', () => {
+    it('should parse Jira duration syntax into seconds', () => {
+      expect(TimeParser.parseDuration('2h30m')).toBe(9000);
+      expect(TimeParser.parseDuration('45m')).toBe(2700);
+      expect(TimeParser.parseDuration('1.5h')).toBe(5400);
+      expect(TimeParser.parseDuration('1d 4h')).toBe(12 * 3600);
+    });
+
+    it('should use 8h days and 5d weeks by default', () => {
+      expect(TimeParser.parseDuration('1d')).toBe(8 * 3600);
+      expect(TimeParser.parseDuration('1w')).toBe(40 * 3600);
+      expect(TimeParser.parseDuration('1d', { hoursPerDay: 6 })).toBe(6 * 3600);
+    });
+
+    it('should reject invalid or too short durations', () => {
+      expect(() => TimeParser.parseDuration('two hours')).toThrow('Invalid duration');
+      expect(() => TimeParser.parseDuration('90')).toThrow('Invalid duration');
+      expect(() => TimeParser.parseDuration('0m')).toThrow('too short');
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format seconds as hours and minutes', () => {
+      expect(TimeParser.formatDuration(9000)).toBe('2h 30m');
+      expect(TimeParser.formatDuration(2700)).toBe('45m');
+      expect(TimeParser.formatDuration(10 * 3600)).toBe('10h');
+    });
+  });
+
+  describe('formatJiraDateTime', () => {
+    it('should include milliseconds and a numeric offset', () => {
+      expect(TimeParser.formatJiraDateTime(new Date())).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}[+-]\d{4}$/);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { WikiMarkup } from '../../../src/utils/wiki-markup.js';
+import { ADFBuilder } from '../../../src/utils/adf.js';
+
+function toWiki(markdown: string): string {
+  return WikiMarkup.fromADF(ADFBuilder.textToADF(markdown));
+}
+
+function toMarkdown(wiki: string): string {
+  return ADFBuilder.adfToText(WikiMarkup.toADF(wiki));
+}
+
+describe('WikiMarkup', () => {
+  describe('fromADF', () => {
+    it('should convert inline formatting', () => {
+      expect(toWiki('**bold** *em* ~~gone~~ <u>under</u> `a*b`')).toBe('*bold* _em_ -gone- +under+ {{a*b}}');
+    });
+
+    it('should convert links and mentions', () => {
+      expect(toWiki('[docs](https://example.com) and @[Jane](accountid:jdoe)')).toBe('[docs|https://example.com] and [~jdoe]');
+    });
+
+    it('should convert headings, nested lists and rules', () => {
+      expect(toWiki('## Steps\n\n- one\n  1. nested\n- two\n\n---')).toBe('h2. Steps\n\n* one\n*# nested\n* two\n\n----');
+    });
+
+    it('should convert code blocks, quotes, panels and tables', () => {
+      expect(toWiki('```js\nconst a = 1;\n```')).toBe('{code:js}\nconst a = 1;\n{code}');
+      expect(toWiki('> quoted')).toBe('{quote}\nquoted\n{quote}');
+      expect(toWiki(':::error\nBroken\n:::')).toBe('{warning}\nBroken\n{warning}');
+      expect(toWiki('| A | B |\n| --- | --- |\n| 1 | 2 |')).toBe('||A||B||\n|1|2|');
+    });
+
+    it('should escape characters that would start markup', () => {
+      expect(toWiki('use {braces} | pipes and *stars*'.replace('*stars*', '\\*stars\\*'))).toBe('use \\{braces\\} \\| pipes and \\*stars\\*');
+      expect(toWiki('well-known a - b')).toBe('well-known a - b');
+    });
+
+    it('should keep backslashes from turning into line breaks', () => {
+      expect(toWiki('Path C:\\Users\\bob')).toBe('Path C:\\Users\\bob');
+
+      const text = '\\\\server\\{share} & more &#92; \\';
+      const wiki = WikiMarkup.fromADF({ version: 1, type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] });
+      expect(wiki).not.toContain('\\\\');
+      expect(WikiMarkup.toADF(wiki).content[0].content).toEqual([{ type: 'text', text }]);
+    });
+
+    it('should escape braces in code spans', () => {
+      expect(toWiki('`code {x}`')).toBe('{{code \\{x\\}}}');
+    });
+  });
+
+  describe('toADF', () => {
+    it('should parse wiki markup into the same Markdown', () => {
+      expect(toMarkdown('h1. Title\n\nSome *bold* and _em_ with [link|https://x.y]')).toBe('# Title\n\nSome **bold** and *em* with [link](https://x.y)');
+    });
+
+    it('should parse nested and mixed lists', () => {
+      expect(toMarkdown('* one\n** child\n* two\n# first\n# second')).toBe('- one\n  - child\n- two\n\n1. first\n2. second');
+    });
+
+    it('should keep code block content verbatim, including blank lines', () => {
+      expect(toMarkdown('{code:java}\nint a = *b*;\n\nreturn a;\n{code}')).toBe('```java\nint a = *b*;\n\nreturn a;\n```');
+      expect(toMarkdown('{noformat}x{noformat}')).toBe('```\nx\n```');
+    });
+
+    it('should parse tables with header rows and links containing pipes', () => {
+      const adf = WikiMarkup.toADF('||Name||Link||\n|Docs|[site|https://x.y]|');
+      const rows = adf.content[0].content!;
+
+      expect(rows[0].content!.map(c => c.type)).toEqual(['tableHeader', 'tableHeader']);
+      expect(rows[1].content!).toHaveLength(2);
+    });
+
+    it('should treat lines in a paragraph and \\\\ as line breaks', () => {
+      const adf = WikiMarkup.toADF('one\ntwo\\\\three');
+
+      expect(adf.content[0].content!.map(n => n.type)).toEqual(['text', 'hardBreak', 'text', 'hardBreak', 'text']);
+    });
+
+    it('should parse mentions and macros', () => {
+      expect(WikiMarkup.toADF('[~accountid:123]').content[0].content![0]).toMatchObject({ type: 'mention', attrs: { id: '123' } });
+      expect(WikiMarkup.toADF('{info}Note this{info}').content[0]).toMatchObject({ type: 'panel', attrs: { panelType: 'info' } });
+    });
+
+    it('should round-trip backslashes and braces in code', () => {
+      for (const markdown of ['Path C:\\Users\\bob', 'Regex \\d+ matches digits', '`code {x}` and `C:\\dir\\`']) {
+        expect(toMarkdown(toWiki(markdown))).toBe(markdown);
+      }
+    });
+
+    it('should round-trip its own output', () => {
+      const wiki = toWiki('# T\n\n- a **b**\n  - c\n\n> q\n\n| H |\n| --- |\n| `x` |\n\n```\ncode\n```');
+
+      expect(WikiMarkup.fromADF(WikiMarkup.toADF(wiki))).toBe(wiki);
+    });
+  });
+});
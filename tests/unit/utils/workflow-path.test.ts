@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { WorkflowPath } from '../../../src/utils/workflow-path.js';
+
+function transition(id: string, name: string, to: string) {
+  return { id, name, to: { id: `s-${to}`, name: to } } as any;
+}
+
+// To Do → In Progress → In Review → Done, with a shortcut back to To Do
+const workflow: Record<string, any[]> = {
+  'To Do': [transition('11', 'Start', 'In Progress')],
+  'In Progress': [transition('21', 'Review', 'In Review'), transition('22', 'Stop', 'To Do')],
+  'In Review': [transition('31', 'Approve', 'Done'), transition('32', 'Reject', 'In Progress')],
+  'Done': [transition('41', 'Reopen', 'To Do')],
+};
+const lookup = async (status: { name: string }) => workflow[status.name] ?? null;
+
+describe('WorkflowPath', () => {
+  it('should find the shortest chain through intermediate statuses', async () => {
+    const plan = await WorkflowPath.find('To Do', workflow['To Do'], 'done', lookup, 5);
+
+    expect(plan.steps).toEqual([
+      { id: '11', name: 'Start', from: 'To Do', to: 'In Progress' },
+      { id: '21', name: 'Review', from: 'In Progress', to: 'In Review' },
+      { id: '31', name: 'Approve', from: 'In Review', to: 'Done' },
+    ]);
+    expect(plan.transitions!.map(t => t.id)).toEqual(['11', '21', '31']);
+    expect(WorkflowPath.describe(plan.steps!)).toBe('To Do → In Progress → In Review → Done');
+  });
+
+  it('should return no steps when already in the target status', async () => {
+    const spy = vi.fn(lookup);
+
+    expect((await WorkflowPath.find('Done', [], 'Done', spy, 5)).steps).toEqual([]);
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('should give up after max steps and say what it could reach', async () => {
+    const plan = await WorkflowPath.find('To Do', workflow['To Do'], 'Done', lookup, 2);
+
+    expect(plan).toEqual({ steps: null, reachable: ['In Progress', 'In Review'], unexplored: [] });
+  });
+
+  it('should report statuses whose transitions are unknown', async () => {
+    const plan = await WorkflowPath.find('To Do', workflow['To Do'], 'Done', async (status) => (
+      status.name === 'In Review' ? null : workflow[status.name]
+    ), 5);
+
+    expect(plan.steps).toBeNull();
+    expect(plan.unexplored).toEqual(['In Review']);
+  });
+});
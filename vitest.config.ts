@@ -25,6 +25,7 @@ export default defineConfig({
     env: {
       NODE_ENV: 'test',
       JIRA_SUBTASK_TYPE: 'Subtask',  // Configurable subtask type
+      JIRA_META_CACHE_TTL: '0',  // Keep metadata caching off disk; MetaCache tests opt in
     },
   },
 });
\ No newline at end of file